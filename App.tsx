@@ -1,105 +1,557 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Beaker, Settings, RotateCcw, Play, TrendingUp, BrainCircuit, Trash2, Info, Search, ArrowDown } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Beaker, Settings, RotateCcw, Play, TrendingUp, BrainCircuit, Trash2, Info, Search, ArrowDown, Thermometer, Download, Repeat, Dices, Upload, FileText, Plus, Copy, Pencil, AlertTriangle, Gauge, GraduationCap, FlaskConical } from 'lucide-react';
 import SimulationCanvas from './components/SimulationCanvas';
-import { EnergyChart } from './components/Charts';
-import { MATERIALS, DEFAULT_CONFIG, GRAVITY } from './constants';
-import { Material, PendulumConfig, TestResult, SimulationState } from './types';
-import { analyzeResults } from './services/geminiService';
-import ReactMarkdown from 'react-markdown';
+import SessionManager from './components/SessionManager';
+import LabReport from './components/LabReport';
+import MaterialEditor from './components/MaterialEditor';
+import SpecEditor from './components/SpecEditor';
+import ExercisePanel from './components/ExercisePanel';
+import ChallengeEditor from './components/ChallengeEditor';
+import ChallengePanel from './components/ChallengePanel';
+import { EnergyChart, EnergyChartMode, ENERGY_CHART_MODES, ForceChart, TransitionChart } from './components/Charts';
+import StatisticsPanel from './components/StatisticsPanel';
+import SeriesRunner from './components/SeriesRunner';
+import AnalysisView from './components/AnalysisView';
+import { MATERIALS, ACCEPTANCE_SPECS, INDIVIDUAL_MIN_RATIO, DEFAULT_CONFIG, DEFAULT_CONFIG_LIMITS, DEFAULT_SPECIMEN, SPECIMEN_WIDTHS, NOTCH_PROFILES, MACHINE_CAPACITIES, STRIKER_RADII } from './constants';
+import { AcceptanceSpec, Challenge, ChallengeSubmission, ExerciseAttempt, ExerciseQuantity, Material, PendulumConfig, TestResult, SimulationState, SpecimenGeometry, NotchType, LabSession, StrikerRadius, AppSettings, AnalysisProviderId, UnitSystem, Language } from './types';
+import { formatDimension, fractureAreaCm2, ligamentArea } from './physics/specimenModel';
+import { simulateTest, simulateFreeSwing, initialEnergy, impactVelocity, inputFromResult, deriveSeed, randomSeed, FreeSwingResult, SimulationInput, TrajectorySample } from './physics/engine';
+import { ANALYSIS_PROVIDERS, AnalysisCache, runAnalysis } from './services/analysisService';
+import { AnalysisError, AnalysisOutput } from './services/analysisProvider';
+import { exportResultsCsv, exportResultsJson, exportMaterialsJson, exportExercisesCsv, exportChallengeJson, exportChallengeAnswer } from './services/exportService';
+import { parseResultsFile, parseMaterialsJson, parseChallengeJson, parseChallengeAnswerJson, ImportRowError } from './services/importService';
+import {
+  listSessions,
+  createSession,
+  renameSession,
+  deleteSession,
+  loadResults,
+  saveResults,
+  clearResults,
+  listCustomMaterials,
+  saveCustomMaterials,
+  deleteCustomMaterial,
+  listCustomSpecs,
+  saveCustomSpec,
+  deleteCustomSpec,
+  loadExerciseAttempts,
+  saveExerciseAttempt,
+  getActiveSessionId,
+  setActiveSessionId as storeActiveSessionId,
+  getSettings,
+  setSettings as storeSettings
+} from './services/storageService';
+import { fitTransitionCurves } from './physics/transitionFit';
+import { groupResults, testedMaterials } from './analysis/resultGroups';
+import { checkMachineSettings, checkValidity } from './analysis/validity';
+import { checkAcceptance } from './analysis/acceptance';
+import { gradeExercise, sessionScore } from './analysis/exercise';
+import { ChallengeGrade, clampConfig, gradeChallenge } from './analysis/challenge';
+import { createUnits, Quantity } from './physics/units';
+import { buildSeriesQueue, SeriesItem, SeriesPlan } from './physics/series';
+import { MESSAGES, materialDescription, materialType } from './i18n';
+
+// Delay between queued tests in series mode
+const SERIES_ANIMATED_PAUSE_MS = 400;
+const SERIES_INSTANT_PAUSE_MS = 20;
 
 const App: React.FC = () => {
   // --- State ---
   const [config, setConfig] = useState<PendulumConfig>(DEFAULT_CONFIG);
+  const [specimen, setSpecimen] = useState<SpecimenGeometry>(DEFAULT_SPECIMEN);
   const [selectedMaterialId, setSelectedMaterialId] = useState<string>(MATERIALS[0].id);
   const [simulationState, setSimulationState] = useState<SimulationState>(SimulationState.IDLE);
   const [testHistory, setTestHistory] = useState<TestResult[]>([]);
-  const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [sessions, setSessions] = useState<LabSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [aiAnalysis, setAiAnalysis] = useState<AnalysisOutput | null>(null);
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showMagnifier, setShowMagnifier] = useState(false);
+  const [instrumented, setInstrumented] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [chartMode, setChartMode] = useState<EnergyChartMode>('individual');
+  const [hiddenChartMaterials, setHiddenChartMaterials] = useState<string[]>([]);
+  const [series, setSeries] = useState<{ queue: SeriesItem[]; done: number; animated: boolean; paused: boolean } | null>(null);
+  const [sessionSeed, setSessionSeed] = useState<number | null>(null);
+  const [customMaterials, setCustomMaterials] = useState<Material[]>([]);
+  const [editingMaterial, setEditingMaterial] = useState<{ material: Material; title: string } | null>(null);
+  const [materialErrors, setMaterialErrors] = useState<ImportRowError[]>([]);
+  const [customSpecs, setCustomSpecs] = useState<AcceptanceSpec[]>([]);
+  const [editingSpec, setEditingSpec] = useState<{ spec: AcceptanceSpec; title: string } | null>(null);
+  const [exerciseAttempts, setExerciseAttempts] = useState<ExerciseAttempt[]>([]);
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [challengeSubmission, setChallengeSubmission] = useState<ChallengeSubmission | null>(null);
+  const [showChallengeEditor, setShowChallengeEditor] = useState(false);
+  const [challengeErrors, setChallengeErrors] = useState<ImportRowError[]>([]);
+  const [answerGrades, setAnswerGrades] = useState<{ fileName: string; reasoning: string; grade: ChallengeGrade }[]>([]);
   
+  const [importSummary, setImportSummary] = useState<{ added: number; skipped: number; errors: ImportRowError[] } | null>(null);
+
   // Refs
   const resultsRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const materialInputRef = useRef<HTMLInputElement>(null);
+  const challengeInputRef = useRef<HTMLInputElement>(null);
+  const analysisCacheRef = useRef<AnalysisCache>(new Map());
   
   // Current Simulation Calculation State
   const [currentResult, setCurrentResult] = useState<TestResult | null>(null);
+  const [currentTrajectory, setCurrentTrajectory] = useState<TrajectorySample[]>([]);
+  const [isReplay, setIsReplay] = useState(false);
+  const [calibration, setCalibration] = useState<FreeSwingResult | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
 
-  const selectedMaterial = MATERIALS.find(m => m.id === selectedMaterialId) || MATERIALS[0];
+  // Built-in materials first, then the user's own library
+  const allMaterials = useMemo(() => [...MATERIALS, ...customMaterials], [customMaterials]);
+  // During a challenge the only material on the machine is the sample under its code name
+  const sample = challenge?.sample ?? null;
+  const selectedMaterial = sample ?? allMaterials.find(m => m.id === selectedMaterialId) ?? MATERIALS[0];
+  const testableMaterials = sample ? [sample] : allMaterials;
+  const configLimits = challenge?.limits ?? DEFAULT_CONFIG_LIMITS;
+  const isCustomMaterial = (id: string) => customMaterials.some(m => m.id === id);
 
-  // --- Physics Logic ---
-  const runSimulation = useCallback(() => {
-    if (simulationState !== SimulationState.IDLE) return;
-    setShowMagnifier(false); // Hide magnifier when starting
+  const allSpecs = useMemo(() => [...ACCEPTANCE_SPECS, ...customSpecs], [customSpecs]);
+  const selectedSpec = allSpecs.find(spec => spec.id === settings.acceptanceSpecId) ?? null;
+  const isCustomSpec = (id: string) => customSpecs.some(spec => spec.id === id);
+
+  // While a test runs the canvas shows the inputs of that test (they differ from the panel on replays)
+  const isRunning = simulationState !== SimulationState.IDLE;
+  const activeConfig = isRunning && currentResult && !isCalibrating ? currentResult.config : config;
+  const activeMaterial = isRunning && currentResult ? currentResult.material : selectedMaterial;
 
-    // 1. Calculate Initial Potential Energy (PE1)
-    // h1 = L(1 - cos(startAngle))
-    const startRad = config.startAngle * (Math.PI / 180);
-    const h1 = config.length * (1 - Math.cos(startRad));
-    const pe1 = config.mass * GRAVITY * h1;
-
-    // 2. Determine Material Absorption (Simulated with random variance)
-    const variance = (Math.random() * 0.1) - 0.05; 
-    let absorbed = selectedMaterial.baseToughness * (1 + variance);
-
-    // Physics constraint
-    let didBreak = true;
-    if (absorbed >= pe1) {
-      absorbed = pe1;
-      didBreak = false; 
+  const t = MESSAGES[settings.language];
+  const units = useMemo(() => createUnits(settings.unitSystem, t.locale), [settings.unitSystem, t.locale]);
+  // Slider bounds in display units, rounded inwards to the step so they stay within the SI limits
+  const sliderBounds = (quantity: Quantity, min: number, max: number, step: number) => ({
+    min: Number((Math.ceil(units.toDisplay(quantity, min) / step - 1e-9) * step).toPrecision(12)),
+    max: Number((Math.floor(units.toDisplay(quantity, max) / step + 1e-9) * step).toPrecision(12)),
+  });
+  const massBounds = sliderBounds('mass', configLimits.mass.min, configLimits.mass.max, 1);
+  const lengthBounds = sliderBounds('length', configLimits.length.min, configLimits.length.max, 0.1);
+  const temperatureBounds = sliderBounds('temperature', configLimits.temperature.min, configLimits.temperature.max, 5);
+  const machineIssues = checkMachineSettings(config, units, t);
+
+  // In exercise mode the last test stays out of every table and chart until the student has answered
+  const currentAttempt = currentResult ? exerciseAttempts.find(a => a.resultId === currentResult.id) ?? null : null;
+  const exercisePending = settings.exerciseMode && currentResult !== null && !isReplay && !currentAttempt;
+  const visibleHistory = useMemo(
+    () => exercisePending ? testHistory.filter(r => r.id !== currentResult!.id) : testHistory,
+    [testHistory, exercisePending, currentResult]
+  );
+  const revealedResult = exercisePending ? null : currentResult;
+  const exerciseScore = sessionScore(exerciseAttempts);
+
+  const transitionFits = useMemo(() => fitTransitionCurves(visibleHistory), [visibleHistory]);
+  const resultGroups = useMemo(() => groupResults(visibleHistory), [visibleHistory]);
+  // Hidden rather than shown ids, so newly tested materials appear in the comparison by default
+  const chartMaterials = useMemo(() => testedMaterials(visibleHistory), [visibleHistory]);
+  const chartResults = useMemo(() => visibleHistory.filter(r => !hiddenChartMaterials.includes(r.material.id)), [visibleHistory, hiddenChartMaterials]);
+
+  // --- Persistence (IndexedDB sessions) ---
+  // Last session asked for; a slower load for an earlier switch is dropped
+  const openingSessionRef = useRef<string | null>(null);
+
+  const openSession = useCallback(async (sessionId: string) => {
+    openingSessionRef.current = sessionId;
+    // A running series belongs to the session it was started in
+    setSeries(null);
+    setActiveSessionId(sessionId);
+    storeActiveSessionId(sessionId);
+    setAiAnalysis(null);
+    setAnalysisError(null);
+    setCurrentResult(null);
+    setTestHistory([]);
+    setExerciseAttempts([]);
+    try {
+      const [results, attempts] = await Promise.all([loadResults(sessionId), loadExerciseAttempts(sessionId)]);
+      if (openingSessionRef.current !== sessionId) return;
+      setTestHistory(results);
+      setExerciseAttempts(attempts);
+    } catch (error) {
+      console.error("Storage Error:", error);
     }
+  }, []);
+
+  // Guards against the double effect run of StrictMode creating two default sessions
+  const restoredRef = useRef(false);
 
-    // 3. Calculate Final Height and Angle
-    const pe2 = pe1 - absorbed;
-    const h2 = pe2 / (config.mass * GRAVITY);
-    const cosBeta = 1 - (h2 / config.length);
-    const safeCosBeta = Math.max(-1, Math.min(1, cosBeta)); 
-    const finalAngleRad = Math.acos(safeCosBeta);
-    const finalAngleDeg = finalAngleRad * (180 / Math.PI);
-
-    const result: TestResult = {
-      id: Date.now().toString(),
-      timestamp: Date.now(),
-      material: selectedMaterial,
-      initialEnergy: pe1,
-      absorbedEnergy: absorbed,
-      finalAngle: finalAngleDeg,
-      didBreak
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    const restore = async () => {
+      try {
+        let stored = await listSessions();
+        if (stored.length === 0) {
+          stored = [await createSession(t.app.defaultSessionName(1))];
+        }
+        setSessions(stored);
+        const lastId = getActiveSessionId();
+        await openSession(stored.some(s => s.id === lastId) ? lastId! : stored[stored.length - 1].id);
+        setCustomMaterials(await listCustomMaterials());
+        setCustomSpecs(await listCustomSpecs());
+      } catch (error) {
+        console.error("Storage Error:", error);
+      }
     };
+    restore();
+  }, [openSession]);
+
+  const handleCreateSession = async (name: string) => {
+    try {
+      const session = await createSession(name);
+      setSessions(prev => [...prev, session]);
+      await openSession(session.id);
+    } catch (error) {
+      console.error("Storage Error:", error);
+    }
+  };
+
+  const handleRenameSession = async (sessionId: string, name: string) => {
+    try {
+      await renameSession(sessionId, name);
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error("Storage Error:", error);
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    try {
+      await deleteSession(sessionId);
+      let remaining = await listSessions();
+      if (remaining.length === 0) {
+        remaining = [await createSession(t.app.defaultSessionName(1))];
+      }
+      setSessions(remaining);
+      if (sessionId === activeSessionId) {
+        await openSession(remaining[remaining.length - 1].id);
+      }
+    } catch (error) {
+      console.error("Storage Error:", error);
+    }
+  };
+
+  // --- Material Library ---
+  const newMaterial = (): Material => ({
+    id: `custom-${Date.now()}`,
+    name: '',
+    type: 'Metal',
+    transition: { upperShelf: 100, lowerShelf: 10, transitionTemp: 0, width: 20 },
+    color: '#3b82f6',
+    description: '',
+    fractureType: 'Ductile',
+  });
+
+  const cloneMaterial = (material: Material): Material => ({
+    ...material,
+    transition: { ...material.transition },
+    id: `custom-${Date.now()}`,
+    description: materialDescription(material, t),
+    name: t.app.copyName(material.name),
+  });
+
+  const handleSaveMaterial = async (material: Material) => {
+    setEditingMaterial(null);
+    setCustomMaterials(prev => [...prev.filter(m => m.id !== material.id), material].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedMaterialId(material.id);
+    await saveCustomMaterials([material]).catch(error => console.error("Storage Error:", error));
+  };
+
+  const handleDeleteMaterial = async (material: Material) => {
+    if (!window.confirm(t.app.confirmDeleteMaterial(material.name))) return;
+    setCustomMaterials(prev => prev.filter(m => m.id !== material.id));
+    // Only a deleted selection falls back to the first built-in material
+    if (selectedMaterialId === material.id) setSelectedMaterialId(MATERIALS[0].id);
+    await deleteCustomMaterial(material.id).catch(error => console.error("Storage Error:", error));
+  };
+
+  // Shared libraries never overwrite built-ins; imported ids replace existing custom entries
+  const handleImportMaterials = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseMaterialsJson(await file.text(), t);
+      const builtInIds = new Set(MATERIALS.map(m => m.id));
+      const accepted = report.materials.filter(m => !builtInIds.has(m.id));
+      const errors = [
+        ...report.errors,
+        ...report.materials.filter(m => builtInIds.has(m.id)).map(m => ({ row: 0, message: t.app.builtInSkipped(m.name) })),
+      ];
+
+      if (accepted.length > 0) {
+        const ids = new Set(accepted.map(m => m.id));
+        setCustomMaterials(prev => [...prev.filter(m => !ids.has(m.id)), ...accepted].sort((a, b) => a.name.localeCompare(b.name)));
+        await saveCustomMaterials(accepted).catch(error => console.error("Storage Error:", error));
+      }
+      setMaterialErrors(errors);
+    } catch (error) {
+      console.error("Import Error:", error);
+      setMaterialErrors([{ row: 0, message: t.import.unexpected(String(error)) }]);
+    }
+  };
+
+  // --- Physics Logic ---
+
+  // A free swing only describes the machine settings it was run with
+  useEffect(() => {
+    setCalibration(null);
+  }, [config.mass, config.length, config.startAngle, config.machine]);
+
+  const startTest = useCallback((input: SimulationInput, replay: boolean) => {
+    if (simulationState !== SimulationState.IDLE) return;
+    setShowMagnifier(false); // Hide magnifier when starting
+
+    // Energy balance and pendulum motion come from the headless engine
+    const { result, trajectory } = simulateTest(input);
 
     setCurrentResult(result);
+    setCurrentTrajectory(trajectory);
+    setIsReplay(replay);
+    // The canvas advances the remaining phases as the hammer reaches them
     setSimulationState(SimulationState.SWINGING_DOWN);
+  }, [simulationState]);
 
-    setTimeout(() => {
-      setSimulationState(SimulationState.IMPACT);
-      setTimeout(() => {
-        setSimulationState(SimulationState.SWINGING_UP);
-        setTimeout(() => {
-           setSimulationState(SimulationState.OSCILLATING);
-        }, 1000);
-      }, 100);
-    }, 800); 
+  // With a session seed every class member gets the same n-th result for each material
+  const nextSeed = useCallback((materialId: string) => {
+    const previousRuns = testHistory.filter(r => r.material.id === materialId).length;
+    return sessionSeed !== null ? deriveSeed(sessionSeed, materialId, previousRuns) : randomSeed();
+  }, [testHistory, sessionSeed]);
 
-  }, [config, selectedMaterial, simulationState]);
+  const runSimulation = () => {
+    startTest({ config, material: selectedMaterial, specimen, seed: nextSeed(selectedMaterial.id), timestamp: Date.now() }, false);
+  };
+
+  // Calibration run without a specimen: the hammer stops short of the release angle by the machine losses
+  const runFreeSwing = () => {
+    if (simulationState !== SimulationState.IDLE) return;
+    setShowMagnifier(false);
+    const freeSwing = simulateFreeSwing(config);
+    setCalibration(freeSwing);
+    setCurrentTrajectory(freeSwing.trajectory);
+    setIsCalibrating(true);
+    setSimulationState(SimulationState.FREE_SWING);
+  };
 
-  const handleAnimationComplete = () => {
+  const replayTest = (result: TestResult) => {
+    startTest(inputFromResult(result), true);
+  };
+
+  const recordResult = useCallback((result: TestResult) => {
+    setTestHistory(prev => [...prev, result]);
+    if (activeSessionId) {
+      saveResults(activeSessionId, [result]).catch(error => console.error("Storage Error:", error));
+    }
+  }, [activeSessionId]);
+
+  // Stable between renders: the canvas restarts its animation loop whenever this changes
+  const handleAnimationComplete = useCallback(() => {
     setSimulationState(SimulationState.IDLE);
-    if (currentResult) {
-      setTestHistory(prev => [...prev, currentResult]);
+    if (isCalibrating) {
+      setIsCalibrating(false);
+      return;
+    }
+    // Replays reproduce an existing entry, so they are not logged again
+    if (currentResult && !isReplay) {
+      recordResult(currentResult);
+    }
+  }, [isCalibrating, currentResult, isReplay, recordResult]);
+
+  // --- Series Mode ---
+  const startSeries = (plan: SeriesPlan) => {
+    const queue = buildSeriesQueue(plan, config, specimen, testableMaterials);
+    if (queue.length === 0) return;
+    setSeries({ queue, done: 0, animated: plan.animated, paused: false });
+  };
+
+  // Runs the next queued test whenever the machine is idle; animated items go through the canvas
+  useEffect(() => {
+    if (!series || series.paused || simulationState !== SimulationState.IDLE) return;
+    if (series.done >= series.queue.length) {
+      setSeries(null);
+      return;
     }
+    const timer = setTimeout(() => {
+      const item = series.queue[series.done];
+      const input = { ...item, seed: nextSeed(item.material.id), timestamp: Date.now() };
+      if (series.animated) {
+        startTest(input, false);
+      } else {
+        const { result } = simulateTest(input);
+        setCurrentResult(result);
+        recordResult(result);
+      }
+      setSeries(prev => prev && { ...prev, done: prev.done + 1 });
+    }, series.animated ? SERIES_ANIMATED_PAUSE_MS : SERIES_INSTANT_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [series, simulationState, startTest, nextSeed, recordResult]);
+
+  // The Gemini client is created lazily, so switching provider is cheap
+  const analysisProvider = useMemo(() => ANALYSIS_PROVIDERS[settings.analysisProvider].create(), [settings.analysisProvider]);
+
+  // Lets the browser pick the right hyphenation and screen reader voice
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    storeSettings(next);
+    // The analysis text quotes values in the units and language it was written in
+    if (next.unitSystem !== settings.unitSystem || next.language !== settings.language) setAiAnalysis(null);
+  };
+
+  // --- Specifications ---
+  const newSpec = (): AcceptanceSpec => ({
+    id: `spec-${Date.now()}`,
+    name: '',
+    temperature: 0,
+    minAverage: 27,
+    minIndividual: INDIVIDUAL_MIN_RATIO * 27,
+  });
+
+  const handleSaveSpec = async (spec: AcceptanceSpec) => {
+    setEditingSpec(null);
+    setCustomSpecs(prev => [...prev.filter(s => s.id !== spec.id), spec].sort((a, b) => a.name.localeCompare(b.name)));
+    updateSettings({ acceptanceSpecId: spec.id });
+    await saveCustomSpec(spec).catch(error => console.error("Storage Error:", error));
+  };
+
+  const handleDeleteSpec = async (spec: AcceptanceSpec) => {
+    if (!window.confirm(t.acceptance.confirmDelete(spec.name))) return;
+    setCustomSpecs(prev => prev.filter(s => s.id !== spec.id));
+    updateSettings({ acceptanceSpecId: null });
+    await deleteCustomSpec(spec.id).catch(error => console.error("Storage Error:", error));
+  };
+
+  // Verdict for the material of the last test, over every test of that material in the session
+  const currentVerdict = selectedSpec && currentResult && simulationState === SimulationState.IDLE
+    ? checkAcceptance(visibleHistory.filter(r => r.material.id === currentResult.material.id), selectedSpec, units, t)
+    : null;
+
+  const handleExerciseSubmit = (answers: Record<ExerciseQuantity, number | null>) => {
+    if (!currentResult) return;
+    const attempt = gradeExercise(currentResult, answers);
+    setExerciseAttempts(prev => [...prev, attempt]);
+    if (activeSessionId) {
+      saveExerciseAttempt(activeSessionId, attempt).catch(error => console.error("Storage Error:", error));
+    }
+  };
+
+  // --- Challenge ---
+  const sampleResults = sample ? visibleHistory.filter(r => r.material.id === sample.id) : [];
+
+  const handleExportChallenge = (created: Challenge) => {
+    setShowChallengeEditor(false);
+    exportChallengeJson(created);
+  };
+
+  const handleLoadChallenge = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseChallengeJson(await file.text(), t);
+      setChallengeErrors(report.errors);
+      if (!report.challenge) return;
+      setChallenge(report.challenge);
+      setChallengeSubmission(null);
+      setAnswerGrades([]);
+      setConfig(prev => clampConfig(prev, report.challenge!.limits));
+    } catch (error) {
+      console.error("Import Error:", error);
+      setChallengeErrors([{ row: 0, message: t.import.unexpected(String(error)) }]);
+    }
+  };
+
+  // The instructor loads the challenge file and then the students' answers, graded here from the chosen material
+  const handleGradeAnswer = async (file: File) => {
+    if (!challenge) return;
+    try {
+      const report = parseChallengeAnswerJson(await file.text(), t);
+      if (!report.answer) {
+        setChallengeErrors(report.errors);
+        return;
+      }
+      if (report.answer.challengeId !== challenge.id) {
+        setChallengeErrors([{ row: 0, message: t.challenge.otherChallenge(file.name) }]);
+        return;
+      }
+      const { submission } = report.answer;
+      setChallengeErrors([]);
+      setAnswerGrades(prev => [...prev, { fileName: file.name, reasoning: submission.reasoning, grade: gradeChallenge(challenge, submission.materialId) }]);
+    } catch (error) {
+      console.error("Import Error:", error);
+      setChallengeErrors([{ row: 0, message: t.import.unexpected(String(error)) }]);
+    }
+  };
+
+  const leaveChallenge = () => {
+    if (!challenge || !window.confirm(t.challenge.confirmLeave(challenge.codeName))) return;
+    setChallenge(null);
+    setChallengeSubmission(null);
+    setAnswerGrades([]);
   };
 
   const handleAiAnalysis = async () => {
     setIsAnalyzing(true);
-    const analysis = await analyzeResults(testHistory);
-    setAiAnalysis(analysis);
-    setIsAnalyzing(false);
+    setAnalysisError(null);
+    try {
+      setAiAnalysis(await runAnalysis(analysisProvider, visibleHistory, analysisCacheRef.current, units, t));
+    } catch (error) {
+      console.error("Analysis Error:", error);
+      setAnalysisError(error as AnalysisError);
+    } finally {
+      setIsAnalyzing(false);
+    }
   };
 
+  // Only the active session is emptied; other sessions keep their results
   const clearHistory = () => {
+    if (activeSessionId) {
+      clearResults(activeSessionId).catch(error => console.error("Storage Error:", error));
+    }
     setTestHistory([]);
-    setAiAnalysis('');
+    setExerciseAttempts([]);
+    setAiAnalysis(null);
+    setAnalysisError(null);
     setCurrentResult(null);
   };
 
+  // Merges results from another machine into the active session; already known ids are skipped
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseResultsFile(file.name, await file.text(), allMaterials, t);
+      // Repeated ids inside the file count as skipped too; storage keys results by id
+      const knownIds = new Set(testHistory.map(r => r.id));
+      const added = report.results.filter(r => {
+        if (knownIds.has(r.id)) return false;
+        knownIds.add(r.id);
+        return true;
+      });
+
+      if (added.length > 0) {
+        setTestHistory(prev => [...prev, ...added].sort((a, b) => a.timestamp - b.timestamp));
+        if (activeSessionId) {
+          saveResults(activeSessionId, added).catch(error => console.error("Storage Error:", error));
+        }
+      }
+      setImportSummary({ added: added.length, skipped: report.results.length - added.length, errors: report.errors });
+    } catch (error) {
+      console.error("Import Error:", error);
+      setImportSummary({ added: 0, skipped: 0, errors: [{ row: 0, message: t.import.unexpected(String(error)) }] });
+    }
+  };
+
   const scrollToResults = () => {
     resultsRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -113,13 +565,59 @@ const App: React.FC = () => {
             <Beaker className="w-8 h-8 text-blue-400" />
             <div>
               <h1 className="text-xl font-bold tracking-tight">CharpySim Lab</h1>
-              <p className="text-xs text-slate-400">Simulador Interactivo de Ensayo de Impacto</p>
+              <p className="text-xs text-slate-400">{t.app.subtitle}</p>
             </div>
           </div>
           <div className="flex gap-4 text-sm">
+             <label className="flex items-center gap-2 text-xs text-slate-300" title={t.app.analysisTitle}>
+               <Settings className="w-4 h-4" />
+               {t.app.analysis}
+               <select
+                 value={settings.analysisProvider}
+                 onChange={(e) => updateSettings({ analysisProvider: e.target.value as AnalysisProviderId })}
+                 className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+               >
+                 {(Object.keys(ANALYSIS_PROVIDERS) as AnalysisProviderId[]).map(id => (
+                   <option key={id} value={id}>{t.analysis.providers[id]}</option>
+                 ))}
+               </select>
+             </label>
+             <label className="flex items-center gap-2 text-xs text-slate-300" title={t.app.unitsTitle}>
+               {t.app.units}
+               <select
+                 value={settings.unitSystem}
+                 onChange={(e) => updateSettings({ unitSystem: e.target.value as UnitSystem })}
+                 className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+               >
+                 {(Object.keys(t.unitSystems) as UnitSystem[]).map(system => (
+                   <option key={system} value={system}>{t.unitSystems[system]}</option>
+                 ))}
+               </select>
+             </label>
+             <label className="flex items-center gap-2 text-xs text-slate-300" title={t.app.languageTitle}>
+               {t.app.language}
+               <select
+                 value={settings.language}
+                 onChange={(e) => updateSettings({ language: e.target.value as Language })}
+                 className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+               >
+                 {(Object.keys(MESSAGES) as Language[]).map(language => (
+                   <option key={language} value={language}>{MESSAGES[language].languageName}</option>
+                 ))}
+               </select>
+             </label>
+             <label className="flex items-center gap-2 text-xs text-slate-300" title={t.exercise.modeTitle}>
+               <input
+                 type="checkbox"
+                 checked={settings.exerciseMode}
+                 onChange={(e) => updateSettings({ exerciseMode: e.target.checked })}
+               />
+               <GraduationCap className="w-4 h-4" />
+               {t.exercise.mode}
+             </label>
              <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-slate-800 rounded-full">
                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-               Sistema Listo
+               {t.app.systemReady}
              </div>
           </div>
         </div>
@@ -135,44 +633,61 @@ const App: React.FC = () => {
             <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl flex-wrap gap-4">
                <h2 className="font-semibold text-slate-700 flex items-center gap-2 mr-auto">
                  <RotateCcw className={`w-4 h-4 ${simulationState !== SimulationState.IDLE ? 'animate-spin' : ''}`}/>
-                 Cámara de Ensayo
+                 {t.app.testChamber}
                </h2>
                <div className="flex items-center gap-3">
                  <button
                     onClick={runSimulation}
-                    disabled={simulationState !== SimulationState.IDLE}
+                    disabled={simulationState !== SimulationState.IDLE || series !== null}
                     className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white px-4 py-1.5 rounded-full font-bold shadow-sm transition-all active:scale-95 text-xs uppercase tracking-wide"
                   >
                     <Play className="w-3 h-3 fill-current" />
-                    Iniciar Ensayo
+                    {t.app.startTest}
+                  </button>
+                 <button
+                    onClick={runFreeSwing}
+                    disabled={simulationState !== SimulationState.IDLE || series !== null}
+                    className="flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                    title={t.app.freeSwingTitle}
+                  >
+                    <Gauge className="w-3 h-3" />
+                    {t.app.freeSwing}
                   </button>
                  <div className="h-6 w-px bg-slate-200 mx-1"></div>
                  <button 
                    onClick={() => setShowMagnifier(!showMagnifier)}
                    className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-full border transition-colors ${showMagnifier ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
-                   title="Ver detalle de probeta"
+                   title={t.app.showSpecimenTitle}
                  >
                    <Search className="w-3 h-3" />
-                   {showMagnifier ? 'Ocultar Lupa' : 'Ver Probeta'}
+                   {showMagnifier ? t.app.hideMagnifier : t.app.showSpecimen}
                  </button>
                  <button 
                    onClick={scrollToResults}
                    className="flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 transition-colors"
-                   title="Ir a resultados"
+                   title={t.app.showResultsTitle}
                  >
                    <ArrowDown className="w-3 h-3" />
-                   Ver Resultados
+                   {t.app.showResults}
                  </button>
                </div>
             </div>
             <div className="p-4 flex-1 relative">
               <SimulationCanvas 
-                config={config} 
-                material={simulationState !== SimulationState.IDLE || showMagnifier ? selectedMaterial : null}
+                config={activeConfig} 
+                specimen={isRunning && currentResult ? currentResult.specimen : specimen}
+                material={!isCalibrating && (isRunning || showMagnifier) ? activeMaterial : null}
                 state={simulationState}
-                finalAngleResult={currentResult?.finalAngle || 0}
+                finalAngleResult={isCalibrating && calibration ? calibration.finalAngle : currentResult?.finalAngle || 0}
+                trajectory={currentTrajectory}
+                result={currentResult}
+                freeSwing={calibration}
+                onPhaseChange={setSimulationState}
                 onAnimationComplete={handleAnimationComplete}
                 showMagnifier={showMagnifier}
+                fracturePending={exercisePending}
+                units={units}
+                t={t}
               />
             </div>
           </div>
@@ -181,89 +696,432 @@ const App: React.FC = () => {
           <div className="lg:col-span-4 bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex flex-col h-full">
             <div className="flex items-center gap-2 mb-6 text-slate-800 pb-4 border-b border-slate-100">
               <Settings className="w-5 h-5" />
-              <h2 className="font-semibold">Configuración del Ensayo</h2>
+              <h2 className="font-semibold">{t.app.testSetup}</h2>
             </div>
             
             <div className="flex-1 overflow-y-auto pr-2 space-y-6">
               {/* Machine Config */}
               <div className="space-y-4">
-                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Parámetros del Péndulo</h3>
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.pendulumParameters}</h3>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.nominalCapacity}</label>
+                    <select
+                      value={config.machine.nominalEnergy}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setConfig({...config, machine: {...config.machine, nominalEnergy: Number(e.target.value)}})}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                    >
+                      {MACHINE_CAPACITIES.map(energy => <option key={energy} value={energy}>{units.format('energy', energy, 0)}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.striker}</label>
+                    <select
+                      value={config.machine.strikerRadius}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setConfig({...config, machine: {...config.machine, strikerRadius: Number(e.target.value) as StrikerRadius}})}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                    >
+                      {STRIKER_RADII.map(radius => (
+                        <option key={radius} value={radius}>{t.strikers[radius]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.friction} ({units.symbol('torque')})</label>
+                    <input
+                      type="number" min="0" step="0.05"
+                      value={units.toInput('torque', config.machine.frictionTorque)}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setConfig({...config, machine: {...config.machine, frictionTorque: Math.max(units.fromDisplay('torque', Number(e.target.value)), 0)}})}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.windage} ({units.symbol('torque')}·s²)</label>
+                    <input
+                      type="number" min="0" step="0.001"
+                      value={units.toInput('torque', config.machine.windageCoefficient)}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setConfig({...config, machine: {...config.machine, windageCoefficient: Math.max(units.fromDisplay('torque', Number(e.target.value)), 0)}})}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+                    />
+                  </div>
+                </div>
                 
                 <div>
-                  <label className="block text-sm font-medium text-slate-600 mb-1">Masa de la Maza (kg)</label>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.hammerMass} ({units.symbol('mass')})</label>
                   <input 
-                    type="range" min="5" max="50" step="1"
-                    value={config.mass}
+                    type="range" min={massBounds.min} max={massBounds.max} step="1"
+                    value={units.toDisplay('mass', config.mass)}
                     disabled={simulationState !== SimulationState.IDLE}
-                    onChange={(e) => setConfig({...config, mass: Number(e.target.value)})}
+                    onChange={(e) => setConfig({...config, mass: units.fromDisplay('mass', Number(e.target.value))})}
                     className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                   />
                   <div className="flex justify-between text-xs text-slate-500 mt-1">
-                    <span>5kg</span>
-                    <span className="font-bold text-slate-700">{config.mass} kg</span>
-                    <span>50kg</span>
+                    <span>{units.number(massBounds.min, 0)} {units.symbol('mass')}</span>
+                    <span className="font-bold text-slate-700">{units.format('mass', config.mass)}</span>
+                    <span>{units.number(massBounds.max, 0)} {units.symbol('mass')}</span>
                   </div>
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-slate-600 mb-1">Longitud del Brazo (m)</label>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.armLength} ({units.symbol('length')})</label>
                   <input 
-                    type="range" min="0.5" max="1.5" step="0.1"
-                    value={config.length}
+                    type="range" min={lengthBounds.min} max={lengthBounds.max} step="0.1"
+                    value={units.toDisplay('length', config.length)}
                     disabled={simulationState !== SimulationState.IDLE}
-                    onChange={(e) => setConfig({...config, length: Number(e.target.value)})}
+                    onChange={(e) => setConfig({...config, length: units.fromDisplay('length', Number(e.target.value))})}
                     className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                   />
                   <div className="flex justify-between text-xs text-slate-500 mt-1">
-                    <span>0.5m</span>
-                    <span className="font-bold text-slate-700">{config.length} m</span>
-                    <span>1.5m</span>
+                    <span>{units.number(lengthBounds.min, 1)} {units.symbol('length')}</span>
+                    <span className="font-bold text-slate-700">{units.format('length', config.length)}</span>
+                    <span>{units.number(lengthBounds.max, 1)} {units.symbol('length')}</span>
                   </div>
                 </div>
 
                  <div>
-                  <label className="block text-sm font-medium text-slate-600 mb-1">Ángulo Inicial (Grados)</label>
+                  <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.startAngle}</label>
                   <input 
-                    type="range" min="90" max="160" step="1"
+                    type="range" min={configLimits.startAngle.min} max={configLimits.startAngle.max} step="1"
                     value={config.startAngle}
                     disabled={simulationState !== SimulationState.IDLE}
                     onChange={(e) => setConfig({...config, startAngle: Number(e.target.value)})}
                     className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                   />
                   <div className="flex justify-between text-xs text-slate-500 mt-1">
-                    <span>90°</span>
+                    <span>{configLimits.startAngle.min}°</span>
                     <span className="font-bold text-slate-700">{config.startAngle}°</span>
-                    <span>160°</span>
+                    <span>{configLimits.startAngle.max}°</span>
                   </div>
                 </div>
+
+                <p className="text-xs text-slate-500">
+                  {t.app.availableEnergy} <span className="font-bold text-slate-700">{exercisePending ? '---' : units.format('energy', initialEnergy(config))}</span> ·
+                  {' '}{t.app.impactVelocity} <span className="font-bold text-slate-700">{units.format('velocity', impactVelocity(config))}</span>
+                </p>
+                {calibration && !isCalibrating && (
+                  <p className="text-xs text-blue-700">
+                    {t.app.freeSwingReading}: β1 = <span className="font-bold">{units.number(calibration.finalAngle, 2)}°</span> ·
+                    {' '}{t.app.freeSwingLosses} <span className="font-bold">{units.format('energy', calibration.loss, 2)}</span>
+                    {/* The share of PE1 would give PE1 away while the exercise is open */}
+                    {!exercisePending && <> ({t.app.freeSwingShare(units.number(100 * calibration.loss / initialEnergy(config), 2))})</>}
+                  </p>
+                )}
+                {machineIssues.map((issue, i) => (
+                  <p key={i} className="flex items-start gap-1 text-xs text-amber-700">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {issue.message}
+                  </p>
+                ))}
+
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input type="checkbox" checked={instrumented} onChange={(e) => setInstrumented(e.target.checked)} />
+                  {t.app.instrumented}
+                </label>
               </div>
 
-              {/* Material Config */}
+              {/* Test Conditions */}
+              <div className="space-y-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.testConditions}</h3>
+
+                <div>
+                  <label className="flex items-center gap-1 text-sm font-medium text-slate-600 mb-1">
+                    <Thermometer className="w-4 h-4" /> {t.app.testTemperature} ({units.symbol('temperature')})
+                  </label>
+                  <input 
+                    type="range" min={temperatureBounds.min} max={temperatureBounds.max} step="5"
+                    value={units.toDisplay('temperature', config.temperature)}
+                    disabled={simulationState !== SimulationState.IDLE}
+                    onChange={(e) => setConfig({...config, temperature: units.fromDisplay('temperature', Number(e.target.value))})}
+                    className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                  />
+                  <div className="flex justify-between text-xs text-slate-500 mt-1">
+                    <span>{units.number(temperatureBounds.min, 0)}{units.symbol('temperature')}</span>
+                    <span className="font-bold text-slate-700">{units.format('temperature', config.temperature)}</span>
+                    <span>{units.number(temperatureBounds.max, 0)}{units.symbol('temperature')}</span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Acceptance Specification */}
+              <div className="space-y-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.acceptance.title}</h3>
+                <select
+                  value={settings.acceptanceSpecId ?? ''}
+                  onChange={(e) => updateSettings({ acceptanceSpecId: e.target.value || null })}
+                  className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                >
+                  <option value="">{t.acceptance.none}</option>
+                  {allSpecs.map(spec => (
+                    <option key={spec.id} value={spec.id}>{spec.name}{isCustomSpec(spec.id) ? ` (${t.acceptance.custom})` : ''}</option>
+                  ))}
+                </select>
+                {selectedSpec && (
+                  <p className="text-xs text-slate-500">
+                    {t.acceptance.requirement(units.format('energy', selectedSpec.minAverage), units.format('energy', selectedSpec.minIndividual), units.format('temperature', selectedSpec.temperature))}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setEditingSpec({ spec: newSpec(), title: t.acceptance.newSpecTitle })}
+                    className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
+                  >
+                    <Plus className="w-3 h-3" /> {t.acceptance.newSpec}
+                  </button>
+                  {selectedSpec && isCustomSpec(selectedSpec.id) && (
+                    <>
+                      <button
+                        onClick={() => setEditingSpec({ spec: selectedSpec, title: t.acceptance.editSpecTitle })}
+                        className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
+                      >
+                        <Pencil className="w-3 h-3" /> {t.acceptance.editSpec}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSpec(selectedSpec)}
+                        className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-red-200 text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-3 h-3" /> {t.acceptance.deleteSpec}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Specimen Geometry */}
+              <div className="space-y-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.specimenGeometry}</h3>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.section} ({units.symbol('dimension')})</label>
+                    <select
+                      value={specimen.width}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setSpecimen({...specimen, width: Number(e.target.value)})}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                    >
+                      {SPECIMEN_WIDTHS.map(w => (
+                        <option key={w} value={w}>{formatDimension(specimen.thickness, units)} × {formatDimension(w, units)}{w === DEFAULT_SPECIMEN.width ? t.app.standardSize : ''}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-600 mb-1">{t.app.notch}</label>
+                    <select
+                      value={specimen.notchType}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => {
+                        const notchType = e.target.value as NotchType;
+                        const profile = NOTCH_PROFILES[notchType];
+                        setSpecimen({...specimen, notchType, notchDepth: profile.depth, notchRadius: profile.radius});
+                      }}
+                      className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                    >
+                      {(Object.keys(NOTCH_PROFILES) as NotchType[]).map(type => (
+                        <option key={type} value={type}>{t.notches[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {t.app.ligament} <span className="font-bold text-slate-700">{units.format('area', ligamentArea(specimen))}</span>
+                </p>
+              </div>
+
+              {/* Reproducibility */}
               <div className="space-y-4">
-                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Material de la Probeta</h3>
-                <div className="grid grid-cols-1 gap-2">
-                  {MATERIALS.map(m => (
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.reproducibility}</h3>
+                <div>
+                  <label className="flex items-center gap-1 text-sm font-medium text-slate-600 mb-1">
+                    <Dices className="w-4 h-4" /> {t.app.sessionSeed}
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number" min="0" step="1"
+                      placeholder={t.app.randomSeed}
+                      value={sessionSeed ?? ''}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      onChange={(e) => setSessionSeed(e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))))}
+                      className="flex-1 min-w-0 text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+                    />
                     <button
-                      key={m.id}
-                      onClick={() => setSelectedMaterialId(m.id)}
+                      onClick={() => setSessionSeed(randomSeed())}
                       disabled={simulationState !== SimulationState.IDLE}
-                      className={`flex items-center p-3 rounded-lg border text-left transition-all ${
-                        selectedMaterialId === m.id 
-                        ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' 
-                        : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
-                      }`}
+                      className="text-xs font-bold px-3 py-1.5 rounded-lg border bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
                     >
-                      <span className="w-4 h-4 rounded-full mr-3 shadow-sm flex-shrink-0" style={{backgroundColor: m.color}}></span>
-                      <div className="flex-1 min-w-0">
-                        <div className="text-sm font-semibold text-slate-800 truncate">{m.name}</div>
-                        <div className="text-xs text-slate-500 truncate">{m.type}</div>
-                      </div>
+                      {t.app.generateSeed}
                     </button>
-                  ))}
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">{t.app.seedHint}</p>
                 </div>
-                <div className="text-xs text-slate-500 bg-slate-50 p-3 rounded border border-slate-100 italic">
-                  {selectedMaterial.description}
+              </div>
+
+              {/* Material Config */}
+              {!challenge && (
+                <div className="space-y-4">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.specimenMaterial}</h3>
+                  <div className="grid grid-cols-1 gap-2">
+                    {allMaterials.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => setSelectedMaterialId(m.id)}
+                        disabled={simulationState !== SimulationState.IDLE}
+                        className={`flex items-center p-3 rounded-lg border text-left transition-all ${
+                          selectedMaterialId === m.id 
+                          ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' 
+                          : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'
+                        }`}
+                      >
+                        <span className="w-4 h-4 rounded-full mr-3 shadow-sm flex-shrink-0" style={{backgroundColor: m.color}}></span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-semibold text-slate-800 truncate">{m.name}</div>
+                          <div className="text-xs text-slate-500 truncate">{materialType(m, t)}</div>
+                        </div>
+                        {isCustomMaterial(m.id) && (
+                          <span className="text-[10px] font-bold uppercase text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-full">{t.app.customMaterial}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-slate-500 bg-slate-50 p-3 rounded border border-slate-100 italic">
+                    {materialDescription(selectedMaterial, t) || t.app.noDescription}
+                  </div>
+
+                  {/* Material Library */}
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setEditingMaterial({ material: newMaterial(), title: t.app.newMaterialTitle })}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <Plus className="w-3 h-3" /> {t.app.newMaterial}
+                    </button>
+                    <button
+                      onClick={() => setEditingMaterial({ material: cloneMaterial(selectedMaterial), title: t.app.cloneMaterialTitle })}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <Copy className="w-3 h-3" /> {t.app.cloneMaterial}
+                    </button>
+                    {isCustomMaterial(selectedMaterial.id) && (
+                      <>
+                        <button
+                          onClick={() => setEditingMaterial({ material: selectedMaterial, title: t.app.editMaterialTitle })}
+                          disabled={simulationState !== SimulationState.IDLE}
+                          className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          <Pencil className="w-3 h-3" /> {t.app.editMaterial}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteMaterial(selectedMaterial)}
+                          disabled={simulationState !== SimulationState.IDLE}
+                          className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                        >
+                          <Trash2 className="w-3 h-3" /> {t.app.deleteMaterial}
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => materialInputRef.current?.click()}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <Upload className="w-3 h-3" /> {t.app.importFile}
+                    </button>
+                    <input ref={materialInputRef} type="file" accept=".json" className="hidden" onChange={handleImportMaterials} />
+                    {customMaterials.length > 0 && (
+                      <button
+                        onClick={() => exportMaterialsJson(customMaterials)}
+                        className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
+                      >
+                        <Download className="w-3 h-3" /> {t.app.exportFile}
+                      </button>
+                    )}
+                  </div>
+                  {materialErrors.length > 0 && (
+                    <div className="p-2 rounded border text-xs bg-amber-50 border-amber-200 text-amber-800">
+                      <div className="flex justify-between items-start">
+                        <span>{t.app.materialsNotImported}</span>
+                        <button onClick={() => setMaterialErrors([])} className="ml-2 font-bold">×</button>
+                      </div>
+                      <ul className="mt-1 list-disc pl-4">
+                        {materialErrors.map((err, i) => (
+                          <li key={i}>{err.row > 0 ? t.app.materialRow(err.row) : ''}{err.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
+              )}
+
+              {/* Challenge */}
+              <div className="space-y-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.challenge.title}</h3>
+                {challenge ? (
+                  <ChallengePanel
+                    challenge={challenge}
+                    testedCount={sampleResults.length}
+                    submission={challengeSubmission}
+                    disabled={simulationState !== SimulationState.IDLE}
+                    units={units}
+                    t={t}
+                    onSubmit={setChallengeSubmission}
+                    answerGrades={answerGrades}
+                    onExportAnswer={() => challengeSubmission && exportChallengeAnswer(challenge, challengeSubmission, sampleResults)}
+                    onGradeAnswer={handleGradeAnswer}
+                    onLeave={leaveChallenge}
+                  />
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setShowChallengeEditor(true)}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <FlaskConical className="w-3 h-3" /> {t.challenge.create}
+                    </button>
+                    <button
+                      onClick={() => challengeInputRef.current?.click()}
+                      disabled={simulationState !== SimulationState.IDLE}
+                      className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <Upload className="w-3 h-3" /> {t.challenge.load}
+                    </button>
+                    <input ref={challengeInputRef} type="file" accept=".json" className="hidden" onChange={handleLoadChallenge} />
+                  </div>
+                )}
+                {challengeErrors.length > 0 && (
+                  <div className="p-2 rounded border text-xs bg-amber-50 border-amber-200 text-amber-800">
+                    <div className="flex justify-between items-start">
+                      <span>{t.challenge.loadFailed}</span>
+                      <button onClick={() => setChallengeErrors([])} className="ml-2 font-bold">×</button>
+                    </div>
+                    <ul className="mt-1 list-disc pl-4">
+                      {challengeErrors.map((err, i) => <li key={i}>{err.message}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+
+              {/* Series Mode */}
+              <div className="space-y-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t.app.seriesMode}</h3>
+                <p className="text-xs text-slate-400">{t.app.seriesHint}</p>
+                <SeriesRunner
+                  materials={testableMaterials}
+                  limits={configLimits}
+                  progress={series ? { done: series.done, total: series.queue.length, paused: series.paused } : null}
+                  disabled={simulationState !== SimulationState.IDLE}
+                  units={units}
+                  t={t}
+                  onStart={startSeries}
+                  onPause={() => setSeries(prev => prev && { ...prev, paused: true })}
+                  onResume={() => setSeries(prev => prev && { ...prev, paused: false })}
+                  onCancel={() => setSeries(null)}
+                />
               </div>
             </div>
           </div>
@@ -280,44 +1138,127 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
                 <TrendingUp className="w-5 h-5 text-green-400" />
-                Resultados del Ensayo
+                {t.app.testResults}
               </h2>
               
               <div className="space-y-4">
                  <div className="grid grid-cols-2 gap-4">
                     <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm">
-                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Energía Inicial ($E_p$)</div>
+                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">{t.app.initialEnergy}</div>
                       <div className="text-2xl font-mono font-bold">
-                        {simulationState !== SimulationState.IDLE || currentResult 
-                         ? (currentResult?.initialEnergy || (config.mass * GRAVITY * config.length * (1 - Math.cos(config.startAngle * Math.PI/180)))).toFixed(1) 
-                         : '0.0'} J
+                        {exercisePending
+                         ? '---'
+                         : simulationState !== SimulationState.IDLE || currentResult
+                         ? units.fixed('energy', currentResult?.initialEnergy || initialEnergy(config))
+                         : units.fixed('energy', 0)} {units.symbol('energy')}
                       </div>
                     </div>
                     <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm border border-white/5">
-                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">Energía Absorbida (KV)</div>
-                      <div className={`text-2xl font-mono font-bold ${currentResult ? 'text-green-400' : 'text-slate-500'}`}>
-                        {currentResult ? currentResult.absorbedEnergy.toFixed(1) : '---'} J
+                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">{t.app.absorbedEnergy}</div>
+                      <div className={`text-2xl font-mono font-bold ${revealedResult ? 'text-green-400' : 'text-slate-500'}`}>
+                        {revealedResult ? units.fixed('energy', revealedResult.absorbedEnergy) : '---'} {units.symbol('energy')}
                       </div>
+                      {revealedResult && (
+                        <div className="text-xs text-slate-400 font-mono mt-1">
+                          {t.app.readingMinusLosses(units.format('energy', revealedResult.uncorrectedEnergy), units.format('energy', revealedResult.lossCorrection, 2))}
+                        </div>
+                      )}
+                      {exercisePending && <div className="text-xs text-indigo-300 mt-1">{t.exercise.pending}</div>}
                     </div>
                  </div>
 
                  <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm">
                    <div className="text-slate-400 text-xs uppercase tracking-wider mb-1 flex items-center gap-2">
-                     Resiliencia (Tenacidad de Entalla)
-                     <Info className="w-3 h-3 cursor-help" title="Energía absorbida por unidad de área de la sección transversal en la entalla."/>
+                     {t.app.resilience}
+                     <Info className="w-3 h-3 cursor-help" title={t.app.resilienceTitle}/>
                    </div>
                    <div className="text-lg font-semibold">
-                     {currentResult 
-                      ? `${(currentResult.absorbedEnergy / 0.8).toFixed(2)} J/cm²` 
+                     {revealedResult
+                      ? units.format('toughness', revealedResult.absorbedEnergy / fractureAreaCm2(revealedResult.specimen), 2)
                       : '---'}
                    </div>
-                   <p className="text-xs text-slate-400 mt-1">Estimado para probeta estándar (sección 0.8 cm²)</p>
+                   <p className="text-xs text-slate-400 mt-1">
+                     {t.app.ligament} {units.format('area', ligamentArea(currentResult?.specimen || specimen))}
+                   </p>
+                 </div>
+
+                 <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm">
+                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">{t.app.lateralExpansion}</div>
+                      <div className="text-lg font-mono font-semibold">
+                        {revealedResult ? units.fixed('expansion', revealedResult.lateralExpansion) : '---'} {units.symbol('expansion')}
+                      </div>
+                    </div>
+                    <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm">
+                      <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">{t.app.shearFracture}</div>
+                      <div className="text-lg font-mono font-semibold">
+                        {revealedResult ? revealedResult.shearPercent : '---'} %
+                      </div>
+                    </div>
                  </div>
 
+                 {instrumented && (
+                   <div className="bg-white/10 p-4 rounded-lg backdrop-blur-sm">
+                     <div className="text-slate-400 text-xs uppercase tracking-wider mb-1">{t.app.energySplit}</div>
+                     <div className="flex justify-between text-sm font-mono">
+                       <span>{t.app.initiation}: {revealedResult ? units.fixed('energy', revealedResult.initiationEnergy) : '---'} {units.symbol('energy')}</span>
+                       <span>{t.app.propagation}: {revealedResult ? units.fixed('energy', revealedResult.propagationEnergy) : '---'} {units.symbol('energy')}</span>
+                     </div>
+                   </div>
+                 )}
+
+                 {currentResult && (
+                   <div className="flex justify-between text-xs text-slate-400 font-mono">
+                     <span>{isReplay ? t.app.replayedTest : t.app.testNumber(currentResult.id)}</span>
+                     <span>{t.app.seed}: {currentResult.seed}</span>
+                   </div>
+                 )}
+
+                 {settings.exerciseMode && currentResult && !isReplay && simulationState === SimulationState.IDLE && (
+                   <ExercisePanel
+                     result={currentResult}
+                     attempt={currentAttempt}
+                     sessionScore={exerciseScore}
+                     units={units}
+                     t={t}
+                     onSubmit={handleExerciseSubmit}
+                   />
+                 )}
+
+                 {revealedResult && simulationState === SimulationState.IDLE && checkValidity(revealedResult, units, t).map((issue, i) => (
+                   <div
+                     key={i}
+                     className={`flex items-start gap-2 p-2 rounded border text-xs ${issue.severity === 'invalid' ? 'bg-red-900/40 border-red-500/30 text-red-200' : 'bg-amber-900/30 border-amber-500/30 text-amber-200'}`}
+                   >
+                     <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                     <span><span className="font-bold">{issue.severity === 'invalid' ? t.app.invalidTest : t.app.warning}</span> {issue.message}</span>
+                   </div>
+                 ))}
+
                  {currentResult && (
                    <div className="bg-blue-900/40 p-3 rounded border border-blue-500/30 text-sm">
-                     <span className="font-bold text-blue-200">Interpretación:</span> El material se comportó de manera 
-                     <span className="font-bold text-white uppercase ml-1">{currentResult.material.fractureType === 'Ductile' ? 'Dúctil' : currentResult.material.fractureType === 'Brittle' ? 'Frágil' : 'Mixta'}</span>.
+                     <span className="font-bold text-blue-200">{t.app.interpretation}</span> {t.app.behaviour(units.format('temperature', currentResult.temperature))}
+                     <span className="font-bold text-white uppercase ml-1">{t.fracture[currentResult.fractureType]}</span>.
+                   </div>
+                 )}
+
+                 {currentVerdict && selectedSpec && currentResult && (
+                   <div className={`p-3 rounded border text-sm ${currentVerdict.status === 'pass' ? 'bg-green-900/40 border-green-500/30' : currentVerdict.status === 'fail' ? 'bg-red-900/40 border-red-500/30' : 'bg-white/10 border-white/10'}`}>
+                     <div className="flex justify-between items-center gap-2">
+                       <span className="text-xs text-slate-300">{t.acceptance.verdictFor(currentResult.material.name, selectedSpec.name)}</span>
+                       <span className={`font-bold uppercase ${currentVerdict.status === 'pass' ? 'text-green-300' : currentVerdict.status === 'fail' ? 'text-red-300' : 'text-slate-300'}`}>
+                         {t.acceptance.status[currentVerdict.status]}
+                       </span>
+                     </div>
+                     {currentVerdict.values.length > 0 && (
+                       <div className="text-xs font-mono text-slate-300 mt-1">
+                         {currentVerdict.values.map(v => units.fixed('energy', v)).join(' · ')} {units.symbol('energy')}
+                         {currentVerdict.average !== null && <> · x̄ = {units.format('energy', currentVerdict.average)}</>}
+                       </div>
+                     )}
+                     {[...currentVerdict.reasons, ...(currentVerdict.excluded > 0 ? [t.acceptance.excluded(currentVerdict.excluded)] : [])].map((reason, i) => (
+                       <p key={i} className="text-xs text-slate-300 mt-1">{reason}</p>
+                     ))}
                    </div>
                  )}
               </div>
@@ -325,38 +1266,160 @@ const App: React.FC = () => {
             
             {/* Last Results List */}
              <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex-1">
+                <SessionManager
+                  sessions={sessions}
+                  activeSessionId={activeSessionId}
+                  disabled={simulationState !== SimulationState.IDLE}
+                  onSwitch={openSession}
+                  onCreate={handleCreateSession}
+                  onRename={handleRenameSession}
+                  onDelete={handleDeleteSession}
+                  t={t}
+                />
                 <div className="flex justify-between items-center mb-4">
-                  <h3 className="font-semibold text-slate-700">Historial Reciente</h3>
-                  {testHistory.length > 0 && (
-                    <button onClick={clearHistory} className="text-xs text-red-500 flex items-center gap-1 hover:underline">
-                      <Trash2 className="w-3 h-3"/> Limpiar
+                  <h3 className="font-semibold text-slate-700">
+                    {t.app.recentHistory}
+                    <span className="ml-2 text-xs font-normal text-slate-400">{sessions.find(s => s.id === activeSessionId)?.name}</span>
+                  </h3>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => importInputRef.current?.click()} disabled={simulationState !== SimulationState.IDLE} className="text-xs text-blue-600 flex items-center gap-1 hover:underline disabled:opacity-30">
+                      <Upload className="w-3 h-3"/> {t.app.importFile}
                     </button>
-                  )}
+                    <input ref={importInputRef} type="file" accept=".csv,.json" className="hidden" onChange={handleImportFile} />
+                    {testHistory.length > 0 && (
+                      <>
+                        <button onClick={() => exportResultsCsv(visibleHistory, units)} className="text-xs text-blue-600 flex items-center gap-1 hover:underline">
+                          <Download className="w-3 h-3"/> CSV
+                        </button>
+                        <button onClick={() => exportResultsJson(visibleHistory, transitionFits)} className="text-xs text-blue-600 flex items-center gap-1 hover:underline">
+                          <Download className="w-3 h-3"/> JSON
+                        </button>
+                        {exerciseAttempts.length > 0 && (
+                          <button onClick={() => exportExercisesCsv(exerciseAttempts, testHistory, units)} className="text-xs text-blue-600 flex items-center gap-1 hover:underline">
+                            <Download className="w-3 h-3"/> {t.exercise.exportScores}
+                          </button>
+                        )}
+                        <button onClick={clearHistory} className="text-xs text-red-500 flex items-center gap-1 hover:underline">
+                          <Trash2 className="w-3 h-3"/> {t.app.clearHistory}
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
+                {importSummary && (
+                  <div className={`mb-3 p-2 rounded border text-xs ${importSummary.errors.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                    <div className="flex justify-between items-start">
+                      <span>
+                        {t.app.importSummary(importSummary.added, importSummary.skipped, importSummary.errors.length)}
+                      </span>
+                      <button onClick={() => setImportSummary(null)} className="ml-2 font-bold">×</button>
+                    </div>
+                    {importSummary.errors.length > 0 && (
+                      <ul className="mt-1 max-h-[80px] overflow-y-auto list-disc pl-4">
+                        {importSummary.errors.map((err, i) => (
+                          <li key={i}>{err.row > 0 ? t.app.fileRow(err.row) : ''}{err.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
                 <div className="overflow-y-auto max-h-[200px] space-y-2">
-                   {testHistory.length === 0 && <p className="text-sm text-slate-400 text-center py-4">Sin datos registrados.</p>}
-                   {testHistory.slice().reverse().map((r) => (
-                     <div key={r.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
-                        <span className="font-medium text-slate-700">{r.material.name}</span>
-                        <span className="font-mono text-slate-600">{r.absorbedEnergy.toFixed(1)} J</span>
-                     </div>
-                   ))}
+                   {visibleHistory.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t.app.noData}</p>}
+                   {visibleHistory.slice().reverse().map((r) => {
+                     const issues = checkValidity(r, units, t);
+                     const invalid = issues.some(issue => issue.severity === 'invalid');
+                     return (
+                       <div key={r.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+                          <span className="font-medium text-slate-700">{r.material.name}</span>
+                          {issues.length > 0 && (
+                            <span className={`ml-1 ${invalid ? 'text-red-500' : 'text-amber-500'}`} title={issues.map(issue => issue.message).join('\n')}>
+                              <AlertTriangle className="w-3 h-3" />
+                            </span>
+                          )}
+                          <span className="text-xs text-slate-500 ml-auto mr-3">{units.format('temperature', r.temperature)} · {t.fracture[r.fractureType]} · {r.shearPercent}% · {units.format('expansion', r.lateralExpansion)}</span>
+                          <span className="font-mono text-slate-600">{units.format('energy', r.absorbedEnergy)}</span>
+                          <button
+                            onClick={() => replayTest(r)}
+                            disabled={simulationState !== SimulationState.IDLE || series !== null}
+                            className="ml-2 text-slate-400 hover:text-blue-600 disabled:opacity-30"
+                            title={t.app.replayTitle(r.seed)}
+                          >
+                            <Repeat className="w-3 h-3" />
+                          </button>
+                       </div>
+                     );
+                   })}
                 </div>
              </div>
           </div>
 
           {/* Comparative Charts & Analysis (7 Cols) */}
           <div className="lg:col-span-7 bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex flex-col">
-            <h2 className="font-semibold text-slate-800 mb-4">Análisis Comparativo</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="font-semibold text-slate-800">{t.app.comparativeAnalysis}</h2>
+              {visibleHistory.length > 0 && (
+                <button
+                  onClick={() => setShowReport(true)}
+                  className="flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 transition-colors"
+                >
+                  <FileText className="w-3 h-3" />
+                  {t.app.generateReport}
+                </button>
+              )}
+            </div>
 
-            {testHistory.length === 0 ? (
+            {visibleHistory.length === 0 ? (
               <div className="flex-1 flex flex-col items-center justify-center text-slate-400 border-2 border-dashed border-slate-100 rounded-lg min-h-[300px]">
                 <Info className="w-10 h-10 mb-3 opacity-30" />
-                <p>Realiza varios ensayos para comparar materiales.</p>
+                <p>{t.app.noChartData}</p>
               </div>
             ) : (
               <>
-                <EnergyChart results={testHistory} />
+                <div className="flex flex-wrap justify-end gap-1 mb-2">
+                  {ENERGY_CHART_MODES.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setChartMode(mode)}
+                      className={`text-xs font-bold px-3 py-1 rounded-full border transition-colors ${chartMode === mode ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+                    >
+                      {t.charts.modes[mode]}
+                    </button>
+                  ))}
+                </div>
+                {chartMaterials.length > 1 && (
+                  <div className="flex flex-wrap items-center gap-1 mb-2 text-xs text-slate-500">
+                    {t.app.chartMaterials}
+                    {chartMaterials.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => setHiddenChartMaterials(prev => prev.includes(m.id) ? prev.filter(id => id !== m.id) : [...prev, m.id])}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded-full border transition-colors ${hiddenChartMaterials.includes(m.id) ? 'border-slate-200 text-slate-400 line-through' : 'border-slate-300 text-slate-700 bg-slate-50'}`}
+                      >
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: m.color }}></span>
+                        {m.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {chartResults.length > 0 ? (
+                  <EnergyChart results={chartResults} mode={chartMode} units={units} t={t} />
+                ) : (
+                  <p className="text-sm text-slate-400 text-center py-12">{t.app.noMaterialSelected}</p>
+                )}
+
+                {instrumented && (revealedResult || visibleHistory.length > 0) && (
+                  <div className="mt-16 border-t border-slate-100 pt-6">
+                    <ForceChart result={revealedResult ?? visibleHistory[visibleHistory.length - 1]} units={units} t={t} />
+                  </div>
+                )}
+
+                <div className="mt-16 border-t border-slate-100 pt-6">
+                  <StatisticsPanel groups={resultGroups} units={units} t={t} />
+                </div>
+
+                <div className="mt-16 border-t border-slate-100 pt-6">
+                  <TransitionChart results={visibleHistory} fits={transitionFits} units={units} t={t} />
+                </div>
                 
                 <div className="mt-6 border-t border-slate-100 pt-6">
                   <button 
@@ -369,12 +1432,19 @@ const App: React.FC = () => {
                     ) : (
                       <BrainCircuit className="w-5 h-5" />
                     )}
-                    {isAnalyzing ? "Analizando Propiedades del Material..." : "Generar Informe con IA"}
+                    {isAnalyzing ? t.app.analyzing : settings.analysisProvider === 'gemini' ? t.app.aiReport : t.app.automaticReport}
                   </button>
 
+                  {analysisError && (
+                    <div className="flex items-start gap-2 p-3 mb-4 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      {t.analysis.errors[analysisError.code] ?? analysisError.message}
+                    </div>
+                  )}
+
                   {aiAnalysis && (
-                    <div className="bg-slate-50 p-6 rounded-lg border border-slate-200 text-sm text-slate-700 leading-relaxed max-h-[400px] overflow-y-auto prose prose-sm prose-slate">
-                      <ReactMarkdown>{aiAnalysis}</ReactMarkdown>
+                    <div className="bg-slate-50 p-6 rounded-lg border border-slate-200 text-sm text-slate-700 leading-relaxed max-h-[400px] overflow-y-auto">
+                      <AnalysisView analysis={aiAnalysis} units={units} t={t} />
                     </div>
                   )}
                 </div>
@@ -383,6 +1453,51 @@ const App: React.FC = () => {
           </div>
         </div>
       </main>
+
+      {editingMaterial && (
+        <MaterialEditor
+          material={editingMaterial.material}
+          title={editingMaterial.title}
+          units={units}
+          t={t}
+          onSave={handleSaveMaterial}
+          onCancel={() => setEditingMaterial(null)}
+        />
+      )}
+
+      {editingSpec && (
+        <SpecEditor
+          spec={editingSpec.spec}
+          title={editingSpec.title}
+          units={units}
+          t={t}
+          onSave={handleSaveSpec}
+          onCancel={() => setEditingSpec(null)}
+        />
+      )}
+
+      {showChallengeEditor && (
+        <ChallengeEditor
+          materials={allMaterials}
+          initialMaterialId={selectedMaterialId}
+          units={units}
+          t={t}
+          onExport={handleExportChallenge}
+          onCancel={() => setShowChallengeEditor(false)}
+        />
+      )}
+
+      {showReport && (
+        <LabReport
+          results={visibleHistory}
+          sessionName={sessions.find(s => s.id === activeSessionId)?.name || ''}
+          analysis={aiAnalysis}
+          spec={selectedSpec}
+          units={units}
+          t={t}
+          onClose={() => setShowReport(false)}
+        />
+      )}
     </div>
   );
 };
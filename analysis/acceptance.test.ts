@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { checkAcceptance, checkAcceptanceByMaterial } from './acceptance';
+import { simulateTest } from '../physics/engine';
+import { ACCEPTANCE_SPECS, DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+import { SpecimenGeometry } from '../types';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+const s355j2 = ACCEPTANCE_SPECS.find(spec => spec.id === 'en10025-s355j2')!;
+
+// Simulated test with the absorbed energy replaced, so each case states its values directly
+const test = (absorbedEnergy: number, temperature = -20, specimen: SpecimenGeometry = DEFAULT_SPECIMEN) => ({
+  ...simulateTest({ config: { ...DEFAULT_CONFIG, temperature }, material: steel, specimen, seed: 3, timestamp: 1 }).result,
+  absorbedEnergy,
+});
+
+const set = (...values: number[]) => values.map(v => test(v));
+
+describe('specification acceptance', () => {
+  it('accepts a set above the required mean and individual values', () => {
+    const verdict = checkAcceptance(set(30, 32, 35), s355j2);
+    expect(verdict.status).toBe('pass');
+    expect(verdict.average).toBeCloseTo(32.33, 2);
+  });
+
+  it('lets one value fall below the mean requirement if it keeps 70 % of it', () => {
+    expect(checkAcceptance(set(20, 35, 35), s355j2).status).toBe('pass');
+    const low = checkAcceptance(set(18, 40, 40), s355j2);
+    expect(low.status).toBe('fail');
+    expect(low.reasons).toEqual(['El valor 18.0 J queda por debajo del mínimo individual de 18.9 J.']);
+  });
+
+  it('rejects a low mean and more than one value below it', () => {
+    const verdict = checkAcceptance(set(25, 26, 28), s355j2);
+    expect(verdict.status).toBe('fail');
+    expect(verdict.reasons).toHaveLength(2);
+    expect(verdict.reasons[1]).toContain('solo se admite uno');
+  });
+
+  it('only counts valid full-size tests at the specified temperature', () => {
+    const subSize = { ...DEFAULT_SPECIMEN, width: 5 };
+    const verdict = checkAcceptance([test(30), test(31), test(40, 20), test(12, -20, subSize)], s355j2);
+    expect(verdict.status).toBe('incomplete');
+    expect(verdict.values).toEqual([30, 31]);
+    expect(verdict.excluded).toBe(1);
+  });
+
+  it('judges each material on its own tests', () => {
+    const other = { ...steel, id: 'other' };
+    const verdicts = checkAcceptanceByMaterial([...set(30, 32, 35), ...set(10, 12, 14).map(r => ({ ...r, material: other }))], s355j2);
+    expect(verdicts.map(v => v.verdict.status)).toEqual(['pass', 'fail']);
+  });
+});
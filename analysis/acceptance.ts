@@ -0,0 +1,72 @@
+import { AcceptanceSpec, Material, TestResult } from '../types';
+import { DEFAULT_SPECIMEN } from '../constants';
+import { SI_UNITS, Units } from '../physics/units';
+import { es, Messages } from '../i18n';
+import { checkValidity } from './validity';
+import { testedMaterials } from './resultGroups';
+import { mean } from './statistics';
+
+export type AcceptanceStatus = 'pass' | 'fail' | 'incomplete';
+
+export interface AcceptanceVerdict {
+  status: AcceptanceStatus;
+  values: number[]; // Joules, the set judged against the specification
+  average: number | null; // Joules
+  excluded: number; // Tests at the specified temperature left out (invalid or not full-size V-notch)
+  reasons: string[]; // Why the set fails or is incomplete
+}
+
+// Specimens per set in EN 10025 and ASTM A370
+export const ACCEPTANCE_SET_SIZE = 3;
+
+// Allowed deviation from the specified test temperature (ISO 148-1)
+const TEMPERATURE_TOLERANCE = 2; // °C
+
+const isFullSizeV = (result: TestResult) =>
+  result.specimen.notchType === 'V' &&
+  result.specimen.width === DEFAULT_SPECIMEN.width &&
+  result.specimen.thickness === DEFAULT_SPECIMEN.thickness;
+
+// Judges the tests of one material; every valid test at the specified temperature belongs to the set
+export const checkAcceptance = (results: TestResult[], spec: AcceptanceSpec, units: Units = SI_UNITS, t: Messages = es): AcceptanceVerdict => {
+  const atTemperature = results.filter(r => Math.abs(r.temperature - spec.temperature) <= TEMPERATURE_TOLERANCE);
+  const eligible = atTemperature.filter(r => isFullSizeV(r) && !checkValidity(r).some(issue => issue.severity === 'invalid'));
+  const values = eligible.map(r => r.absorbedEnergy);
+  const excluded = atTemperature.length - eligible.length;
+
+  if (values.length < ACCEPTANCE_SET_SIZE) {
+    return {
+      status: 'incomplete',
+      values,
+      average: values.length > 0 ? mean(values) : null,
+      excluded,
+      reasons: [t.acceptance.needsSet(values.length, ACCEPTANCE_SET_SIZE, units.format('temperature', spec.temperature))],
+    };
+  }
+
+  const average = mean(values);
+  const reasons: string[] = [];
+  if (average < spec.minAverage) {
+    reasons.push(t.acceptance.averageBelow(units.format('energy', average), units.format('energy', spec.minAverage)));
+  }
+  const belowAverage = values.filter(v => v < spec.minAverage);
+  if (belowAverage.length > 1) {
+    reasons.push(t.acceptance.severalBelowAverage(belowAverage.length, units.format('energy', spec.minAverage)));
+  }
+  values.filter(v => v < spec.minIndividual).forEach(v => {
+    reasons.push(t.acceptance.individualBelow(units.format('energy', v), units.format('energy', spec.minIndividual)));
+  });
+
+  return { status: reasons.length > 0 ? 'fail' : 'pass', values, average, excluded, reasons };
+};
+
+export const checkAcceptanceByMaterial = (
+  results: TestResult[],
+  spec: AcceptanceSpec,
+  units: Units = SI_UNITS,
+  t: Messages = es,
+): { material: Material; verdict: AcceptanceVerdict }[] =>
+  testedMaterials(results).map(material => ({
+    material,
+    verdict: checkAcceptance(results.filter(r => r.material.id === material.id), spec, units, t),
+  }));
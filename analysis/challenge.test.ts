@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { clampConfig, createChallenge, gradeChallenge } from './challenge';
+import { DEFAULT_CONFIG, DEFAULT_CONFIG_LIMITS, MATERIALS } from '../constants';
+import { createSeededRandom } from '../physics/engine';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+
+const challenge = createChallenge(
+  'Muestra X',
+  steel,
+  MATERIALS,
+  { ...DEFAULT_CONFIG_LIMITS, mass: { min: 10, max: 20 }, temperature: { min: -40, max: 0 } },
+  1,
+  createSeededRandom(7),
+);
+
+describe('unknown material challenge', () => {
+  it('stores only the physics of the hidden material under its code name', () => {
+    expect(challenge.sample.name).toBe('Muestra X');
+    expect(challenge.sample.description).toBe('');
+    expect(challenge.candidates).toContainEqual({ id: steel.id, name: steel.name });
+    const sample = JSON.stringify(challenge.sample);
+    expect(sample).not.toContain(steel.id);
+    expect(sample).not.toContain(steel.name);
+    expect(challenge.answerHash).not.toContain(steel.id);
+  });
+
+  it('perturbs the sample curve so it does not match the library entry', () => {
+    const { transition } = challenge.sample;
+    expect(transition).not.toEqual(steel.transition);
+    expect(transition.upperShelf / steel.transition.upperShelf).toBeGreaterThanOrEqual(0.9);
+    expect(transition.upperShelf / steel.transition.upperShelf).toBeLessThanOrEqual(1.1);
+    expect(transition.width / steel.transition.width).toBeGreaterThanOrEqual(0.9);
+    expect(transition.width / steel.transition.width).toBeLessThanOrEqual(1.1);
+    expect(Math.abs(transition.transitionTemp - steel.transition.transitionTemp)).toBeLessThanOrEqual(5);
+  });
+
+  it('keeps the shelves ordered when they are close', () => {
+    const aluminium = MATERIALS.find(m => m.id === 'al-6061')!;
+    // Draws that raise the lower shelf to +10 % and lower the upper one to −10 %
+    const draws = [0, 1, 0.5, 0.5];
+    const { transition } = createChallenge('Muestra Y', aluminium, MATERIALS, DEFAULT_CONFIG_LIMITS, 1, () => draws.shift()!).sample;
+    expect(transition.lowerShelf).toBeLessThanOrEqual(transition.upperShelf);
+  });
+
+  it('keeps the machine settings within the challenge limits', () => {
+    const config = clampConfig({ ...DEFAULT_CONFIG, mass: 30, temperature: 20 }, challenge.limits);
+    expect(config.mass).toBe(20);
+    expect(config.temperature).toBe(0);
+    expect(config.length).toBe(DEFAULT_CONFIG.length);
+  });
+
+  it('grades the identification against the hashed answer', () => {
+    const right = gradeChallenge(challenge, 'steel-1045');
+    expect(right.correct).toBe(true);
+    expect(right.answer?.name).toBe(steel.name);
+    const wrong = gradeChallenge(challenge, 'al-6061');
+    expect(wrong.correct).toBe(false);
+    expect(wrong.chosen?.name).toBe('Aluminio 6061');
+    expect(wrong.answer?.name).toBe(steel.name);
+  });
+});
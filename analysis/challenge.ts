@@ -0,0 +1,85 @@
+import { Challenge, ChallengeCandidate, ConfigLimits, Material, PendulumConfig, SettingRange, TransitionCurve } from '../types';
+import { createSeededRandom, randomSeed, RandomSource } from '../physics/engine';
+
+export interface ChallengeGrade {
+  correct: boolean;
+  answer: ChallengeCandidate | null; // The hidden material, for the instructor's regrade only
+  chosen: ChallengeCandidate | null;
+}
+
+// Neutral grey, so the colour of the sample gives nothing away
+const SAMPLE_COLOR = '#64748b';
+
+// FNV-1a, 32 bit. Not a secret: anyone can hash every candidate, so it only keeps the answer out of
+// plain sight in the file. Synchronous, unlike crypto.subtle, which plain-http classroom servers lack.
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const hashAnswer = (challengeId: string, materialId: string): string => fnv1a(`${challengeId}:${materialId}`);
+
+// Shelves and width within ±10 %, transition temperature within ±5 °C: still recognisable from tests,
+// but no longer an exact copy of the library entry that the material editor shows
+const perturbCurve = (curve: TransitionCurve, random: RandomSource): TransitionCurve => {
+  const factor = () => 0.9 + 0.2 * random();
+  return {
+    upperShelf: curve.upperShelf * factor(),
+    lowerShelf: curve.lowerShelf * factor(),
+    transitionTemp: curve.transitionTemp + 10 * random() - 5,
+    width: curve.width * factor(),
+  };
+};
+
+// The file carries the perturbed physics of the hidden material under the code name, and a non-secret
+// hash of the answer that only keeps it out of plain sight
+export const createChallenge = (
+  codeName: string,
+  material: Material,
+  candidates: Material[],
+  limits: ConfigLimits,
+  createdAt = Date.now(),
+  random: RandomSource = createSeededRandom(randomSeed()),
+): Challenge => {
+  const id = `challenge-${createdAt}`;
+  const transition = perturbCurve(material.transition, random);
+  return {
+    id,
+    codeName,
+    sample: {
+      id: `${id}-sample`,
+      name: codeName,
+      type: codeName,
+      // Kept ordered, in case the perturbation brings close shelves together
+      transition: { ...transition, lowerShelf: Math.min(transition.lowerShelf, transition.upperShelf) },
+      color: SAMPLE_COLOR,
+      description: '',
+      fractureType: material.fractureType,
+    },
+    answerHash: hashAnswer(id, material.id),
+    candidates: candidates.map(({ id: candidateId, name }) => ({ id: candidateId, name })),
+    limits,
+    createdAt,
+  };
+};
+
+const clamp = (value: number, range: SettingRange) => Math.min(Math.max(value, range.min), range.max);
+
+export const clampConfig = (config: PendulumConfig, limits: ConfigLimits): PendulumConfig => ({
+  ...config,
+  mass: clamp(config.mass, limits.mass),
+  length: clamp(config.length, limits.length),
+  startAngle: clamp(config.startAngle, limits.startAngle),
+  temperature: clamp(config.temperature, limits.temperature),
+});
+
+// Regraded from the material id alone, so a graded flag in an answer file is never trusted
+export const gradeChallenge = (challenge: Challenge, materialId: string): ChallengeGrade => ({
+  correct: hashAnswer(challenge.id, materialId) === challenge.answerHash,
+  answer: challenge.candidates.find(m => hashAnswer(challenge.id, m.id) === challenge.answerHash) ?? null,
+  chosen: challenge.candidates.find(m => m.id === materialId) ?? null,
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { gradeExercise, sessionScore, solveExercise } from './exercise';
+import { simulateTest } from '../physics/engine';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+const result = simulateTest({ config: DEFAULT_CONFIG, material: steel, specimen: DEFAULT_SPECIMEN, seed: 7, timestamp: 1 }).result;
+
+describe('exercise grading', () => {
+  it('works the absorbed energy out from the dial reading', () => {
+    const expected = solveExercise(result);
+    expect(expected.pe1).toBeCloseTo(result.initialEnergy, 6);
+    expect(expected.pe1 - expected.pe2).toBeCloseTo(result.uncorrectedEnergy, 6);
+    expect(expected.kv).toBeCloseTo(result.absorbedEnergy, 6);
+  });
+
+  it('accepts answers within 2 % and rejects blanks', () => {
+    const expected = solveExercise(result);
+    const attempt = gradeExercise(result, {
+      h0: expected.h0 * 1.015,
+      hf: expected.hf,
+      pe1: expected.pe1 * 0.95,
+      pe2: null,
+      kv: expected.kv + 0.3,
+    });
+    expect(attempt.correct).toEqual({ h0: true, hf: true, pe1: false, pe2: false, kv: true });
+  });
+
+  it('adds up the score of the session', () => {
+    const expected = solveExercise(result);
+    const right = gradeExercise(result, expected);
+    const blank = gradeExercise(result, { h0: null, hf: null, pe1: null, pe2: null, kv: null });
+    expect(sessionScore([right, blank])).toEqual({ correct: 5, total: 10 });
+  });
+});
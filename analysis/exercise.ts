@@ -0,0 +1,54 @@
+import { ExerciseAttempt, ExerciseQuantity, TestResult } from '../types';
+import { heightFromAngle, potentialEnergy } from '../physics/engine';
+import { Quantity } from '../physics/units';
+
+export const EXERCISE_QUANTITIES: ExerciseQuantity[] = ['h0', 'hf', 'pe1', 'pe2', 'kv'];
+
+// Unit the answer is typed in
+export const EXERCISE_UNITS: Record<ExerciseQuantity, Quantity> = {
+  h0: 'length',
+  hf: 'length',
+  pe1: 'energy',
+  pe2: 'energy',
+  kv: 'energy',
+};
+
+// Relative tolerance on each answer
+export const EXERCISE_TOLERANCE = 0.02;
+
+// Floor for small values (a high final angle, a brittle KV), where 2 % is less than the rounding of the inputs
+const ABSOLUTE_TOLERANCE: Partial<Record<Quantity, number>> = {
+  length: 0.005, // m
+  energy: 0.5, // J
+};
+
+// Expected answers in SI, worked out from what the student sees: m, L, α, the dial reading β and the machine losses
+export const solveExercise = (result: TestResult): Record<ExerciseQuantity, number> => {
+  const { mass, length, startAngle } = result.config;
+  const h0 = heightFromAngle(length, startAngle);
+  const hf = heightFromAngle(length, result.finalAngle);
+  const pe1 = potentialEnergy(mass, h0);
+  const pe2 = potentialEnergy(mass, hf);
+  return { h0, hf, pe1, pe2, kv: Math.max(pe1 - pe2 - result.lossCorrection, 0) };
+};
+
+export const isWithinTolerance = (quantity: ExerciseQuantity, expected: number, answer: number | null): boolean =>
+  answer !== null &&
+  Math.abs(answer - expected) <= Math.max(EXERCISE_TOLERANCE * Math.abs(expected), ABSOLUTE_TOLERANCE[EXERCISE_UNITS[quantity]] ?? 0);
+
+export const gradeExercise = (result: TestResult, answers: Record<ExerciseQuantity, number | null>, timestamp = Date.now()): ExerciseAttempt => {
+  const expected = solveExercise(result);
+  const correct = Object.fromEntries(
+    EXERCISE_QUANTITIES.map(q => [q, isWithinTolerance(q, expected[q], answers[q])])
+  ) as Record<ExerciseQuantity, boolean>;
+  return { resultId: result.id, timestamp, answers, correct };
+};
+
+export const attemptScore = (attempt: ExerciseAttempt): number =>
+  EXERCISE_QUANTITIES.filter(q => attempt.correct[q]).length;
+
+// Correct answers over questions asked, for the whole session
+export const sessionScore = (attempts: ExerciseAttempt[]): { correct: number; total: number } => ({
+  correct: attempts.reduce((sum, attempt) => sum + attemptScore(attempt), 0),
+  total: attempts.length * EXERCISE_QUANTITIES.length,
+});
@@ -0,0 +1,40 @@
+import { Material, PendulumConfig, SpecimenGeometry, TestResult } from '../types';
+import { specimenLabel } from '../physics/specimenModel';
+import { SampleStatistics, summarize } from './statistics';
+
+// Specimens tested under identical conditions, judged together as a set
+export interface ResultGroup {
+  key: string;
+  material: Material;
+  specimen: SpecimenGeometry;
+  config: PendulumConfig;
+  temperature: number;
+  results: TestResult[];
+  stats: SampleStatistics; // Of the absorbed energy
+}
+
+const groupKey = (r: TestResult) =>
+  [r.material.id, specimenLabel(r.specimen), r.temperature, r.config.mass, r.config.length, r.config.startAngle, r.config.machine.nominalEnergy, r.config.machine.strikerRadius].join('|');
+
+// Groups by material and test configuration, keeping the order of first appearance
+export const groupResults = (results: TestResult[]): ResultGroup[] => {
+  const groups = new Map<string, TestResult[]>();
+  results.forEach(r => {
+    const key = groupKey(r);
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+
+  return Array.from(groups.entries()).map(([key, members]) => ({
+    key,
+    material: members[0].material,
+    specimen: members[0].specimen,
+    config: members[0].config,
+    temperature: members[0].temperature,
+    results: members,
+    stats: summarize(members.map(r => r.absorbedEnergy)),
+  }));
+};
+
+// Distinct materials in the order they were first tested
+export const testedMaterials = (results: TestResult[]): Material[] =>
+  Array.from(new Map(results.map(r => [r.material.id, r.material])).values());
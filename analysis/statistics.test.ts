@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { boxPlot, grubbsTest, quantile, studentTQuantile, summarize } from './statistics';
+
+describe('studentTQuantile', () => {
+  it('matches tabulated two-sided 95% values', () => {
+    expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.706, 2);
+    expect(studentTQuantile(0.975, 2)).toBeCloseTo(4.303, 3);
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228, 3);
+    expect(studentTQuantile(0.025, 10)).toBeCloseTo(-2.228, 3);
+  });
+});
+
+describe('grubbsTest', () => {
+  it('uses the tabulated critical values', () => {
+    expect(grubbsTest([1, 2, 3])!.critical).toBeCloseTo(1.154, 3);
+    expect(grubbsTest([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])!.critical).toBeCloseTo(2.290, 2);
+  });
+
+  it('flags a clear outlier and ignores consistent sets', () => {
+    const flagged = grubbsTest([100, 102, 98, 101, 99, 60]);
+    expect(flagged!.isOutlier).toBe(true);
+    expect(flagged!.index).toBe(5);
+    expect(grubbsTest([100, 102, 98, 101, 99])!.isOutlier).toBe(false);
+  });
+
+  it('needs at least three distinct values', () => {
+    expect(grubbsTest([1, 2])).toBeNull();
+    expect(grubbsTest([5, 5, 5])).toBeNull();
+  });
+});
+
+describe('summarize', () => {
+  it('computes mean, sample deviation and the 95% interval', () => {
+    const stats = summarize([10, 12, 14]);
+    expect(stats.mean).toBeCloseTo(12);
+    expect(stats.std).toBeCloseTo(2);
+    expect(stats.cv).toBeCloseTo(16.667, 2);
+    expect(stats.ci95![0]).toBeCloseTo(12 - (4.303 * 2) / Math.sqrt(3), 2);
+    expect(stats.ci95![1]).toBeCloseTo(12 + (4.303 * 2) / Math.sqrt(3), 2);
+  });
+
+  it('has no interval for a single value', () => {
+    expect(summarize([7]).ci95).toBeNull();
+    expect(summarize([7]).std).toBe(0);
+  });
+});
+
+describe('boxPlot', () => {
+  it('interpolates quartiles between order statistics', () => {
+    expect(quantile([4, 1, 3, 2], 0.5)).toBeCloseTo(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBeCloseTo(1.75);
+    expect(quantile([7], 0.75)).toBe(7);
+  });
+
+  it('keeps the whiskers within 1.5 IQR and lists the rest as outliers', () => {
+    const box = boxPlot([1, 2, 3, 4, 100]);
+    expect(box).toMatchObject({ q1: 2, median: 3, q3: 4, lowerWhisker: 1, upperWhisker: 4 });
+    expect(box.outliers).toEqual([100]);
+  });
+});
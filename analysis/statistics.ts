@@ -0,0 +1,168 @@
+// Descriptive statistics for sets of Charpy specimens
+
+export interface OutlierCheck {
+  index: number; // Position of the most extreme value in the input
+  g: number; // Grubbs statistic of that value
+  critical: number; // Critical value at the chosen significance level
+  isOutlier: boolean;
+}
+
+export interface SampleStatistics {
+  count: number;
+  mean: number;
+  std: number; // Sample standard deviation (n - 1)
+  min: number;
+  max: number;
+  cv: number; // Coefficient of variation, %
+  ci95: [number, number] | null; // 95% confidence interval of the mean (needs n >= 2)
+  outlier: OutlierCheck | null; // Grubbs' test (needs n >= 3)
+}
+
+// Lanczos approximation of ln Γ(x)
+const logGamma = (x: number): number => {
+  const c = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+    12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = 0.99999999999980993;
+  const t = x + 7.5;
+  c.forEach((ci, i) => { a += ci / (x + i + 1); });
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+// Cumulative distribution of Student's t
+export const studentTCdf = (t: number, df: number): number => {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Quantile of Student's t (bisection, p in (0, 1))
+export const studentTQuantile = (p: number, df: number): number => {
+  if (p === 0.5) return 0;
+  if (p < 0.5) return -studentTQuantile(1 - p, df);
+  let lo = 0;
+  let hi = 1e4;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+export const sampleStd = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Two-sided Grubbs' test for a single outlier
+export const grubbsTest = (values: number[], alpha = 0.05): OutlierCheck | null => {
+  const n = values.length;
+  if (n < 3) return null;
+  const m = mean(values);
+  const s = sampleStd(values);
+  if (s === 0) return null;
+
+  let index = 0;
+  values.forEach((v, i) => { if (Math.abs(v - m) > Math.abs(values[index] - m)) index = i; });
+  const g = Math.abs(values[index] - m) / s;
+  const t = studentTQuantile(1 - alpha / (2 * n), n - 2);
+  const critical = ((n - 1) / Math.sqrt(n)) * Math.sqrt((t * t) / (n - 2 + t * t));
+  return { index, g, critical, isOutlier: g > critical };
+};
+
+// Five-number summary drawn as a box plot; whiskers follow Tukey's 1.5 IQR rule
+export interface BoxPlotSummary {
+  q1: number;
+  median: number;
+  q3: number;
+  lowerWhisker: number; // Smallest value within 1.5 IQR of the box
+  upperWhisker: number; // Largest value within 1.5 IQR of the box
+  outliers: number[];
+}
+
+// Linear interpolation between order statistics, as spreadsheet QUARTILE functions do
+export const quantile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const boxPlot = (values: number[]): BoxPlotSummary => {
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const low = q1 - 1.5 * (q3 - q1);
+  const high = q3 + 1.5 * (q3 - q1);
+  const inside = values.filter(v => v >= low && v <= high);
+  return {
+    q1,
+    median: quantile(values, 0.5),
+    q3,
+    lowerWhisker: Math.min(...inside),
+    upperWhisker: Math.max(...inside),
+    outliers: values.filter(v => v < low || v > high),
+  };
+};
+
+export const summarize = (values: number[]): SampleStatistics => {
+  const count = values.length;
+  const m = mean(values);
+  const std = sampleStd(values);
+  const halfWidth = count >= 2 ? (studentTQuantile(0.975, count - 1) * std) / Math.sqrt(count) : 0;
+  return {
+    count,
+    mean: m,
+    std,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    cv: m !== 0 ? (std / m) * 100 : 0,
+    ci95: count >= 2 ? [m - halfWidth, m + halfWidth] : null,
+    outlier: grubbsTest(values),
+  };
+};
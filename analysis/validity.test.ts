@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { checkMachineSettings, checkValidity } from './validity';
+import { simulateTest } from '../physics/engine';
+import { DEFAULT_CONFIG, DEFAULT_MACHINE, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+import { PendulumConfig } from '../types';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+
+const run = (config: Partial<PendulumConfig>) =>
+  simulateTest({ config: { ...DEFAULT_CONFIG, ...config }, material: steel, specimen: DEFAULT_SPECIMEN, seed: 11, timestamp: 1 }).result;
+
+describe('test validity', () => {
+  it('accepts a standard test on the default machine', () => {
+    expect(checkMachineSettings(DEFAULT_CONFIG)).toEqual([]);
+    expect(checkValidity(run({ temperature: -40 }))).toEqual([]);
+  });
+
+  it('rejects tests absorbing more than 80 % of the nominal energy', () => {
+    const issues = checkValidity(run({ temperature: 40, machine: { ...DEFAULT_MACHINE, nominalEnergy: 150 } }));
+    expect(issues.some(issue => issue.severity === 'invalid' && issue.message.includes('80 %'))).toBe(true);
+  });
+
+  it('rejects unbroken specimens', () => {
+    const result = run({ mass: 5, length: 0.5, startAngle: 90, temperature: 40 });
+    expect(result.didBreak).toBe(false);
+    expect(checkValidity(result).filter(issue => issue.severity === 'invalid').length).toBeGreaterThan(0);
+  });
+
+  it('warns about settings outside the machine profile', () => {
+    const overloaded = checkMachineSettings({ ...DEFAULT_CONFIG, mass: 50, startAngle: 160 });
+    expect(overloaded.map(issue => issue.severity)).toEqual(['warning', 'warning']);
+
+    // 8 mm strikers (ASTM E23) accept a wider velocity range than 2 mm ones (ISO 148-1)
+    const slow = { ...DEFAULT_CONFIG, length: 0.5 };
+    expect(checkMachineSettings(slow)).toHaveLength(1);
+    expect(checkMachineSettings({ ...slow, machine: { ...DEFAULT_MACHINE, strikerRadius: 8 } })).toEqual([]);
+  });
+});
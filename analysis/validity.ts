@@ -0,0 +1,69 @@
+import { PendulumConfig, TestResult } from '../types';
+import { STRIKERS } from '../constants';
+import { impactVelocity, initialEnergy } from '../physics/engine';
+import { SI_UNITS, Units } from '../physics/units';
+import { es, Messages } from '../i18n';
+
+export type ValiditySeverity = 'invalid' | 'warning';
+
+export interface ValidityIssue {
+  severity: ValiditySeverity;
+  message: string;
+}
+
+// Highest share of the nominal energy a valid test may absorb (ISO 148-1 / ASTM E23)
+export const MAX_ABSORBED_RATIO = 0.8;
+
+// Tolerance on the available energy before it counts as over the capacity class
+const CAPACITY_TOLERANCE = 0.01;
+
+// Pendulum settings that do not match the machine profile; can be checked before testing
+export const checkMachineSettings = (config: PendulumConfig, units: Units = SI_UNITS, t: Messages = es): ValidityIssue[] => {
+  const { machine } = config;
+  const issues: ValidityIssue[] = [];
+
+  const available = initialEnergy(config);
+  if (available > machine.nominalEnergy * (1 + CAPACITY_TOLERANCE)) {
+    issues.push({
+      severity: 'warning',
+      message: t.validity.availableAboveCapacity(units.format('energy', available), units.format('energy', machine.nominalEnergy, 0)),
+    });
+  }
+
+  const velocity = impactVelocity(config);
+  const [minVelocity, maxVelocity] = STRIKERS[machine.strikerRadius].velocityRange;
+  if (velocity < minVelocity || velocity > maxVelocity) {
+    issues.push({
+      severity: 'warning',
+      message: t.validity.velocityOutOfRange(
+        units.format('velocity', velocity),
+        `${units.fixed('velocity', minVelocity)}–${units.format('velocity', maxVelocity)}`,
+        STRIKERS[machine.strikerRadius].standard,
+      ),
+    });
+  }
+
+  return issues;
+};
+
+// Checks a test against the machine it was run on
+export const checkValidity = (result: TestResult, units: Units = SI_UNITS, t: Messages = es): ValidityIssue[] => {
+  const { machine } = result.config;
+  const issues: ValidityIssue[] = [];
+
+  if (!result.didBreak) {
+    issues.push({
+      severity: 'invalid',
+      message: t.validity.unbroken,
+    });
+  }
+
+  if (result.absorbedEnergy > MAX_ABSORBED_RATIO * machine.nominalEnergy) {
+    issues.push({
+      severity: 'invalid',
+      message: t.validity.absorbedAboveLimit(units.format('energy', result.absorbedEnergy), MAX_ABSORBED_RATIO * 100, units.format('energy', machine.nominalEnergy, 0)),
+    });
+  }
+
+  return [...issues, ...checkMachineSettings(result.config, units, t)];
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { AnalysisOutput } from '../services/analysisProvider';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface AnalysisViewProps {
+  analysis: AnalysisOutput;
+  units: Units;
+  t: Messages;
+}
+
+// Structured report as sections and tables; free text from the provider is shown as Markdown
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, units, t }) => {
+  const { report } = analysis;
+  const messages = t.analysis;
+  if (!report) {
+    return (
+      <div className="prose prose-sm prose-slate max-w-none">
+        <ReactMarkdown>{analysis.markdown}</ReactMarkdown>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <section>
+        <h3 className="text-sm font-semibold text-slate-700 mb-2">{messages.ranking}</h3>
+        <table className="w-full text-xs text-slate-600">
+          <thead>
+            <tr className="text-left text-slate-400 uppercase tracking-wider border-b border-slate-200">
+              <th className="py-1 pr-2">{messages.number}</th>
+              <th className="py-1 pr-2">{messages.material}</th>
+              <th className="py-1 pr-2 text-right">{messages.mean} ({units.symbol('energy')})</th>
+              <th className="py-1">{messages.comment}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.ranking.map((r, i) => (
+              <tr key={i} className="border-b border-slate-100 align-top">
+                <td className="py-1 pr-2 font-mono">{i + 1}</td>
+                <td className="py-1 pr-2 font-medium text-slate-700">{r.material}</td>
+                <td className="py-1 pr-2 text-right font-mono">{units.fixed('energy', r.meanEnergy)}</td>
+                <td className="py-1">{r.comment}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-slate-700 mb-2">{messages.fractureInterpretation}</h3>
+        <p className="text-sm">{report.fractureInterpretation}</p>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-semibold text-slate-700 mb-2">{messages.applications}</h3>
+        <table className="w-full text-xs text-slate-600">
+          <tbody>
+            {report.applications.map((a, i) => (
+              <tr key={i} className="border-b border-slate-100 align-top">
+                <td className="py-1 pr-2 font-medium text-slate-700 whitespace-nowrap">{a.material}</td>
+                <td className="py-1">{a.recommendation}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {report.warnings.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">{messages.warnings}</h3>
+          <ul className="space-y-1">
+            {report.warnings.map((warning, i) => (
+              <li key={i} className="flex items-start gap-1 text-xs text-amber-700">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {warning}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisView;
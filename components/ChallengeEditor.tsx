@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { Challenge, ConfigLimits, Material } from '../types';
+import { DEFAULT_CONFIG_LIMITS } from '../constants';
+import { createChallenge } from '../analysis/challenge';
+import { Quantity, Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface ChallengeEditorProps {
+  materials: Material[];
+  initialMaterialId: string;
+  units: Units;
+  t: Messages;
+  onExport: (challenge: Challenge) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5';
+
+// Angles are typed in degrees in both unit systems
+const LIMIT_QUANTITIES: Record<keyof ConfigLimits, Quantity | null> = {
+  mass: 'mass',
+  length: 'length',
+  startAngle: null,
+  temperature: 'temperature',
+};
+
+const ChallengeEditor: React.FC<ChallengeEditorProps> = ({ materials, initialMaterialId, units, t, onExport, onCancel }) => {
+  const messages = t.challenge;
+  const [codeName, setCodeName] = useState<string>(messages.defaultCodeName);
+  const [materialId, setMaterialId] = useState(initialMaterialId);
+  const [limits, setLimits] = useState<ConfigLimits>(DEFAULT_CONFIG_LIMITS);
+
+  const labels: Record<keyof ConfigLimits, string> = {
+    mass: t.app.hammerMass,
+    length: t.app.armLength,
+    startAngle: t.exercise.startAngle,
+    temperature: t.app.testTemperature,
+  };
+  const toInput = (setting: keyof ConfigLimits, value: number) => {
+    const quantity = LIMIT_QUANTITIES[setting];
+    return quantity ? units.toInput(quantity, value) : value;
+  };
+  const fromInput = (setting: keyof ConfigLimits, value: number) => {
+    const quantity = LIMIT_QUANTITIES[setting];
+    return quantity ? units.fromDisplay(quantity, value) : value;
+  };
+  const show = (setting: keyof ConfigLimits, value: number) => {
+    const quantity = LIMIT_QUANTITIES[setting];
+    return quantity ? units.format(quantity, value) : `${units.number(value, 0)}°`;
+  };
+  const settings = Object.keys(LIMIT_QUANTITIES) as (keyof ConfigLimits)[];
+
+  const rangeError = settings.map(setting => {
+    const range = limits[setting];
+    const allowed = DEFAULT_CONFIG_LIMITS[setting];
+    if (!(range.min <= range.max)) return messages.rangeInverted(labels[setting]);
+    // Compared as typed, so a round trip through US units does not fall just outside
+    if (toInput(setting, range.min) < toInput(setting, allowed.min) || toInput(setting, range.max) > toInput(setting, allowed.max)) {
+      return messages.rangeOutside(labels[setting], show(setting, allowed.min), show(setting, allowed.max));
+    }
+    return null;
+  }).find(Boolean);
+  const error = !codeName.trim() ? messages.codeNameRequired : rangeError ?? null;
+
+  const handleExport = () => {
+    const material = materials.find(m => m.id === materialId);
+    if (!material) return;
+    onExport(createChallenge(codeName.trim(), material, materials, limits));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800">{messages.editorTitle}</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-slate-500">{messages.editorHint}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{messages.codeName}</label>
+              <input value={codeName} onChange={(e) => setCodeName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{messages.hiddenMaterial}</label>
+              <select value={materialId} onChange={(e) => setMaterialId(e.target.value)} className={`${inputClass} bg-white`}>
+                {materials.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{messages.limits}</h3>
+            <div className="space-y-2">
+              {settings.map(setting => {
+                const quantity = LIMIT_QUANTITIES[setting];
+                return (
+                  <div key={setting} className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center">
+                    <span className="text-sm text-slate-600">{labels[setting]} ({quantity ? units.symbol(quantity) : '°'})</span>
+                    {(['min', 'max'] as const).map(bound => (
+                      <input
+                        key={bound}
+                        type="number"
+                        title={messages[bound]}
+                        placeholder={messages[bound]}
+                        value={toInput(setting, limits[setting][bound])}
+                        onChange={(e) => setLimits({ ...limits, [setting]: { ...limits[setting], [bound]: fromInput(setting, Number(e.target.value)) } })}
+                        className={inputClass}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+          <button onClick={onCancel} className="text-xs font-bold px-4 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50">
+            {t.editor.cancel}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={Boolean(error)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-1.5 rounded-full text-xs font-bold"
+          >
+            <Download className="w-3 h-3" /> {messages.export}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChallengeEditor;
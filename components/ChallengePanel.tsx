@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { CheckCircle2, XCircle, Download, LogOut, Send, Upload } from 'lucide-react';
+import { Challenge, ChallengeSubmission } from '../types';
+import { ChallengeGrade } from '../analysis/challenge';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface ChallengePanelProps {
+  challenge: Challenge;
+  testedCount: number; // Tests of the sample in the session
+  submission: ChallengeSubmission | null;
+  answerGrades: { fileName: string; reasoning: string; grade: ChallengeGrade }[]; // Students' answer files graded by the instructor
+  disabled: boolean;
+  units: Units;
+  t: Messages;
+  onSubmit: (submission: ChallengeSubmission) => void;
+  onExportAnswer: () => void;
+  onGradeAnswer: (file: File) => void;
+  onLeave: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50';
+
+const ChallengePanel: React.FC<ChallengePanelProps> = ({
+  challenge,
+  testedCount,
+  submission,
+  answerGrades,
+  disabled,
+  units,
+  t,
+  onSubmit,
+  onExportAnswer,
+  onGradeAnswer,
+  onLeave
+}) => {
+  const answerInputRef = useRef<HTMLInputElement>(null);
+  const [materialId, setMaterialId] = useState('');
+  const [reasoning, setReasoning] = useState('');
+  const messages = t.challenge;
+  const { limits } = challenge;
+
+  const canSubmit = testedCount > 0 && materialId !== '' && reasoning.trim() !== '';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center p-3 rounded-lg border border-blue-500 bg-blue-50 ring-1 ring-blue-500">
+        <span className="w-4 h-4 rounded-full mr-3 shadow-sm flex-shrink-0 bg-slate-500"></span>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-semibold text-slate-800 truncate">{messages.active(challenge.codeName)}</div>
+          <div className="text-xs text-slate-500">{messages.hint}</div>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        {messages.limitsLocked}{' '}
+        {units.format('mass', limits.mass.min)}–{units.format('mass', limits.mass.max)} ·{' '}
+        {units.format('length', limits.length.min)}–{units.format('length', limits.length.max)} ·{' '}
+        {units.number(limits.startAngle.min, 0)}–{units.number(limits.startAngle.max, 0)}° ·{' '}
+        {units.format('temperature', limits.temperature.min)} … {units.format('temperature', limits.temperature.max)}
+      </p>
+
+      {!submission ? (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{messages.identification}</label>
+            <select
+              value={materialId}
+              onChange={(e) => setMaterialId(e.target.value)}
+              className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+            >
+              <option value="">{messages.choose}</option>
+              {challenge.candidates.map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{messages.reasoning}</label>
+            <textarea
+              value={reasoning}
+              onChange={(e) => setReasoning(e.target.value)}
+              placeholder={messages.reasoningPlaceholder}
+              rows={4}
+              className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+            />
+          </div>
+          {testedCount === 0 && <p className="text-xs text-amber-700">{messages.needsTests}</p>}
+        </>
+      ) : (
+        // Graded only by the instructor: a verdict here would reveal the hidden material
+        <div className="p-3 rounded border text-sm bg-blue-50 border-blue-200 text-blue-800">
+          <div className="flex items-center gap-2 font-bold">
+            <CheckCircle2 className="w-4 h-4" /> {messages.submitted}
+          </div>
+          <p className="text-xs mt-1">{messages.yourChoice(challenge.candidates.find(m => m.id === submission.materialId)?.name ?? submission.materialId)}</p>
+          <p className="text-xs italic mt-1 whitespace-pre-wrap">{submission.reasoning}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {!submission ? (
+          <button
+            onClick={() => onSubmit({ materialId, reasoning: reasoning.trim(), submittedAt: Date.now() })}
+            disabled={disabled || !canSubmit}
+            className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white"
+          >
+            <Send className="w-3 h-3" /> {messages.submit}
+          </button>
+        ) : (
+          <button onClick={onExportAnswer} className={buttonClass}>
+            <Download className="w-3 h-3" /> {messages.exportAnswer}
+          </button>
+        )}
+        <button onClick={() => answerInputRef.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" /> {messages.gradeAnswer}
+        </button>
+        <input
+          ref={answerInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onGradeAnswer(file);
+          }}
+        />
+        <button onClick={onLeave} disabled={disabled} className={buttonClass}>
+          <LogOut className="w-3 h-3" /> {messages.leave}
+        </button>
+      </div>
+
+      {answerGrades.length > 0 && (
+        <div>
+          <div className="text-xs font-bold text-slate-500 mb-1">{messages.gradedAnswers}</div>
+          {answerGrades[0].grade.answer && (
+            <p className="text-xs text-slate-500 mb-1">{messages.answerWas(challenge.codeName, answerGrades[0].grade.answer.name)}</p>
+          )}
+          <ul className="space-y-1">
+            {answerGrades.map(({ fileName, reasoning: answerReasoning, grade: answerGrade }, i) => (
+              <li key={i} className={`text-xs p-2 rounded border ${answerGrade.correct ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+                <div className="flex items-center gap-1 font-bold">
+                  {answerGrade.correct ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                  {fileName}
+                </div>
+                <div>{answerGrade.chosen?.name ?? '---'}</div>
+                {answerReasoning && <div className="italic whitespace-pre-wrap">{answerReasoning}</div>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallengePanel;
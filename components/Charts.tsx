@@ -1,49 +1,460 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   BarChart,
   Bar,
+  ComposedChart,
+  LineChart,
+  Line,
+  Scatter,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
   ResponsiveContainer,
-  ReferenceLine
+  ReferenceLine,
+  ErrorBar,
+  Cell
 } from 'recharts';
 import { TestResult } from '../types';
+import { TransitionFit, REFERENCE_ENERGY_27J } from '../physics/transitionFit';
+import { energyAtTemperature } from '../physics/transitionModel';
+import { specimenLabel } from '../physics/specimenModel';
+import { testedMaterials } from '../analysis/resultGroups';
+import { boxPlot, BoxPlotSummary, mean, sampleStd } from '../analysis/statistics';
+import { instrumentedTrace } from '../physics/engine';
+import { Units } from '../physics/units';
+import { MIN_TEST_TEMPERATURE, MAX_TEST_TEMPERATURE } from '../constants';
+import { Messages } from '../i18n';
+
+export type EnergyChartMode = 'individual' | 'byMaterial' | 'boxPlot' | 'energyBalance' | 'angleScatter';
+
+export const ENERGY_CHART_MODES: EnergyChartMode[] = ['individual', 'byMaterial', 'boxPlot', 'energyBalance', 'angleScatter'];
 
 interface ResultsChartsProps {
   results: TestResult[];
+  units: Units;
+  t: Messages;
+  mode?: EnergyChartMode;
 }
 
-export const EnergyChart: React.FC<ResultsChartsProps> = ({ results }) => {
-  const data = results.map((r, index) => ({
-    name: `${r.material.name} (#${index + 1})`,
-    absorbed: r.absorbedEnergy,
-    initial: r.initialEnergy,
-    fill: r.material.color
+const TOOLTIP_STYLE = { backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' };
+const TOOLTIP_LABEL_STYLE = { color: '#334155', fontWeight: 'bold' };
+
+// Bars coloured per test need their own key, as recharts only draws one legend entry per series
+const MaterialLegend: React.FC<{ results: TestResult[] }> = ({ results }) => (
+  <div className="flex flex-wrap justify-center gap-3 text-xs text-slate-600 mt-2">
+    {testedMaterials(results).map(m => (
+      <span key={m.id} className="flex items-center gap-1">
+        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: m.color }}></span>
+        {m.name}
+      </span>
+    ))}
+  </div>
+);
+
+// Test conditions from cold (blue) to hot (red); the specimen is named only when several were tested
+const conditionsOf = (results: TestResult[], units: Units, t: Messages) => {
+  const showSpecimen = new Set(results.map(r => specimenLabel(r.specimen))).size > 1;
+  const conditions = Array.from(new Map(results.map(r => [`${r.temperature}|${specimenLabel(r.specimen)}`, r])).entries())
+    .sort(([, a], [, b]) => a.temperature - b.temperature);
+  return conditions.map(([key, r], i) => ({
+    key,
+    label: showSpecimen ? `${units.format('temperature', r.temperature)}, ${specimenLabel(r.specimen, units, t)}` : units.format('temperature', r.temperature),
+    color: `hsl(${220 - (220 * i) / Math.max(conditions.length - 1, 1)}, 70%, 55%)`,
   }));
+};
+
+interface BoxRow {
+  name: string;
+  color: string;
+  count: number;
+  box: BoxPlotSummary;
+}
 
+interface BoxSegmentProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: BoxRow;
+}
+
+// A box plot is drawn as stacked segments: an invisible base up to the lower whisker, the whisker
+// lines and the two halves of the box, which meet at the median
+const whiskerShape = (cap: 'top' | 'bottom') => ({ x, y, width, height }: BoxSegmentProps) => {
+  const capY = cap === 'top' ? y : y + height;
   return (
-    <div className="h-[300px] w-full">
-      <h3 className="text-sm font-semibold text-slate-500 mb-2">Energía Absorbida (Joules) - Comparativa</h3>
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart
-          data={data}
-          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-        >
+    <g stroke="#334155" strokeWidth={1.5}>
+      <line x1={x + width / 2} y1={y} x2={x + width / 2} y2={y + height} />
+      <line x1={x + width / 4} y1={capY} x2={x + (3 * width) / 4} y2={capY} />
+    </g>
+  );
+};
+
+const boxShape = (withMedian: boolean) => ({ x, y, width, height, payload }: BoxSegmentProps) => (
+  <g>
+    <rect x={x} y={y} width={width} height={height} fill={payload.color} fillOpacity={0.6} stroke="#334155" />
+    {withMedian && <line x1={x} y1={y} x2={x + width} y2={y} stroke="#0f172a" strokeWidth={2.5} />}
+  </g>
+);
+
+export const EnergyChart: React.FC<ResultsChartsProps> = ({ results, units, t, mode = 'individual' }) => {
+  const energy = (value: number) => units.toDisplay('energy', value);
+  const symbol = units.symbol('energy');
+  const energyAxis = { value: `${t.charts.energy} (${symbol})`, angle: -90, position: 'insideLeft' as const };
+  const materials = testedMaterials(results);
+
+  const titles: Record<EnergyChartMode, string> = {
+    individual: t.charts.energyComparison(symbol),
+    byMaterial: t.charts.energyMeanStd(symbol),
+    boxPlot: t.charts.boxPlotTitle(symbol),
+    energyBalance: t.charts.energyBalanceTitle(symbol),
+    angleScatter: t.charts.angleScatterTitle,
+  };
+
+  const renderChart = () => {
+    if (mode === 'byMaterial') {
+      const conditions = conditionsOf(results, units, t);
+      const data = materials.map(material => {
+        const row: Record<string, number | string> = { name: material.name };
+        conditions.forEach((condition, i) => {
+          const values = results
+            .filter(r => r.material.id === material.id && `${r.temperature}|${specimenLabel(r.specimen)}` === condition.key)
+            .map(r => r.absorbedEnergy);
+          if (values.length === 0) return;
+          row[`mean${i}`] = energy(mean(values));
+          row[`std${i}`] = energy(sampleStd(values));
+        });
+        return row;
+      });
+      return (
+        <BarChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-          <XAxis dataKey="name" tick={{fontSize: 10}} interval={0} angle={-15} textAnchor="end" height={60}/>
-          <YAxis label={{ value: 'Energía (J)', angle: -90, position: 'insideLeft' }} />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+          <XAxis dataKey="name" tick={{fontSize: 10}} interval={0} />
+          <YAxis label={energyAxis} />
+          <Tooltip
+            contentStyle={TOOLTIP_STYLE}
             cursor={{fill: 'transparent'}}
-            labelStyle={{color: '#334155', fontWeight: 'bold'}}
+            labelStyle={TOOLTIP_LABEL_STYLE}
+            formatter={(value: number, _name, item) =>
+              `${units.number(value, 1)} ± ${units.number(Number(item.payload[String(item.dataKey).replace('mean', 'std')]), 1)}`}
           />
           <Legend wrapperStyle={{paddingTop: '20px'}}/>
-          <Bar dataKey="absorbed" name="Energía Absorbida" fill="#3b82f6" radius={[4, 4, 0, 0]} barSize={40} />
+          {conditions.map((condition, i) => (
+            <Bar key={condition.key} dataKey={`mean${i}`} name={condition.label} fill={condition.color} radius={[4, 4, 0, 0]}>
+              <ErrorBar dataKey={`std${i}`} width={6} strokeWidth={1.5} stroke="#334155" />
+            </Bar>
+          ))}
         </BarChart>
-      </ResponsiveContainer>
+      );
+    }
+
+    if (mode === 'boxPlot') {
+      const rows: BoxRow[] = materials.map(material => {
+        const values = results.filter(r => r.material.id === material.id).map(r => energy(r.absorbedEnergy));
+        return { name: material.name, color: material.color, count: values.length, box: boxPlot(values) };
+      });
+      const data = rows.map(row => ({
+        ...row,
+        base: row.box.lowerWhisker,
+        lowerWhisker: row.box.q1 - row.box.lowerWhisker,
+        lowerBox: row.box.median - row.box.q1,
+        upperBox: row.box.q3 - row.box.median,
+        upperWhisker: row.box.upperWhisker - row.box.q3,
+      }));
+      const outliers = rows.flatMap(row => row.box.outliers.map(value => ({ name: row.name, outlier: value })));
+      const value = (v: number) => `${units.number(v, 1)} ${symbol}`;
+      return (
+        <ComposedChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis dataKey="name" tick={{fontSize: 10}} interval={0} />
+          <YAxis label={energyAxis} />
+          <Tooltip
+            cursor={{fill: 'transparent'}}
+            content={({ active, payload }) => {
+              const row = active && payload?.length ? rows.find(r => r.name === payload[0].payload.name) : undefined;
+              if (!row) return null;
+              return (
+                <div className="bg-white rounded-lg border border-slate-200 p-2 text-xs text-slate-600 space-y-0.5">
+                  <div className="font-bold text-slate-700">{row.name} (n={row.count})</div>
+                  <div>{t.charts.whiskers}: {value(row.box.lowerWhisker)} – {value(row.box.upperWhisker)}</div>
+                  <div>Q1–Q3: {value(row.box.q1)} – {value(row.box.q3)}</div>
+                  <div>{t.charts.median}: {value(row.box.median)}</div>
+                  {row.box.outliers.length > 0 && <div>{t.charts.outliers}: {row.box.outliers.map(value).join(', ')}</div>}
+                </div>
+              );
+            }}
+          />
+          <Bar dataKey="base" stackId="box" fill="transparent" isAnimationActive={false} />
+          <Bar dataKey="lowerWhisker" stackId="box" shape={whiskerShape('bottom')} isAnimationActive={false} />
+          <Bar dataKey="lowerBox" stackId="box" shape={boxShape(true)} isAnimationActive={false} maxBarSize={60} />
+          <Bar dataKey="upperBox" stackId="box" shape={boxShape(false)} isAnimationActive={false} maxBarSize={60} />
+          <Bar dataKey="upperWhisker" stackId="box" shape={whiskerShape('top')} isAnimationActive={false} />
+          <Scatter data={outliers} dataKey="outlier" fill="#fff" stroke="#334155" isAnimationActive={false} />
+        </ComposedChart>
+      );
+    }
+
+    if (mode === 'angleScatter') {
+      return (
+        <ComposedChart margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis
+            type="number"
+            dataKey="angle"
+            name={t.charts.finalAngle}
+            unit="°"
+            domain={['auto', 'auto']}
+            tick={{fontSize: 10}}
+            tickFormatter={(value: number) => units.number(value, 0)}
+            label={{ value: `${t.charts.finalAngle} (°)`, position: 'insideBottom', offset: -2, fontSize: 10 }}
+          />
+          <YAxis type="number" dataKey="absorbed" name={t.charts.absorbedEnergy} unit={` ${symbol}`} label={energyAxis} />
+          <Tooltip
+            contentStyle={TOOLTIP_STYLE}
+            labelStyle={TOOLTIP_LABEL_STYLE}
+            formatter={(value: number) => units.number(value, 1)}
+          />
+          <Legend wrapperStyle={{paddingTop: '20px'}}/>
+          {materials.map(m => (
+            <Scatter
+              key={m.id}
+              data={results.filter(r => r.material.id === m.id).map(r => ({ angle: r.finalAngle, absorbed: energy(r.absorbedEnergy) }))}
+              name={m.name}
+              fill={m.color}
+              stroke="#334155"
+            />
+          ))}
+        </ComposedChart>
+      );
+    }
+
+    // One bar per test, labelled by its position in the history; the tooltip names the material
+    const data = results.map((r, index) => ({
+      name: `#${index + 1}`,
+      material: r.material.name,
+      absorbed: energy(r.absorbedEnergy),
+      remaining: energy(r.initialEnergy - r.absorbedEnergy),
+      fill: r.material.color,
+    }));
+    const balance = mode === 'energyBalance';
+    return (
+      <BarChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis dataKey="name" tick={{fontSize: 10}} />
+        <YAxis label={energyAxis} />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          cursor={{fill: 'transparent'}}
+          labelStyle={TOOLTIP_LABEL_STYLE}
+          labelFormatter={(label, payload) => payload?.length ? `${payload[0].payload.material} (${label})` : label}
+          formatter={(value: number) => units.number(value, 1)}
+        />
+        <Bar dataKey="absorbed" name={t.charts.absorbedEnergy} stackId={balance ? 'energy' : undefined} maxBarSize={40} radius={balance ? undefined : [4, 4, 0, 0]}>
+          {data.map(d => <Cell key={d.name} fill={d.fill} />)}
+        </Bar>
+        {balance && <Bar dataKey="remaining" name={t.charts.remainingEnergy} stackId="energy" fill="#cbd5e1" maxBarSize={40} radius={[4, 4, 0, 0]} />}
+      </BarChart>
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <h3 className="text-sm font-semibold text-slate-500 mb-2">{titles[mode]}</h3>
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          {renderChart()}
+        </ResponsiveContainer>
+      </div>
+      {(mode === 'individual' || mode === 'energyBalance') && <MaterialLegend results={results} />}
+    </div>
+  );
+};
+
+interface TransitionChartProps {
+  results: TestResult[];
+  fits: TransitionFit[];
+  units: Units;
+  t: Messages;
+}
+
+const CURVE_SAMPLES = 81;
+
+export const TransitionChart: React.FC<TransitionChartProps> = ({ results, fits, units, t }) => {
+  const materials = testedMaterials(results);
+
+  const step = (MAX_TEST_TEMPERATURE - MIN_TEST_TEMPERATURE) / (CURVE_SAMPLES - 1);
+  const curves = fits.map(fit => ({
+    fit,
+    data: Array.from({ length: CURVE_SAMPLES }, (_, i) => {
+      const temperature = MIN_TEST_TEMPERATURE + i * step;
+      return {
+        temperature: units.toDisplay('temperature', temperature),
+        fitted: units.toDisplay('energy', energyAtTemperature(fit.curve, temperature)),
+      };
+    }),
+  }));
+
+  return (
+    <div className="w-full">
+      <h3 className="text-sm font-semibold text-slate-500 mb-2">{t.charts.transitionTitle}</h3>
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              type="number"
+              dataKey="temperature"
+              domain={[units.toDisplay('temperature', MIN_TEST_TEMPERATURE), units.toDisplay('temperature', MAX_TEST_TEMPERATURE)]}
+              tick={{fontSize: 10}}
+              label={{ value: `${t.charts.temperature} (${units.symbol('temperature')})`, position: 'insideBottom', offset: -2, fontSize: 10 }}
+            />
+            <YAxis label={{ value: `${t.charts.energy} (${units.symbol('energy')})`, angle: -90, position: 'insideLeft' }} />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+              labelStyle={{color: '#334155', fontWeight: 'bold'}}
+              formatter={(value: number) => units.number(value, 1)}
+            />
+            <Legend wrapperStyle={{paddingTop: '20px'}}/>
+            <ReferenceLine y={units.toDisplay('energy', REFERENCE_ENERGY_27J)} stroke="#ef4444" strokeDasharray="4 4" label={{ value: units.format('energy', REFERENCE_ENERGY_27J, 0), fontSize: 10, fill: '#ef4444', position: 'right' }} />
+            {curves.map(({ fit, data }) => (
+              <Line
+                key={`fit-${fit.key}`}
+                data={data}
+                dataKey="fitted"
+                name={t.charts.fittedCurve(fit.materialName, specimenLabel(fit.specimen, units, t))}
+                stroke={fit.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {materials.map(m => (
+              <Scatter
+                key={m.id}
+                data={results.filter(r => r.material.id === m.id).map(r => ({
+                  temperature: units.toDisplay('temperature', r.temperature),
+                  absorbed: units.toDisplay('energy', r.absorbedEnergy),
+                }))}
+                dataKey="absorbed"
+                name={m.name}
+                fill={m.color}
+                stroke="#334155"
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {fits.length === 0 ? (
+        <p className="text-xs text-slate-400 mt-4">{t.charts.fitHint}</p>
+      ) : (
+        <table className="w-full text-xs mt-8 text-slate-600">
+          <thead>
+            <tr className="text-left text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="py-1">{t.report.material}</th>
+              <th className="py-1 text-right">{t.charts.upperShelf} ({units.symbol('energy')})</th>
+              <th className="py-1 text-right">{t.charts.lowerShelf} ({units.symbol('energy')})</th>
+              <th className="py-1 text-right">T50% ({units.symbol('temperature')})</th>
+              <th className="py-1 text-right">T27J ({units.symbol('temperature')})</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fits.map(fit => (
+              <tr key={fit.key} className="border-b border-slate-50">
+                <td className="py-1 font-medium text-slate-700">
+                  {fit.materialName}
+                  <span className="block text-[10px] text-slate-400 font-normal">{specimenLabel(fit.specimen, units, t)}</span>
+                </td>
+                <td className="py-1 text-right font-mono">{units.fixed('energy', fit.curve.upperShelf)}</td>
+                <td className="py-1 text-right font-mono">{units.fixed('energy', fit.curve.lowerShelf)}</td>
+                <td className="py-1 text-right font-mono">{units.fixed('temperature', fit.curve.transitionTemp, 1)}</td>
+                <td className="py-1 text-right font-mono">{fit.t27J !== null ? units.fixed('temperature', fit.t27J, 1) : '---'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+interface ForceChartProps {
+  result: TestResult;
+  units: Units;
+  t: Messages;
+}
+
+type ForceAxis = 'displacement' | 'time';
+
+// Instrumented striker signal of one test (ISO 14556)
+export const ForceChart: React.FC<ForceChartProps> = ({ result, units, t }) => {
+  const [axis, setAxis] = useState<ForceAxis>('displacement');
+  const trace = useMemo(() => instrumentedTrace(result), [result]);
+  const samples = useMemo(() => trace.samples.map(s => ({
+    time: s.time,
+    displacement: units.toDisplay('dimension', s.displacement),
+    force: units.toDisplay('force', s.force),
+  })), [trace, units]);
+  const axisUnit = axis === 'displacement' ? units.symbol('dimension') : 'ms';
+
+  const forces = [
+    { label: 'Fgy', value: trace.generalYieldForce },
+    { label: 'Fm', value: trace.maxForce },
+    { label: 'Fiu', value: trace.unstableForce },
+    { label: 'Fa', value: trace.arrestForce },
+  ];
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-semibold text-slate-500">
+          {t.charts.forceCurve(axis, result.material.name, units.format('temperature', result.temperature))}
+        </h3>
+        <div className="flex rounded-full border border-slate-300 overflow-hidden text-xs">
+          {(['displacement', 'time'] as ForceAxis[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setAxis(option)}
+              className={`px-3 py-1 font-bold ${axis === option ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {option === 'displacement' ? 'F–s' : 'F–t'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={samples} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              type="number"
+              dataKey={axis}
+              domain={[0, 'dataMax']}
+              tick={{fontSize: 10}}
+              tickFormatter={(value: number) => units.number(value, axis === 'time' ? 2 : units.digits('dimension'))}
+              label={{ value: `${axis === 'displacement' ? t.charts.displacement : t.charts.time} (${axisUnit})`, position: 'insideBottom', offset: -2, fontSize: 10 }}
+            />
+            <YAxis label={{ value: `${t.charts.force} (${units.symbol('force')})`, angle: -90, position: 'insideLeft' }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e2e8f0' }}
+              labelStyle={{color: '#334155', fontWeight: 'bold'}}
+              labelFormatter={(value: number) => `${units.number(value, axis === 'time' ? 2 : units.digits('dimension') + 1)} ${axisUnit}`}
+              formatter={(value: number) => units.number(value, units.digits('force') + 1)}
+            />
+            <ReferenceLine y={units.toDisplay('force', trace.maxForce)} stroke="#94a3b8" strokeDasharray="4 4" label={{ value: 'Fm', fontSize: 10, fill: '#64748b', position: 'right' }} />
+            <Line dataKey="force" name={`${t.charts.force} (${units.symbol('force')})`} stroke={result.material.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-600 mt-2 font-mono">
+        {forces.map(({ label, value }) => (
+          <span key={label}>{label} = {value !== null ? units.format('force', value) : '---'}</span>
+        ))}
+        <span>Wi = {units.format('energy', result.initiationEnergy)}</span>
+        <span>Wp = {units.format('energy', result.propagationEnergy)}</span>
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle, GraduationCap } from 'lucide-react';
+import { ExerciseAttempt, ExerciseQuantity, TestResult } from '../types';
+import { attemptScore, EXERCISE_QUANTITIES, EXERCISE_TOLERANCE, EXERCISE_UNITS, solveExercise } from '../analysis/exercise';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface ExercisePanelProps {
+  result: TestResult;
+  attempt: ExerciseAttempt | null; // Set once the answers have been graded
+  sessionScore: { correct: number; total: number };
+  units: Units;
+  t: Messages;
+  onSubmit: (answers: Record<ExerciseQuantity, number | null>) => void;
+}
+
+const EMPTY_DRAFT: Record<ExerciseQuantity, string> = { h0: '', hf: '', pe1: '', pe2: '', kv: '' };
+
+const ExercisePanel: React.FC<ExercisePanelProps> = ({ result, attempt, sessionScore, units, t, onSubmit }) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const messages = t.exercise;
+
+  // A new test starts with blank answers
+  useEffect(() => setDraft(EMPTY_DRAFT), [result.id]);
+
+  const expected = solveExercise(result);
+  const { mass, length, startAngle } = result.config;
+  const deg = (angle: number) => `${units.number(angle, 1)}°`;
+  const show = (q: ExerciseQuantity, value: number) => units.format(EXERCISE_UNITS[q], value, 3);
+
+  const submit = () => {
+    const answers = Object.fromEntries(EXERCISE_QUANTITIES.map(q => {
+      const text = draft[q].trim().replace(',', '.');
+      const value = Number(text);
+      return [q, text === '' || !Number.isFinite(value) ? null : units.fromDisplay(EXERCISE_UNITS[q], value)];
+    })) as Record<ExerciseQuantity, number | null>;
+    onSubmit(answers);
+  };
+
+  // Potential energy is m·g·h in SI; in US customary the weight in lbf already includes g
+  const weight = units.system === 'SI' ? `${units.format('mass', mass)} · ${units.number(9.81, 2)} m/s²` : `${units.fixed('mass', mass)} lbf`;
+  const solution = [
+    `h0 = L · (1 − cos α) = ${units.format('length', length, 3)} · (1 − cos ${deg(startAngle)}) = ${show('h0', expected.h0)}`,
+    `hf = L · (1 − cos β) = ${units.format('length', length, 3)} · (1 − cos ${deg(result.finalAngle)}) = ${show('hf', expected.hf)}`,
+    `PE1 = ${units.system === 'SI' ? 'm · g' : 'W'} · h0 = ${weight} · ${show('h0', expected.h0)} = ${show('pe1', expected.pe1)}`,
+    `PE2 = ${units.system === 'SI' ? 'm · g' : 'W'} · hf = ${weight} · ${show('hf', expected.hf)} = ${show('pe2', expected.pe2)}`,
+    `KV = PE1 − PE2 − ${messages.losses.toLowerCase()} = ${show('pe1', expected.pe1)} − ${show('pe2', expected.pe2)} − ${units.format('energy', result.lossCorrection, 2)} = ${show('kv', expected.kv)}`,
+  ];
+
+  return (
+    <div className="bg-indigo-900/40 p-4 rounded border border-indigo-500/30 text-sm space-y-3">
+      <div className="flex items-center gap-2 font-semibold text-indigo-200">
+        <GraduationCap className="w-4 h-4" /> {messages.title}
+      </div>
+      <p className="text-xs text-slate-300">{messages.intro}</p>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono text-slate-200">
+        <span>{messages.mass}: {units.format('mass', mass)}</span>
+        <span>{messages.length}: {units.format('length', length, 3)}</span>
+        <span>{messages.startAngle}: {deg(startAngle)}</span>
+        <span>{messages.finalAngle}: {deg(result.finalAngle)}</span>
+        <span className="col-span-2">{messages.losses}: {units.format('energy', result.lossCorrection, 2)}</span>
+      </div>
+
+      {!attempt ? (
+        <>
+          <div className="grid grid-cols-1 gap-2">
+            {EXERCISE_QUANTITIES.map(q => (
+              <label key={q} className="flex items-center justify-between gap-2 text-xs text-slate-300">
+                <span>{messages.quantities[q]} ({units.symbol(EXERCISE_UNITS[q])})</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={draft[q]}
+                  onChange={(e) => setDraft({ ...draft, [q]: e.target.value })}
+                  className="w-28 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white font-mono text-right"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-slate-400">{messages.tolerance(EXERCISE_TOLERANCE * 100)}</span>
+            <button onClick={submit} className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-1.5 rounded-full text-xs font-bold">
+              {messages.submit}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">{messages.yourAnswer}</th>
+                <th className="text-right font-normal">{messages.expected}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {EXERCISE_QUANTITIES.map(q => (
+                <tr key={q} className={attempt.correct[q] ? 'text-green-300' : 'text-red-300'}>
+                  <td className="py-0.5">{messages.quantities[q]}</td>
+                  <td className="text-right">{attempt.answers[q] === null ? messages.blank : show(q, attempt.answers[q]!)}</td>
+                  <td className="text-right">{show(q, expected[q])}</td>
+                  <td className="text-right pl-2">
+                    {attempt.correct[q] ? <CheckCircle2 className="w-3 h-3 inline" /> : <XCircle className="w-3 h-3 inline" />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div>
+            <div className="text-xs font-bold text-indigo-200 mb-1">{messages.solution}</div>
+            <ol className="text-xs font-mono text-slate-300 space-y-0.5 list-decimal pl-4">
+              {solution.map((step, i) => <li key={i}>{step}</li>)}
+            </ol>
+          </div>
+          <div className="flex justify-between text-xs font-bold">
+            <span className="text-white">{messages.score(attemptScore(attempt), EXERCISE_QUANTITIES.length)}</span>
+            <span className="text-indigo-200">{messages.sessionScore(sessionScore.correct, sessionScore.total)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExercisePanel;
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { Printer, X } from 'lucide-react';
+import { AcceptanceSpec, PendulumConfig, TestResult } from '../types';
+import { SPECIMEN_LENGTH, STRIKERS } from '../constants';
+import { EnergyChart } from './Charts';
+import AnalysisView from './AnalysisView';
+import { AnalysisOutput } from '../services/analysisProvider';
+import { impactVelocity, simulateFreeSwing } from '../physics/engine';
+import { energySymbol, fractureAreaCm2, specimenLabel } from '../physics/specimenModel';
+import { Units } from '../physics/units';
+import { groupResults } from '../analysis/resultGroups';
+import { checkValidity } from '../analysis/validity';
+import { checkAcceptanceByMaterial } from '../analysis/acceptance';
+import { Messages } from '../i18n';
+
+interface LabReportProps {
+  results: TestResult[];
+  sessionName: string;
+  analysis: AnalysisOutput | null;
+  spec: AcceptanceSpec | null; // Specification the batch is judged against, if any
+  units: Units;
+  t: Messages;
+  onClose: () => void;
+}
+
+const configKey = (c: PendulumConfig) =>
+  `${c.mass}|${c.length}|${c.startAngle}|${c.machine.nominalEnergy}|${c.machine.strikerRadius}|${c.machine.frictionTorque}|${c.machine.windageCoefficient}`;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2 text-sm py-0.5">
+    <span className="text-slate-500 w-48 flex-shrink-0">{label}</span>
+    <span className="font-medium text-slate-800">{children}</span>
+  </div>
+);
+
+const LabReport: React.FC<LabReportProps> = ({ results, sessionName, analysis, spec, units, t, onClose }) => {
+  const [laboratory, setLaboratory] = useState('');
+  const [operator, setOperator] = useState('');
+  const [includeAnalysis, setIncludeAnalysis] = useState(Boolean(analysis));
+
+  const machines = Array.from(new Map(results.map(r => [configKey(r.config), r.config])).values());
+  const groups = groupResults(results);
+  const validity = results.map(r => checkValidity(r, units, t));
+  const energy = units.symbol('energy');
+  const temperature = units.symbol('temperature');
+  const { report } = t;
+  const acceptance = spec ? checkAcceptanceByMaterial(results, spec, units, t) : [];
+  // The optional sections push the later ones down
+  const chartSection = spec ? 5 : 4;
+
+  return (
+    <div className="print-report fixed inset-0 z-[100] bg-slate-900/60 overflow-y-auto">
+      <div className="max-w-4xl mx-auto my-8 bg-white shadow-2xl rounded-lg print:shadow-none print:my-0 print:rounded-none">
+        {/* Toolbar */}
+        <div className="no-print flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50 rounded-t-lg">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={includeAnalysis}
+              disabled={!analysis}
+              onChange={(e) => setIncludeAnalysis(e.target.checked)}
+            />
+            {report.includeAnalysis}
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide"
+            >
+              <Printer className="w-3 h-3" /> {report.print}
+            </button>
+            <button onClick={onClose} className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50">
+              <X className="w-3 h-3" /> {report.close}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-10 space-y-8 text-slate-800">
+          {/* 1. Identification */}
+          <section>
+            <h1 className="text-2xl font-bold">{report.title}</h1>
+            <p className="text-sm text-slate-500 mb-4">{report.subtitle}</p>
+            <Field label={report.session}>{sessionName}</Field>
+            <Field label={report.date}>{new Date().toLocaleString(t.locale)}</Field>
+            <Field label={report.laboratory}>
+              <input value={laboratory} onChange={(e) => setLaboratory(e.target.value)} placeholder="—" className="border-b border-slate-300 focus:outline-none print:border-none" />
+            </Field>
+            <Field label={report.operator}>
+              <input value={operator} onChange={(e) => setOperator(e.target.value)} placeholder="—" className="border-b border-slate-300 focus:outline-none print:border-none" />
+            </Field>
+            <Field label={report.specimenCount}>{results.length}</Field>
+          </section>
+
+          {/* 2. Machine */}
+          <section>
+            <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">1. {report.machine}</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1">{report.capacity} ({energy})</th>
+                  <th className="py-1">{report.striker}</th>
+                  <th className="py-1">{report.mass} ({units.symbol('mass')})</th>
+                  <th className="py-1">{report.armLength} ({units.symbol('length')})</th>
+                  <th className="py-1">{report.dropAngle}</th>
+                  <th className="py-1">{report.availableEnergy} ({energy})</th>
+                  <th className="py-1">{report.impactVelocity} ({units.symbol('velocity')})</th>
+                  <th className="py-1">{report.freeSwingLoss} ({energy})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {machines.map(c => (
+                  <tr key={configKey(c)} className="border-t border-slate-100">
+                    <td className="py-1 font-mono">{units.fixed('energy', c.machine.nominalEnergy, 0)}</td>
+                    <td className="py-1">{c.machine.strikerRadius} mm ({STRIKERS[c.machine.strikerRadius].standard})</td>
+                    <td className="py-1 font-mono">{units.fixed('mass', c.mass)}</td>
+                    <td className="py-1 font-mono">{units.fixed('length', c.length)}</td>
+                    <td className="py-1 font-mono">{c.startAngle}</td>
+                    <td className="py-1 font-mono">{units.fixed('energy', results.find(r => configKey(r.config) === configKey(c))!.initialEnergy)}</td>
+                    <td className="py-1 font-mono">{units.fixed('velocity', impactVelocity(c))}</td>
+                    <td className="py-1 font-mono">{units.fixed('energy', simulateFreeSwing(c).loss, 2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* 3. Results per specimen */}
+          <section>
+            <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">2. {report.perSpecimen}</h2>
+            <p className="text-xs text-slate-500 mb-2">{report.specimenNote(units.format('dimension', SPECIMEN_LENGTH, units.system === 'SI' ? 0 : 2))}</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1">{report.number}</th>
+                  <th className="py-1">{report.material}</th>
+                  <th className="py-1">{report.specimen}</th>
+                  <th className="py-1 text-right">T ({temperature})</th>
+                  <th className="py-1 text-right">{report.reading} ({energy})</th>
+                  <th className="py-1 text-right">{report.energy} ({energy})</th>
+                  <th className="py-1 text-right">{units.symbol('toughness')}</th>
+                  <th className="py-1 text-right">LE ({units.symbol('expansion')})</th>
+                  <th className="py-1 text-right">{report.shear}</th>
+                  <th className="py-1">{report.breakage}</th>
+                  <th className="py-1">{report.appearance}</th>
+                  <th className="py-1">{report.validity}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((r, i) => (
+                  <tr key={r.id} className="border-t border-slate-100">
+                    <td className="py-1 font-mono">{i + 1}</td>
+                    <td className="py-1">{r.material.name}</td>
+                    <td className="py-1 text-xs">{specimenLabel(r.specimen, units, t)}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('temperature', r.temperature)}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('energy', r.uncorrectedEnergy)}</td>
+                    <td className="py-1 text-right font-mono">{energySymbol(r.specimen, r.config.machine.strikerRadius)} = {units.fixed('energy', r.absorbedEnergy)}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('toughness', r.absorbedEnergy / fractureAreaCm2(r.specimen))}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('expansion', r.lateralExpansion)}</td>
+                    <td className="py-1 text-right font-mono">{r.shearPercent}</td>
+                    <td className="py-1">{r.didBreak ? report.broken : report.unbroken}</td>
+                    <td className="py-1">{t.fracture[r.fractureType]}</td>
+                    <td className="py-1">
+                      {validity[i].some(issue => issue.severity === 'invalid') ? report.invalid : validity[i].length > 0 ? report.withWarnings : report.valid}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {validity.some(issues => issues.length > 0) && (
+              <ul className="text-xs text-slate-600 mt-2 list-disc pl-4">
+                {validity.flatMap((issues, i) => issues.map((issue, k) => (
+                  <li key={`${i}-${k}`} className={issue.severity === 'invalid' ? 'text-red-700' : 'text-amber-700'}>
+                    {report.specimenIssue(i + 1, issue.message)}
+                  </li>
+                )))}
+              </ul>
+            )}
+          </section>
+
+          {/* 4. Averages */}
+          <section>
+            <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">3. {report.averages}</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1">{report.material}</th>
+                  <th className="py-1">{report.specimen}</th>
+                  <th className="py-1 text-right">T ({temperature})</th>
+                  <th className="py-1 text-right">n</th>
+                  <th className="py-1 text-right">{report.mean} ({energy})</th>
+                  <th className="py-1 text-right">σ ({energy})</th>
+                  <th className="py-1 text-right">{report.min} ({energy})</th>
+                  <th className="py-1 text-right">{report.max} ({energy})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(g => (
+                  <tr key={g.key} className="border-t border-slate-100">
+                    <td className="py-1">{g.material.name}</td>
+                    <td className="py-1 text-xs">{specimenLabel(g.specimen, units, t)}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('temperature', g.temperature)}</td>
+                    <td className="py-1 text-right font-mono">{g.stats.count}</td>
+                    <td className="py-1 text-right font-mono">{energySymbol(g.specimen, g.config.machine.strikerRadius)} = {units.fixed('energy', g.stats.mean)}</td>
+                    <td className="py-1 text-right font-mono">{g.stats.count > 1 ? units.fixed('energy', g.stats.std) : '---'}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('energy', g.stats.min)}</td>
+                    <td className="py-1 text-right font-mono">{units.fixed('energy', g.stats.max)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {/* 5. Specification */}
+          {spec && (
+            <section>
+              <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">4. {t.acceptance.reportTitle}</h2>
+              <p className="text-xs text-slate-500 mb-2">
+                {spec.name}: {t.acceptance.requirement(units.format('energy', spec.minAverage), units.format('energy', spec.minIndividual), units.format('temperature', spec.temperature))}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1">{report.material}</th>
+                    <th className="py-1 text-right">n</th>
+                    <th className="py-1 text-right">{t.acceptance.values} ({energy})</th>
+                    <th className="py-1 text-right">{report.mean} ({energy})</th>
+                    <th className="py-1">{t.acceptance.verdict}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {acceptance.map(({ material, verdict }) => (
+                    <tr key={material.id} className="border-t border-slate-100 align-top">
+                      <td className="py-1">{material.name}</td>
+                      <td className="py-1 text-right font-mono">{verdict.values.length}</td>
+                      <td className="py-1 text-right font-mono">{verdict.values.map(v => units.fixed('energy', v)).join(' · ') || '---'}</td>
+                      <td className="py-1 text-right font-mono">{verdict.average !== null ? units.fixed('energy', verdict.average) : '---'}</td>
+                      <td className="py-1">
+                        <span className={`font-bold ${verdict.status === 'pass' ? 'text-green-700' : verdict.status === 'fail' ? 'text-red-700' : 'text-slate-500'}`}>
+                          {t.acceptance.status[verdict.status]}
+                        </span>
+                        {[...verdict.reasons, ...(verdict.excluded > 0 ? [t.acceptance.excluded(verdict.excluded)] : [])].map((reason, i) => (
+                          <span key={i} className="block text-xs text-slate-600">{reason}</span>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* 6. Chart */}
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">{chartSection}. {report.chart}</h2>
+            <div className="pb-8">
+              <EnergyChart results={results} units={units} t={t} />
+            </div>
+          </section>
+
+          {/* 7. Analysis */}
+          {includeAnalysis && analysis && (
+            <section>
+              <h2 className="text-lg font-semibold border-b border-slate-200 pb-1 mb-2">{chartSection + 1}. {report.analysis}</h2>
+              <div className="text-sm leading-relaxed">
+                <AnalysisView analysis={analysis} units={units} t={t} />
+              </div>
+            </section>
+          )}
+
+          <footer className="text-xs text-slate-400 pt-4 border-t border-slate-200">
+            {report.footer}
+          </footer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabReport;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { FractureType, Material, TransitionCurve } from '../types';
+import { energyAtTemperature } from '../physics/transitionModel';
+import { Quantity, Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface MaterialEditorProps {
+  material: Material;
+  title: string;
+  units: Units;
+  t: Messages;
+  onSave: (material: Material) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_TEMPERATURES = [-60, -20, 20, 60]; // °C
+
+const inputClass = 'w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5';
+
+const MaterialEditor: React.FC<MaterialEditorProps> = ({ material, title, units, t, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Material>(material);
+
+  // Typed in the display units, kept in SI
+  const setTransition = (field: keyof TransitionCurve, quantity: Quantity, value: number) => {
+    setDraft({ ...draft, transition: { ...draft.transition, [field]: units.fromDisplay(quantity, value) } });
+  };
+
+  const { upperShelf, lowerShelf, width } = draft.transition;
+  const error = !draft.name.trim()
+    ? t.editor.nameRequired
+    : !(upperShelf > 0 && lowerShelf > 0)
+      ? t.editor.shelvesPositive
+      : lowerShelf > upperShelf
+        ? t.editor.lowerAboveUpper
+        : !(width > 0)
+          ? t.editor.widthPositive
+          : null;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800">{title}</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.name}</label>
+              <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.type}</label>
+              <input list="material-types" value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value })} className={inputClass} />
+              <datalist id="material-types">
+                {Object.values(t.materialTypes).map(type => <option key={type} value={type} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.color}</label>
+              <input type="color" value={draft.color} onChange={(e) => setDraft({ ...draft, color: e.target.value })} className="w-full h-[34px] border border-slate-300 rounded-lg" />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t.editor.toughness}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.upperShelf} ({units.symbol('energy')})</label>
+                <input type="number" min="0" value={units.toInput('energy', upperShelf)} onChange={(e) => setTransition('upperShelf', 'energy', Number(e.target.value))} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.lowerShelf} ({units.symbol('energy')})</label>
+                <input type="number" min="0" value={units.toInput('energy', lowerShelf)} onChange={(e) => setTransition('lowerShelf', 'energy', Number(e.target.value))} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.transitionTemp} ({units.symbol('temperature')})</label>
+                <input type="number" value={units.toInput('temperature', draft.transition.transitionTemp)} onChange={(e) => setTransition('transitionTemp', 'temperature', Number(e.target.value))} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.transitionWidth} ({units.symbol('temperatureDifference')})</label>
+                <input type="number" min="1" value={units.toInput('temperatureDifference', width)} onChange={(e) => setTransition('width', 'temperatureDifference', Number(e.target.value))} className={inputClass} />
+              </div>
+            </div>
+            {!error && (
+              <div className="flex justify-between text-xs text-slate-500 mt-2 font-mono">
+                {PREVIEW_TEMPERATURES.map(temperature => (
+                  <span key={temperature}>{units.format('temperature', temperature)}: {units.format('energy', energyAtTemperature(draft.transition, temperature), 0)}</span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.roomBehaviour}</label>
+            <select value={draft.fractureType} onChange={(e) => setDraft({ ...draft, fractureType: e.target.value as FractureType })} className={inputClass}>
+              {(Object.keys(t.fracture) as FractureType[]).map(type => (
+                <option key={type} value={type}>{t.fracture[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{t.editor.description}</label>
+            <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} rows={3} className={inputClass} />
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+          <button onClick={onCancel} className="text-xs font-bold px-4 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50">
+            {t.editor.cancel}
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+            disabled={Boolean(error)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-1.5 rounded-full text-xs font-bold"
+          >
+            <Save className="w-3 h-3" /> {t.editor.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialEditor;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { ListOrdered, Pause, Play, Square } from 'lucide-react';
+import { ConfigLimits, Material, UnitSystem } from '../types';
+import { SeriesPlan, SeriesVariable, parseSeriesValues } from '../physics/series';
+import { Quantity, Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+export interface SeriesProgress {
+  done: number;
+  total: number;
+  paused: boolean;
+}
+
+interface SeriesRunnerProps {
+  materials: Material[];
+  limits: ConfigLimits; // Same as the configuration sliders
+  progress: SeriesProgress | null;
+  disabled: boolean;
+  units: Units;
+  t: Messages;
+  onStart: (plan: SeriesPlan) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const MAX_SPECIMENS = 10;
+
+interface VariableInput {
+  quantity: Quantity | null; // Typed in the display units; angles are always in degrees
+  placeholder: Record<UnitSystem, string>;
+}
+
+const VARIABLE_INPUTS: Record<Exclude<SeriesVariable, 'none'>, VariableInput> = {
+  startAngle: { quantity: null, placeholder: { SI: '110; 135; 160', US: '110; 135; 160' } },
+  temperature: { quantity: 'temperature', placeholder: { SI: '-60; -40; -20; 0; 20', US: '-80; -40; 0; 40; 70' } },
+};
+
+const SeriesRunner: React.FC<SeriesRunnerProps> = ({
+  materials,
+  limits,
+  progress,
+  disabled,
+  units,
+  t,
+  onStart,
+  onPause,
+  onResume,
+  onCancel
+}) => {
+  const [materialIds, setMaterialIds] = useState<string[]>([]);
+  const [count, setCount] = useState(3);
+  const [variable, setVariable] = useState<SeriesVariable>('none');
+  const [valuesText, setValuesText] = useState('');
+  const [animated, setAnimated] = useState(false);
+
+  const toggleMaterial = (id: string) => {
+    setMaterialIds(prev => (prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]));
+  };
+
+  const range = variable === 'none' ? null : { ...VARIABLE_INPUTS[variable], ...limits[variable] };
+  const unit = range?.quantity ? units.symbol(range.quantity) : '°';
+  const display = (value: number) => (range?.quantity ? units.fixed(range.quantity, value) : units.number(value, 0));
+  const values = variable === 'none'
+    ? []
+    : parseSeriesValues(valuesText)?.map(v => (range?.quantity ? units.fromDisplay(range.quantity, v) : v)) ?? null;
+  const error = materialIds.length === 0
+    ? t.series.selectMaterial
+    : values === null
+      ? t.series.notNumeric
+      : range && values.length === 0
+        ? t.series.noValues
+        : range && values.some(v => v < range.min || v > range.max)
+          ? t.series.outOfRange(`${display(range.min)}${unit}`, `${display(range.max)}${unit}`)
+          : null;
+  const total = materialIds.length * Math.max(values?.length || 1, 1) * count;
+
+  if (progress) {
+    return (
+      <div className="space-y-3">
+        <div className="flex justify-between text-xs text-slate-600">
+          <span className="font-bold">{progress.paused ? t.series.paused : t.series.running}</span>
+          <span className="font-mono">{progress.done} / {progress.total}</span>
+        </div>
+        <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={progress.paused ? onResume : onPause}
+            className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
+          >
+            {progress.paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+            {progress.paused ? t.series.resume : t.series.pause}
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 text-xs font-bold px-3 py-1.5 rounded-full border bg-white border-red-200 text-red-600 hover:bg-red-50"
+          >
+            <Square className="w-3 h-3" /> {t.series.cancel}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {materials.map(m => (
+          <button
+            key={m.id}
+            onClick={() => toggleMaterial(m.id)}
+            disabled={disabled}
+            className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full border transition-colors ${materialIds.includes(m.id) ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: m.color }}></span>
+            {m.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">{t.series.specimensPerCondition}</label>
+          <input
+            type="number" min="1" max={MAX_SPECIMENS}
+            value={count}
+            disabled={disabled}
+            onChange={(e) => setCount(Math.min(MAX_SPECIMENS, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+            className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">{t.series.vary}</label>
+          <select
+            value={variable}
+            disabled={disabled}
+            onChange={(e) => setVariable(e.target.value as SeriesVariable)}
+            className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+          >
+            <option value="none">{t.series.nothing}</option>
+            <option value="startAngle">{t.series.startAngle}</option>
+            <option value="temperature">{t.series.temperature}</option>
+          </select>
+        </div>
+      </div>
+
+      {range && (
+        <div>
+          <label className="block text-sm font-medium text-slate-600 mb-1">{variable !== 'none' && t.series[variable]} ({unit})</label>
+          <input
+            value={valuesText}
+            disabled={disabled}
+            onChange={(e) => setValuesText(e.target.value)}
+            placeholder={range.placeholder[units.system]}
+            className="w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        <input type="checkbox" checked={animated} disabled={disabled} onChange={(e) => setAnimated(e.target.checked)} />
+        {t.series.animated}
+      </label>
+
+      {error && materialIds.length > 0 && <p className="text-xs text-red-600">{error}</p>}
+
+      <button
+        onClick={() => onStart({ materialIds, specimensPerCondition: count, variable, values: values || [], animated })}
+        disabled={disabled || Boolean(error)}
+        className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-900 disabled:bg-slate-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-xs font-bold uppercase tracking-wide"
+      >
+        <ListOrdered className="w-4 h-4" />
+        {t.series.run(error ? 0 : total)}
+      </button>
+    </div>
+  );
+};
+
+export default SeriesRunner;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { FolderOpen, Plus, Pencil, Trash2 } from 'lucide-react';
+import { LabSession } from '../types';
+import { Messages } from '../i18n';
+
+interface SessionManagerProps {
+  sessions: LabSession[];
+  activeSessionId: string | null;
+  disabled: boolean;
+  t: Messages;
+  onSwitch: (sessionId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+const SessionManager: React.FC<SessionManagerProps> = ({
+  sessions,
+  activeSessionId,
+  disabled,
+  t,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+
+  const handleCreate = () => {
+    const name = window.prompt(t.sessions.createPrompt, t.app.defaultSessionName(sessions.length + 1));
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!activeSession) return;
+    const name = window.prompt(t.sessions.renamePrompt, activeSession.name);
+    if (name && name.trim()) onRename(activeSession.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!activeSession) return;
+    if (window.confirm(t.sessions.confirmRemove(activeSession.name))) {
+      onDelete(activeSession.id);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-3 p-2 bg-slate-50 rounded-lg border border-slate-100">
+      <FolderOpen className="w-4 h-4 text-slate-500 flex-shrink-0" />
+      <select
+        value={activeSessionId ?? ''}
+        disabled={disabled}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="flex-1 min-w-0 text-sm font-medium text-slate-700 bg-transparent border-none focus:outline-none"
+        title={t.sessions.active}
+      >
+        {sessions.map(s => (
+          <option key={s.id} value={s.id}>{s.name}</option>
+        ))}
+      </select>
+      <button onClick={handleCreate} disabled={disabled} className="text-slate-500 hover:text-blue-600 disabled:opacity-30" title={t.sessions.create}>
+        <Plus className="w-4 h-4" />
+      </button>
+      <button onClick={handleRename} disabled={disabled || !activeSession} className="text-slate-500 hover:text-blue-600 disabled:opacity-30" title={t.sessions.rename}>
+        <Pencil className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={handleDelete} disabled={disabled || !activeSession} className="text-slate-500 hover:text-red-600 disabled:opacity-30" title={t.sessions.remove}>
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export default SessionManager;
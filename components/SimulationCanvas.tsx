@@ -1,26 +1,189 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { PendulumConfig, SimulationState, Material } from '../types';
-import { GRAVITY } from '../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PendulumConfig, SimulationState, Material, SpecimenGeometry, TestResult } from '../types';
+import { SPECIMEN_LENGTH } from '../constants';
+import { formatDimension, specimenLabel } from '../physics/specimenModel';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+import { angleAtTime, createSeededRandom, FreeSwingResult, RandomSource, stepPendulum, TrajectorySample } from '../physics/engine';
 
 interface SimulationCanvasProps {
   config: PendulumConfig;
+  specimen: SpecimenGeometry;
   material: Material | null;
   state: SimulationState;
   finalAngleResult: number;
+  trajectory: TrajectorySample[];
+  result: TestResult | null; // Last test, its fracture surface is shown in the magnifier
+  freeSwing: FreeSwingResult | null; // Last calibration run, its reading is marked on the dial
   showMagnifier: boolean;
+  fracturePending: boolean; // Exercise mode: the fracture face gives the absorbed energy away until answered
+  units: Units;
+  t: Messages;
+  onPhaseChange: (state: SimulationState) => void; // Called when the motion reaches the next phase
   onAnimationComplete: () => void;
 }
 
+const MAX_FRAME_DT = 0.05; // s, longer gaps (hidden tab, slow frame) are not replayed
+const BRAKE_STEP = 0.001; // s, integration step of the return swing
+const BRAKE_DAMPING = 3; // 1/s, brake applied once the reading has been taken
+const REST_ANGLE = 0.003; // rad
+const REST_VELOCITY = 0.02; // rad/s
+
+// Traces a notch profile cut into an edge. Local frame: edge on y = 0, notch grows towards +y.
+// Sizes are in pixels; tiny radii are widened so the shape stays visible.
+const traceNotch = (ctx: CanvasRenderingContext2D, specimen: SpecimenGeometry, pxPerMm: number) => {
+  const depth = specimen.notchDepth * pxPerMm;
+  const radius = Math.max(specimen.notchRadius * pxPerMm, 1.5);
+
+  ctx.beginPath();
+  if (specimen.notchType === 'V') {
+    // 45° included angle
+    const halfOpening = depth * Math.tan(Math.PI / 8) + radius;
+    ctx.moveTo(-halfOpening, 0);
+    ctx.lineTo(0, depth);
+    ctx.lineTo(halfOpening, 0);
+  } else if (specimen.notchType === 'U') {
+    ctx.moveTo(-radius, 0);
+    ctx.lineTo(-radius, depth - radius);
+    ctx.arc(0, depth - radius, radius, Math.PI, 0, true);
+    ctx.lineTo(radius, 0);
+  } else {
+    // Keyhole: narrow slot ending in a drilled hole
+    const slot = radius * 0.5;
+    const holeY = depth - radius;
+    const rim = Math.atan2(Math.sqrt(radius * radius - slot * slot), slot);
+    ctx.moveTo(-slot, 0);
+    ctx.arc(0, holeY, radius, rim - Math.PI, -rim, true);
+    ctx.lineTo(slot, 0);
+  }
+  ctx.closePath();
+};
+
+// Fibrous (shear) texture: dull grey with dimples and tearing ridges
+const drawFibrous = (ctx: CanvasRenderingContext2D, random: RandomSource, x: number, y: number, w: number, h: number) => {
+  ctx.fillStyle = '#8b9099';
+  ctx.fillRect(x, y, w, h);
+  for (let i = 0; i < (w * h) / 12; i++) {
+    const px = x + random() * w;
+    const py = y + random() * h;
+    ctx.fillStyle = random() < 0.5 ? 'rgba(51, 65, 85, 0.35)' : 'rgba(226, 232, 240, 0.25)';
+    ctx.beginPath();
+    ctx.arc(px, py, 0.6 + random() * 1.4, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.strokeStyle = 'rgba(30, 41, 59, 0.25)';
+  ctx.lineWidth = 1;
+  for (let i = 0; i < (w + h) / 4; i++) {
+    const px = x + random() * w;
+    const py = y + random() * h;
+    ctx.beginPath();
+    ctx.moveTo(px, py);
+    ctx.quadraticCurveTo(px + random() * 6 - 3, py + 3, px + random() * 4 - 2, py + 6);
+    ctx.stroke();
+  }
+};
+
+// Crystalline (cleavage) texture: bright flat facets of different orientation
+const drawCrystalline = (ctx: CanvasRenderingContext2D, random: RandomSource, x: number, y: number, w: number, h: number) => {
+  const facet = 7;
+  for (let fy = y; fy < y + h; fy += facet) {
+    for (let fx = x; fx < x + w; fx += facet) {
+      const jitter = () => (random() - 0.5) * facet * 0.8;
+      const light = 70 + Math.floor(random() * 28);
+      ctx.fillStyle = `hsl(215, 12%, ${light}%)`;
+      ctx.beginPath();
+      ctx.moveTo(fx + jitter(), fy + jitter());
+      ctx.lineTo(fx + facet + jitter(), fy + jitter());
+      ctx.lineTo(fx + facet + jitter(), fy + facet + jitter());
+      ctx.lineTo(fx + jitter(), fy + facet + jitter());
+      ctx.closePath();
+      ctx.fill();
+      if (random() < 0.08) {
+        // Glint of a facet facing the viewer
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.fillRect(fx + facet / 2, fy + facet / 2, 1.5, 1.5);
+      }
+    }
+  }
+};
+
+// Fracture face seen head-on: ligament of B × (thickness - notch depth), notch side on top.
+// The crystalline area is a centred rectangle (ASTM E23 method) sized from the shear fraction;
+// the rest is the fibrous zone and shear lips. Seeded so the picture is stable between frames.
+const drawFractureSurface = (
+  ctx: CanvasRenderingContext2D,
+  result: TestResult,
+  centerX: number,
+  centerY: number,
+  pxPerMm: number,
+  notchLabel: string
+) => {
+  const random = createSeededRandom(result.seed);
+  const w = result.specimen.width * pxPerMm;
+  const h = Math.max(result.specimen.thickness - result.specimen.notchDepth, 0) * pxPerMm;
+  const x = centerX - w / 2;
+  const y = centerY - h / 2;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+
+  drawFibrous(ctx, random, x, y, w, h);
+
+  // Flat fracture starts at the notch root, so the brittle zone sits close to the notch side
+  const scale = Math.sqrt(1 - result.shearPercent / 100);
+  const cw = w * scale;
+  const ch = h * scale;
+  if (cw > 0 && ch > 0) {
+    const cx = x + (w - cw) / 2;
+    const cy = y + (h - ch) * 0.3;
+    drawCrystalline(ctx, random, cx, cy, cw, ch);
+    ctx.strokeStyle = 'rgba(15, 23, 42, 0.4)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(cx, cy, cw, ch);
+  }
+
+  // Tint with the material colour
+  ctx.globalAlpha = 0.15;
+  ctx.fillStyle = result.material.color;
+  ctx.fillRect(x, y, w, h);
+  ctx.restore();
+
+  ctx.strokeStyle = '#475569';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, w, h);
+
+  // Notch root marker
+  ctx.fillStyle = '#64748b';
+  ctx.font = '9px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(notchLabel, centerX, y - 4);
+};
+
 const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ 
   config, 
+  specimen,
   material, 
   state, 
   finalAngleResult,
+  trajectory,
+  result,
+  freeSwing,
   showMagnifier,
+  fracturePending,
+  units,
+  t,
+  onPhaseChange,
   onAnimationComplete 
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
+  const lastFrameRef = useRef<number | null>(null);
+
+  // Impact and end of the swing-up, as computed by the engine
+  const impactTime = useMemo(() => trajectory.find(s => s.angle >= 0)?.time ?? 0, [trajectory]);
+  const swingEndTime = trajectory.length > 0 ? trajectory[trajectory.length - 1].time : 0;
   
   // Visual state
   const [specimenBroken, setSpecimenBroken] = useState(false);
@@ -29,7 +192,9 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
   const physicsState = useRef({
     angle: -config.startAngle * (Math.PI / 180), // Start on left (negative)
     velocity: 0,
-    time: 0
+    time: 0, // s, along the engine trajectory
+    brakeTime: 0, // s, not yet integrated part of the return swing
+    settled: false
   });
 
   // Reset when idle or config changes
@@ -38,7 +203,9 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       physicsState.current = {
         angle: -config.startAngle * (Math.PI / 180),
         velocity: 0,
-        time: 0
+        time: 0,
+        brakeTime: 0,
+        settled: false
       };
       setSpecimenBroken(false);
     }
@@ -103,6 +270,26 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.stroke();
       }
 
+      // Free swing: ideal stop (+α) against the reading β1, the gap is the friction and windage loss
+      if (freeSwing) {
+        const marks: [number, string][] = [[config.startAngle, '#334155'], [freeSwing.finalAngle, '#2563eb']];
+        marks.forEach(([deg, color]) => {
+          const rad = (deg * Math.PI) / 180;
+          ctx.beginPath();
+          ctx.moveTo(centerX + Math.sin(rad) * 30, pivotY + Math.cos(rad) * 30);
+          ctx.lineTo(centerX + Math.sin(rad) * 37, pivotY + Math.cos(rad) * 37);
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 2;
+          ctx.stroke();
+        });
+        ctx.fillStyle = '#2563eb';
+        ctx.font = '9px monospace';
+        ctx.textAlign = 'right';
+        ctx.fillText(t.canvas.freeSwing, centerX - 115, pivotY - 6);
+        ctx.fillText(`β1 ${units.number(freeSwing.finalAngle, 2)}° · Δ ${units.number(config.startAngle - freeSwing.finalAngle, 2)}°`, centerX - 115, pivotY + 6);
+        ctx.textAlign = 'left';
+      }
+
       // Dial Needle (Red - follows pendulum)
       const needleAngle = physicsState.current.angle;
       ctx.beginPath();
@@ -139,7 +326,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       ctx.stroke();
       ctx.fillStyle = '#64748b';
       ctx.font = '10px monospace';
-      ctx.fillText(`h0 (Inicio)`, centerX - 160, startY - 5);
+      ctx.fillText(t.canvas.start, centerX - 160, startY - 5);
 
       if (state !== SimulationState.IDLE && finalAngleResult > 0) {
         const finalRad = finalAngleResult * (Math.PI / 180);
@@ -148,7 +335,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.moveTo(centerX + 40, finalY);
         ctx.lineTo(centerX + 160, finalY);
         ctx.stroke();
-        ctx.fillText(`hf (Final)`, centerX + 120, finalY - 5);
+        ctx.fillText(t.canvas.final, centerX + 120, finalY - 5);
       }
       ctx.setLineDash([]);
 
@@ -163,34 +350,38 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
       if (material) {
         // Draw as CROSS SECTION (Square) in the main view for physical accuracy
         // Impact from Left -> Hits Left Face -> Notch is on Right Face
-        const specSize = 24; 
-        const specX = centerX - specSize / 2;
-        const specY = anvilY - specSize / 2;
+        // Horizontal = thickness (striking direction), vertical = width B, resting on the anvils
+        const pxPerMm = 2.4;
+        const specW = specimen.thickness * pxPerMm;
+        const specH = specimen.width * pxPerMm;
+        const specX = centerX - specW / 2;
+        const specY = anvilY + 12 - specH;
 
         
         if (!specimenBroken) {
           ctx.fillStyle = material.color;
-          ctx.fillRect(specX, specY, specSize, specSize);
+          ctx.fillRect(specX, specY, specW, specH);
           ctx.strokeStyle = '#475569';
-          ctx.strokeRect(specX, specY, specSize, specSize);
+          ctx.strokeRect(specX, specY, specW, specH);
           
           // Notch on RIGHT Edge
+          ctx.save();
+          ctx.translate(specX + specW, specY + specH / 2);
+          ctx.rotate(Math.PI / 2);
           ctx.fillStyle = '#cbd5e1'; 
-          ctx.beginPath();
-          ctx.moveTo(specX + specSize, specY + specSize/2 - 4);
-          ctx.lineTo(specX + specSize - 5, specY + specSize/2);
-          ctx.lineTo(specX + specSize, specY + specSize/2 + 4);
+          traceNotch(ctx, specimen, pxPerMm);
           ctx.fill();
+          ctx.restore();
         } else {
           // Broken State: Knocked over / Split
           // Since we view cross section, we just show it displaced
           ctx.save();
-          ctx.translate(specX + specSize, specY + specSize);
+          ctx.translate(specX + specW, specY + specH);
           ctx.rotate(0.5); 
           ctx.fillStyle = material.color;
-          ctx.fillRect(-specSize, -specSize, specSize, specSize);
+          ctx.fillRect(-specW, -specH, specW, specH);
           ctx.strokeStyle = '#475569';
-          ctx.strokeRect(-specSize, -specSize, specSize, specSize);
+          ctx.strokeRect(-specW, -specH, specW, specH);
           ctx.restore();
         }
       }
@@ -249,7 +440,8 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         const previewX = 50;
         const previewY = 50;
         const pWidth = 100;
-        const pHeight = 25;
+        const pxPerMm = 2.5; // Height exaggerated vs length for readability
+        const pHeight = specimen.thickness * pxPerMm;
 
         // Container/Background
         ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
@@ -262,7 +454,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.fillStyle = '#475569';
         ctx.font = 'bold 10px sans-serif';
         ctx.textAlign = 'left';
-        ctx.fillText("Vista Frontal (Longitudinal)", previewX, previewY - 5);
+        ctx.fillText(t.canvas.frontView, previewX, previewY - 5);
 
         // Specimen Body
         ctx.fillStyle = material.color;
@@ -271,19 +463,22 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.strokeRect(previewX, previewY, pWidth, pHeight);
 
         // Notch (CENTER of TOP Edge) - Standard Front View
+        ctx.save();
+        ctx.translate(previewX + pWidth / 2, previewY);
         ctx.fillStyle = '#fff'; 
-        ctx.beginPath();
-        ctx.moveTo(previewX + pWidth/2 - 6, previewY);
-        ctx.lineTo(previewX + pWidth/2, previewY + 8);
-        ctx.lineTo(previewX + pWidth/2 + 6, previewY);
+        traceNotch(ctx, specimen, pxPerMm);
         ctx.fill();
         ctx.stroke();
+        ctx.restore();
 
         // Dimension Text
         ctx.fillStyle = '#94a3b8';
         ctx.font = '9px monospace';
         ctx.textAlign = 'center';
-        ctx.fillText("55mm", previewX + pWidth / 2, previewY + pHeight + 12);
+        const size = [SPECIMEN_LENGTH, specimen.thickness, specimen.width]
+          .map(d => formatDimension(d, units))
+          .join(' × ');
+        ctx.fillText(`${size} ${units.symbol('dimension')}`, previewX + pWidth / 2, previewY + pHeight + 12);
         
         // Impact Arrow
         ctx.fillStyle = '#ef4444';
@@ -294,7 +489,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.lineTo(previewX + pWidth/2 + 3, previewY + pHeight + 8);
         ctx.lineTo(previewX + pWidth/2, previewY + pHeight + 5);
         ctx.fill();
-        ctx.fillText("Impacto", previewX + pWidth/2, previewY + pHeight + 24);
+        ctx.fillText(t.canvas.impact, previewX + pWidth/2, previewY + pHeight + 24);
       }
 
 
@@ -315,99 +510,124 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({
         ctx.lineWidth = 3;
         ctx.strokeRect(magX, magY, magSize, magSize);
 
-        // Title
-        ctx.fillStyle = '#1e293b';
-        ctx.font = 'bold 14px sans-serif';
-        ctx.textAlign = 'center';
-        ctx.fillText("Sección Transversal", magX + magSize/2, magY + 25);
-        
-        // Draw Zoomed Specimen (Square Cross Section)
         const zoomCX = magX + magSize/2;
         const zoomCY = magY + magSize/2;
-        const zSize = 80;
-        
-        // Specimen Body
-        ctx.fillStyle = material.color;
-        ctx.fillRect(zoomCX - zSize/2, zoomCY - zSize/2, zSize, zSize);
-        ctx.strokeStyle = '#475569';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(zoomCX - zSize/2, zoomCY - zSize/2, zSize, zSize);
-        
-        // V-Notch on RIGHT Edge
-        ctx.fillStyle = 'white';
-        ctx.beginPath();
-        ctx.moveTo(zoomCX + zSize/2, zoomCY - 15);
-        ctx.lineTo(zoomCX + zSize/2 - 20, zoomCY);
-        ctx.lineTo(zoomCX + zSize/2, zoomCY + 15);
-        ctx.fill();
-        ctx.stroke();
+        const zoomPxPerMm = 8;
 
-        // Impact Arrow (Left)
-        ctx.fillStyle = '#ef4444';
-        ctx.font = 'bold 24px sans-serif';
-        ctx.fillText("→", zoomCX - zSize/2 - 30, zoomCY + 8);
-        ctx.font = '10px monospace';
-        ctx.fillText("Impacto", zoomCX - zSize/2 - 30, zoomCY + 20);
+        // After the impact (and until the next test) show the fracture face of the broken specimen
+        const showFracture = result !== null && result.didBreak && (specimenBroken || state === SimulationState.IDLE);
 
-        // Standard Label
-        ctx.fillStyle = '#64748b';
+        // Title
+        ctx.fillStyle = '#1e293b';
+        ctx.font = 'bold 14px sans-serif';
         ctx.textAlign = 'center';
-        ctx.fillText("10mm x 10mm", zoomCX, magY + magSize - 10);
+        ctx.fillText(showFracture ? t.canvas.fractureSurface : t.canvas.crossSection, magX + magSize/2, magY + 25);
+
+        if (showFracture && fracturePending) {
+          ctx.fillStyle = '#64748b';
+          ctx.font = '12px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.fillText(t.exercise.pending, zoomCX, zoomCY + 5);
+        } else if (showFracture) {
+          drawFractureSurface(ctx, result, zoomCX, zoomCY + 5, zoomPxPerMm, t.canvas.notch);
+
+          ctx.fillStyle = '#64748b';
+          ctx.font = '10px monospace';
+          ctx.textAlign = 'center';
+          ctx.fillText(`${t.canvas.shear} ${result.shearPercent}% · LE ${units.format('expansion', result.lateralExpansion)}`, zoomCX, magY + magSize - 10);
+        } else {
+          // Draw Zoomed Specimen (Square Cross Section)
+          const zW = specimen.thickness * zoomPxPerMm;
+          const zH = specimen.width * zoomPxPerMm;
+          
+          // Specimen Body
+          ctx.fillStyle = material.color;
+          ctx.fillRect(zoomCX - zW/2, zoomCY - zH/2, zW, zH);
+          ctx.strokeStyle = '#475569';
+          ctx.lineWidth = 2;
+          ctx.strokeRect(zoomCX - zW/2, zoomCY - zH/2, zW, zH);
+          
+          // Notch on RIGHT Edge
+          ctx.save();
+          ctx.translate(zoomCX + zW/2, zoomCY);
+          ctx.rotate(Math.PI / 2);
+          ctx.fillStyle = 'white';
+          traceNotch(ctx, specimen, zoomPxPerMm);
+          ctx.fill();
+          ctx.stroke();
+          ctx.restore();
+
+          // Impact Arrow (Left)
+          ctx.fillStyle = '#ef4444';
+          ctx.font = 'bold 24px sans-serif';
+          ctx.fillText("→", zoomCX - zW/2 - 30, zoomCY + 8);
+          ctx.font = '10px monospace';
+          ctx.fillText(t.canvas.impact, zoomCX - zW/2 - 30, zoomCY + 20);
+
+          // Geometry Label
+          ctx.fillStyle = '#64748b';
+          ctx.textAlign = 'center';
+          ctx.fillText(specimenLabel(specimen, units, t), zoomCX, magY + magSize - 10);
+        }
       }
 
     };
 
-    // Animation Loop
-    const animate = () => {
-      if (state === SimulationState.IDLE) {
-        draw();
-        animationRef.current = requestAnimationFrame(animate);
-        return;
-      }
+    // Animation Loop: plays the engine trajectory in real time, the motion decides the phase changes
+    const animate = (now: number) => {
+      // Frame-rate independent step from the real elapsed time
+      const dt = lastFrameRef.current === null ? 0 : Math.min((now - lastFrameRef.current) / 1000, MAX_FRAME_DT);
+      lastFrameRef.current = now;
+      const physics = physicsState.current;
 
-      const dt = 0.016; 
-      
-      // Physics
       if (state === SimulationState.SWINGING_DOWN) {
-        const acc = -(GRAVITY / config.length) * Math.sin(physicsState.current.angle);
-        physicsState.current.velocity += acc * dt;
-        physicsState.current.angle += physicsState.current.velocity * dt;
-
-        if (physicsState.current.angle >= 0) {
-           physicsState.current.angle = 0;
-           setSpecimenBroken(true);
+        physics.time = Math.min(physics.time + dt, impactTime);
+        physics.angle = angleAtTime(trajectory, physics.time);
+        if (physics.time >= impactTime) {
+          physics.angle = 0;
+          setSpecimenBroken(result ? result.didBreak : true);
+          onPhaseChange(SimulationState.IMPACT);
         }
-      } 
-      else if (state === SimulationState.SWINGING_UP) {
-         const targetRad = finalAngleResult * (Math.PI / 180);
-         const dist = targetRad - physicsState.current.angle;
-         
-         if (Math.abs(dist) < 0.01) {
-            physicsState.current.velocity = 0;
-         } else {
-             physicsState.current.angle += (dist * 0.05);
-         }
       }
-      else if (state === SimulationState.OSCILLATING) {
-          const targetRad = finalAngleResult * (Math.PI / 180);
-          physicsState.current.time += dt;
-          const amplitude = 0.1 * Math.exp(-physicsState.current.time);
-          physicsState.current.angle = targetRad + Math.sin(physicsState.current.time * 8) * amplitude;
-          
-          if (physicsState.current.time > 3) {
-             onAnimationComplete();
-          }
+      else if (state === SimulationState.IMPACT) {
+        // The energy transfer is instantaneous; the hammer leaves with the residual velocity
+        onPhaseChange(SimulationState.SWINGING_UP);
+      }
+      else if (state === SimulationState.SWINGING_UP || state === SimulationState.FREE_SWING) {
+        // Without a specimen (free swing) the whole trajectory is a single swing to the other side
+        physics.time = Math.min(physics.time + dt, swingEndTime);
+        physics.angle = angleAtTime(trajectory, physics.time);
+        if (physics.time >= swingEndTime) {
+          // Highest point: the drag needle holds the reading and the hammer starts to fall back
+          physics.angle = finalAngleResult * (Math.PI / 180);
+          physics.velocity = 0;
+          onPhaseChange(SimulationState.OSCILLATING);
+        }
+      }
+      else if (state === SimulationState.OSCILLATING && !physics.settled) {
+        // Free return swing with the brake on, integrated in fixed steps
+        physics.brakeTime += dt;
+        while (physics.brakeTime >= BRAKE_STEP) {
+          ({ angle: physics.angle, velocity: physics.velocity } =
+            stepPendulum(physics.angle, physics.velocity, config.length, BRAKE_STEP, BRAKE_DAMPING));
+          physics.brakeTime -= BRAKE_STEP;
+        }
+        if (Math.abs(physics.angle) < REST_ANGLE && Math.abs(physics.velocity) < REST_VELOCITY) {
+          physics.settled = true;
+          onAnimationComplete();
+        }
       }
 
       draw();
       animationRef.current = requestAnimationFrame(animate);
     };
 
+    lastFrameRef.current = null;
     animationRef.current = requestAnimationFrame(animate);
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [config, material, state, finalAngleResult, specimenBroken, showMagnifier, onAnimationComplete]);
+  }, [config, specimen, material, state, finalAngleResult, trajectory, impactTime, swingEndTime, result, freeSwing, specimenBroken, showMagnifier, fracturePending, units, t, onPhaseChange, onAnimationComplete]);
 
   return (
     <div className="relative w-full h-[450px] bg-slate-50 rounded-lg border border-slate-200 shadow-inner overflow-hidden">
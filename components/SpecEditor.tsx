@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { X, Save } from 'lucide-react';
+import { AcceptanceSpec } from '../types';
+import { INDIVIDUAL_MIN_RATIO } from '../constants';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface SpecEditorProps {
+  spec: AcceptanceSpec;
+  title: string;
+  units: Units;
+  t: Messages;
+  onSave: (spec: AcceptanceSpec) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full text-sm border border-slate-300 rounded-lg px-2 py-1.5';
+
+const SpecEditor: React.FC<SpecEditorProps> = ({ spec, title, units, t, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AcceptanceSpec>(spec);
+  const messages = t.acceptance;
+  const energy = units.symbol('energy');
+
+  const error = !draft.name.trim()
+    ? messages.nameRequired
+    : !(draft.minAverage > 0 && draft.minIndividual > 0)
+      ? messages.valuesPositive
+      : draft.minIndividual > draft.minAverage
+        ? messages.individualAboveAverage
+        : null;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-900/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800">{title}</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{messages.name}</label>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-600 mb-1">{messages.temperature} ({units.symbol('temperature')})</label>
+            <input
+              type="number"
+              value={units.toInput('temperature', draft.temperature)}
+              onChange={(e) => setDraft({ ...draft, temperature: units.fromDisplay('temperature', Number(e.target.value)) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{messages.minAverage} ({energy})</label>
+              <input
+                type="number" min="0"
+                value={units.toInput('energy', draft.minAverage)}
+                onChange={(e) => setDraft({ ...draft, minAverage: units.fromDisplay('energy', Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-600 mb-1">{messages.minIndividual} ({energy})</label>
+              <div className="flex gap-1">
+                <input
+                  type="number" min="0"
+                  value={units.toInput('energy', draft.minIndividual)}
+                  onChange={(e) => setDraft({ ...draft, minIndividual: units.fromDisplay('energy', Number(e.target.value)) })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setDraft({ ...draft, minIndividual: INDIVIDUAL_MIN_RATIO * draft.minAverage })}
+                  className="text-xs font-bold px-2 rounded-lg border bg-white border-slate-300 text-slate-600 hover:bg-slate-50 whitespace-nowrap"
+                >
+                  {messages.apply70}
+                </button>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{messages.individualHint}</p>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+          <button onClick={onCancel} className="text-xs font-bold px-4 py-1.5 rounded-full border bg-white border-slate-300 text-slate-600 hover:bg-slate-50">
+            {t.editor.cancel}
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+            disabled={Boolean(error)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-4 py-1.5 rounded-full text-xs font-bold"
+          >
+            <Save className="w-3 h-3" /> {t.editor.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpecEditor;
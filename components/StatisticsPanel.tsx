@@ -0,0 +1,72 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ResultGroup } from '../analysis/resultGroups';
+import { specimenLabel } from '../physics/specimenModel';
+import { Units } from '../physics/units';
+import { Messages } from '../i18n';
+
+interface StatisticsPanelProps {
+  groups: ResultGroup[];
+  units: Units;
+  t: Messages;
+}
+
+const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ groups, units, t }) => {
+  const energy = (value: number, digits?: number) => units.fixed('energy', value, digits);
+  const symbol = units.symbol('energy');
+  return (
+    <div className="w-full">
+      <h3 className="text-sm font-semibold text-slate-500 mb-2">{t.statistics.title}</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-slate-600">
+          <thead>
+            <tr className="text-left text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="py-1">{t.statistics.group}</th>
+              <th className="py-1 text-right">n</th>
+              <th className="py-1 text-right">{t.statistics.mean} ({symbol})</th>
+              <th className="py-1 text-right">σ ({symbol})</th>
+              <th className="py-1 text-right">{t.statistics.range} ({symbol})</th>
+              <th className="py-1 text-right">CV (%)</th>
+              <th className="py-1 text-right">{t.statistics.ci95} ({symbol})</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ key, material, specimen, config, temperature, results, stats }) => (
+              <tr key={key} className="border-b border-slate-50 align-top">
+                <td className="py-1">
+                  <div className="flex items-center gap-2 font-medium text-slate-700">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: material.color }}></span>
+                    {material.name}
+                  </div>
+                  <span className="block text-[10px] text-slate-400">
+                    {units.format('temperature', temperature)} · {specimenLabel(specimen, units, t)} · {units.format('mass', config.mass)}, {units.format('length', config.length)}, {config.startAngle}°
+                  </span>
+                  {stats.outlier?.isOutlier && (
+                    <span className="flex items-center gap-1 text-[10px] text-amber-700 mt-0.5">
+                      <AlertTriangle className="w-3 h-3" />
+                      {t.statistics.outlier} {units.format('energy', results[stats.outlier.index].absorbedEnergy)}
+                      (G = {units.number(stats.outlier.g, 2)} &gt; {units.number(stats.outlier.critical, 2)})
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-right font-mono">{stats.count}</td>
+                <td className="py-1 text-right font-mono">{energy(stats.mean)}</td>
+                <td className="py-1 text-right font-mono">{stats.count > 1 ? energy(stats.std, 2) : '---'}</td>
+                <td className="py-1 text-right font-mono">{energy(stats.min)}–{energy(stats.max)}</td>
+                <td className="py-1 text-right font-mono">{stats.count > 1 ? units.number(stats.cv, 1) : '---'}</td>
+                <td className="py-1 text-right font-mono">
+                  {stats.ci95 ? `${energy(stats.ci95[0])} – ${energy(stats.ci95[1])}` : '---'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {groups.some(g => g.stats.count < 3) && (
+        <p className="text-[10px] text-slate-400 mt-2">{t.statistics.seriesNote}</p>
+      )}
+    </div>
+  );
+};
+
+export default StatisticsPanel;
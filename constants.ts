@@ -1,19 +1,94 @@
-import { Material, PendulumConfig } from './types';
+import { AcceptanceSpec, AppSettings, ConfigLimits, MachineProfile, Material, NotchType, PendulumConfig, SpecimenGeometry, StrikerRadius } from './types';
+
+export const MACHINE_CAPACITIES = [150, 300, 450]; // J, nominal energy classes
+
+export const STRIKER_RADII: StrikerRadius[] = [2, 8];
+
+// Impact velocity allowed by the standard that goes with each striker
+export const STRIKERS: Record<StrikerRadius, { standard: string; velocityRange: [number, number] }> = {
+  2: { standard: 'ISO 148-1', velocityRange: [5, 5.5] },
+  8: { standard: 'ASTM E23', velocityRange: [3, 6] },
+};
+
+export const DEFAULT_MACHINE: MachineProfile = {
+  nominalEnergy: 300,
+  strikerRadius: 2,
+  frictionTorque: 0.2,
+  windageCoefficient: 0.003,
+};
+
+// Frictionless machine, assumed for results recorded before the losses were modelled
+export const NO_MACHINE_LOSSES: Pick<MachineProfile, 'frictionTorque' | 'windageCoefficient'> = {
+  frictionTorque: 0,
+  windageCoefficient: 0,
+};
 
 export const DEFAULT_CONFIG: PendulumConfig = {
   mass: 20, // kg
   length: 0.8, // meters
   startAngle: 135, // degrees
+  temperature: 20, // °C
+  machine: DEFAULT_MACHINE,
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  analysisProvider: 'gemini',
+  unitSystem: 'SI',
+  language: 'es',
+  acceptanceSpecId: null,
+  exerciseMode: false,
+};
+
+export const MIN_TEST_TEMPERATURE = -100; // °C
+export const MAX_TEST_TEMPERATURE = 100; // °C
+
+// Ranges of the configuration sliders; challenges may narrow them
+export const DEFAULT_CONFIG_LIMITS: ConfigLimits = {
+  mass: { min: 5, max: 50 },
+  length: { min: 0.5, max: 1.5 },
+  startAngle: { min: 90, max: 160 },
+  temperature: { min: MIN_TEST_TEMPERATURE, max: MAX_TEST_TEMPERATURE },
 };
 
 export const GRAVITY = 9.81;
 
+export const SPECIMEN_LENGTH = 55; // mm
+
+export const SPECIMEN_WIDTHS = [10, 7.5, 5, 2.5]; // mm, standard and sub-size
+
+export const NOTCH_PROFILES: Record<NotchType, { depth: number; radius: number }> = {
+  V: { depth: 2, radius: 0.25 },
+  U: { depth: 5, radius: 1 },
+  Keyhole: { depth: 5, radius: 1 },
+};
+
+export const DEFAULT_SPECIMEN: SpecimenGeometry = {
+  width: 10,
+  thickness: 10,
+  notchType: 'V',
+  notchDepth: NOTCH_PROFILES.V.depth,
+  notchRadius: NOTCH_PROFILES.V.radius,
+};
+
+// EN 10025 accepts one value of the set below the specified mean if it keeps 70 % of it
+export const INDIVIDUAL_MIN_RATIO = 0.7;
+
+// Impact requirements of common structural and low-temperature pipe steels (full-size specimens)
+export const ACCEPTANCE_SPECS: AcceptanceSpec[] = [
+  { id: 'en10025-s355jr', name: 'EN 10025-2 S355JR', temperature: 20, minAverage: 27, minIndividual: INDIVIDUAL_MIN_RATIO * 27 },
+  { id: 'en10025-s355j0', name: 'EN 10025-2 S355J0', temperature: 0, minAverage: 27, minIndividual: INDIVIDUAL_MIN_RATIO * 27 },
+  { id: 'en10025-s355j2', name: 'EN 10025-2 S355J2', temperature: -20, minAverage: 27, minIndividual: INDIVIDUAL_MIN_RATIO * 27 },
+  { id: 'en10025-s355k2', name: 'EN 10025-2 S355K2', temperature: -20, minAverage: 40, minIndividual: INDIVIDUAL_MIN_RATIO * 40 },
+  { id: 'astm-a333-gr6', name: 'ASTM A333 Gr. 6', temperature: -45, minAverage: 18, minIndividual: 14 },
+  { id: 'astm-a333-gr3', name: 'ASTM A333 Gr. 3', temperature: -100, minAverage: 18, minIndividual: 14 },
+];
+
 export const MATERIALS: Material[] = [
   {
     id: 'steel-1045',
     name: 'Acero AISI 1045',
     type: 'Metal',
-    baseToughness: 180, // High toughness
+    transition: { upperShelf: 180, lowerShelf: 10, transitionTemp: -15, width: 15 }, // BCC: sharp transition
     color: '#64748b',
     description: 'Acero de medio carbono. Alta resistencia y buena tenacidad al impacto.',
     fractureType: 'Ductile'
@@ -22,7 +97,7 @@ export const MATERIALS: Material[] = [
     id: 'al-6061',
     name: 'Aluminio 6061',
     type: 'Metal',
-    baseToughness: 90, // Medium toughness
+    transition: { upperShelf: 90, lowerShelf: 80, transitionTemp: -200, width: 60 }, // FCC: no transition
     color: '#cbd5e1',
     description: 'Aleación de aluminio endurecida. Versátil, ligera y tenacidad moderada.',
     fractureType: 'Mixed'
@@ -31,7 +106,7 @@ export const MATERIALS: Material[] = [
     id: 'cast-iron',
     name: 'Hierro Fundido Gris',
     type: 'Metal',
-    baseToughness: 15, // Very brittle
+    transition: { upperShelf: 18, lowerShelf: 12, transitionTemp: 150, width: 60 }, // Brittle over the whole range
     color: '#475569',
     description: 'Material frágil con baja resistencia al impacto pero alta amortiguación.',
     fractureType: 'Brittle'
@@ -40,7 +115,7 @@ export const MATERIALS: Material[] = [
     id: 'titanium-grade5',
     name: 'Titanio Grado 5',
     type: 'Metal',
-    baseToughness: 210, // Very high
+    transition: { upperShelf: 210, lowerShelf: 120, transitionTemp: -80, width: 50 }, // HCP: gradual transition
     color: '#94a3b8',
     description: 'Excelente relación resistencia-peso y resistencia a la corrosión.',
     fractureType: 'Ductile'
@@ -49,7 +124,7 @@ export const MATERIALS: Material[] = [
     id: 'pvc-rigid',
     name: 'PVC Rígido',
     type: 'Polímero',
-    baseToughness: 10, // Brittle at high speed impact
+    transition: { upperShelf: 30, lowerShelf: 10, transitionTemp: 60, width: 20 }, // Toughens near glass transition
     color: '#e2e8f0',
     description: 'Termoplástico común. Comportamiento frágil bajo impacto a alta velocidad.',
     fractureType: 'Brittle'
@@ -0,0 +1,517 @@
+import { Messages } from './es';
+
+export const en: Messages = {
+  languageName: 'English',
+  locale: 'en-US',
+
+  app: {
+    subtitle: 'Interactive Impact Test Simulator',
+    analysis: 'Analysis',
+    analysisTitle: 'Provider of the analysis report',
+    units: 'Units',
+    unitsTitle: 'Displayed units; data is always stored in SI',
+    language: 'Language',
+    languageTitle: 'Language of the interface and of the analysis report',
+    systemReady: 'System Ready',
+    testChamber: 'Test Chamber',
+    startTest: 'Start Test',
+    freeSwing: 'Free Swing',
+    freeSwingTitle: 'Swing without a specimen to measure the friction and windage losses',
+    hideMagnifier: 'Hide Magnifier',
+    showSpecimen: 'Show Specimen',
+    showSpecimenTitle: 'Show specimen detail',
+    showResults: 'Show Results',
+    showResultsTitle: 'Go to results',
+
+    testSetup: 'Test Setup',
+    pendulumParameters: 'Pendulum Parameters',
+    nominalCapacity: 'Nominal Capacity',
+    striker: 'Striker',
+    friction: 'Friction',
+    windage: 'Windage',
+    hammerMass: 'Hammer Mass',
+    armLength: 'Arm Length',
+    startAngle: 'Release Angle (Degrees)',
+    availableEnergy: 'Available energy',
+    impactVelocity: 'impact velocity',
+    freeSwingReading: 'Free swing',
+    freeSwingLosses: 'losses',
+    freeSwingShare: (percent: string) => `${percent} % of the available energy`,
+    instrumented: 'Instrumented striker (ISO 14556)',
+
+    testConditions: 'Test Conditions',
+    testTemperature: 'Test Temperature',
+
+    specimenGeometry: 'Specimen Geometry',
+    section: 'Section',
+    standardSize: ' (standard)',
+    notch: 'Notch',
+    ligament: 'Section below the notch:',
+
+    reproducibility: 'Reproducibility',
+    sessionSeed: 'Session Seed',
+    randomSeed: 'Random',
+    generateSeed: 'Generate',
+    seedHint: 'With the same seed the whole class gets the same values for each material.',
+
+    specimenMaterial: 'Specimen Material',
+    customMaterial: 'Custom',
+    noDescription: 'No description.',
+    newMaterialTitle: 'New Material',
+    cloneMaterialTitle: 'Clone Material',
+    editMaterialTitle: 'Edit Material',
+    newMaterial: 'New',
+    cloneMaterial: 'Clone',
+    editMaterial: 'Edit',
+    deleteMaterial: 'Delete',
+    importFile: 'Import',
+    exportFile: 'Export',
+    copyName: (name: string) => `${name} (copy)`,
+    confirmDeleteMaterial: (name: string) => `Delete the material "${name}"? Tests already recorded keep it.`,
+    builtInSkipped: (name: string) => `"${name}" is a built-in material and was skipped`,
+    materialsNotImported: 'Some materials were not imported:',
+    materialRow: (row: number) => `Material ${row}: `,
+
+    seriesMode: 'Series Mode',
+    seriesHint: 'Uses the machine and geometry set above.',
+
+    testResults: 'Test Results',
+    initialEnergy: 'Initial Energy ($E_p$)',
+    absorbedEnergy: 'Absorbed Energy (KV)',
+    readingMinusLosses: (reading: string, losses: string) => `Reading ${reading} − losses ${losses}`,
+    resilience: 'Notch Toughness',
+    resilienceTitle: 'Absorbed energy per unit of cross-section area at the notch.',
+    lateralExpansion: 'Lateral Expansion',
+    shearFracture: 'Shear Fracture',
+    energySplit: 'Energy Split (Instrumented)',
+    initiation: 'Initiation',
+    propagation: 'Propagation',
+    replayedTest: 'Replay of a recorded test',
+    testNumber: (id: string) => `Test #${id}`,
+    seed: 'Seed',
+    invalidTest: 'Invalid test:',
+    warning: 'Warning:',
+    interpretation: 'Interpretation:',
+    behaviour: (temperature: string) => `At ${temperature} the material behaved in a`,
+
+    defaultSessionName: (number: number) => `Session ${number}`,
+    recentHistory: 'Recent History',
+    clearHistory: 'Clear',
+    importSummary: (added: number, skipped: number, errors: number) =>
+      `${added} tests imported${skipped > 0 ? `, ${skipped} already present` : ''}${errors > 0 ? `, ${errors} with errors` : ''}.`,
+    fileRow: (row: number) => `Row ${row}: `,
+    noData: 'No data recorded.',
+    replayTitle: (seed: number) => `Repeat test (seed ${seed})`,
+
+    comparativeAnalysis: 'Comparative Analysis',
+    generateReport: 'Generate Report',
+    noChartData: 'Run several tests to compare materials.',
+    chartMaterials: 'Materials:',
+    noMaterialSelected: 'Select at least one material to chart.',
+    analyzing: 'Analyzing Material Properties...',
+    aiReport: 'Generate AI Report',
+    automaticReport: 'Generate Automatic Report',
+  },
+
+  sessions: {
+    active: 'Active session',
+    create: 'New session',
+    rename: 'Rename session',
+    remove: 'Delete session',
+    createPrompt: 'Name of the new session:',
+    renamePrompt: 'New name of the session:',
+    confirmRemove: (name: string) => `Delete the session "${name}" and all its tests?`,
+  },
+
+  series: {
+    specimensPerCondition: 'Specimens per condition',
+    vary: 'Vary',
+    nothing: 'Nothing',
+    startAngle: 'Release angle',
+    temperature: 'Temperature',
+    animated: 'Animate each test',
+    run: (total: number) => `Run Series (${total} tests)`,
+    paused: 'Series paused',
+    running: 'Running series...',
+    resume: 'Resume',
+    pause: 'Pause',
+    cancel: 'Cancel',
+    selectMaterial: 'Select at least one material.',
+    notNumeric: 'The list of values contains non-numeric entries.',
+    noValues: 'Enter at least one value.',
+    outOfRange: (min: string, max: string) => `Values must be between ${min} and ${max}.`,
+  },
+
+  editor: {
+    name: 'Name',
+    type: 'Type',
+    color: 'Color',
+    toughness: 'Toughness (standard 10×10 V specimen)',
+    upperShelf: 'Upper shelf',
+    lowerShelf: 'Lower shelf',
+    transitionTemp: 'Transition temp.',
+    transitionWidth: 'Transition width',
+    roomBehaviour: 'Behaviour at room temperature',
+    description: 'Description',
+    nameRequired: 'The name is required.',
+    shelvesPositive: 'The energy shelves must be greater than zero.',
+    lowerAboveUpper: 'The lower shelf cannot exceed the upper one.',
+    widthPositive: 'The transition width must be greater than zero.',
+    cancel: 'Cancel',
+    save: 'Save',
+  },
+
+  statistics: {
+    title: 'Statistical Summary by Material and Condition',
+    group: 'Material / Condition',
+    mean: 'Mean',
+    range: 'Min–Max',
+    ci95: '95% CI',
+    outlier: 'Outlier (Grubbs, α = 0.05):',
+    seriesNote: 'Charpy results are assessed on sets of at least 3 specimens; outlier detection needs n ≥ 3.',
+  },
+
+  charts: {
+    energy: 'Energy',
+    absorbedEnergy: 'Absorbed Energy',
+    energyComparison: (symbol: string) => `Absorbed Energy (${symbol}) - Comparison`,
+    energyMeanStd: (symbol: string) => `Mean Absorbed Energy ± σ by Material (${symbol})`,
+    boxPlotTitle: (symbol: string) => `Absorbed Energy Distribution by Material (${symbol})`,
+    energyBalanceTitle: (symbol: string) => `Absorbed vs Available Energy (${symbol})`,
+    angleScatterTitle: 'Final Angle vs Absorbed Energy',
+    modes: {
+      individual: 'Individual',
+      byMaterial: 'Mean ± σ',
+      boxPlot: 'Box plot',
+      energyBalance: 'Balance',
+      angleScatter: 'Angle',
+    },
+    remainingEnergy: 'Rest of the available energy',
+    finalAngle: 'Final angle',
+    median: 'Median',
+    whiskers: 'Whiskers',
+    outliers: 'Outliers',
+    transitionTitle: 'Ductile-to-Brittle Transition Curve (Energy vs Temperature)',
+    temperature: 'Temperature',
+    fittedCurve: (material: string, specimen: string) => `${material} (fit, ${specimen})`,
+    fitHint: 'Test at least 4 specimens at 3 different temperatures of one material to fit the curve.',
+    upperShelf: 'Upper',
+    lowerShelf: 'Lower',
+    forceCurve: (axis: 'displacement' | 'time', material: string, temperature: string) =>
+      `${axis === 'displacement' ? 'Force–Displacement' : 'Force–Time'} Curve (${material}, ${temperature})`,
+    displacement: 'Displacement',
+    time: 'Time',
+    force: 'Force',
+  },
+
+  canvas: {
+    notch: 'notch',
+    freeSwing: 'Free swing',
+    start: 'h0 (Start)',
+    final: 'hf (End)',
+    frontView: 'Front View (Longitudinal)',
+    impact: 'Impact',
+    fractureSurface: 'Fracture Surface',
+    crossSection: 'Cross Section',
+    shear: 'Shear',
+  },
+
+  report: {
+    includeAnalysis: 'Include analysis',
+    print: 'Print / PDF',
+    close: 'Close',
+    title: 'Charpy Impact Test Report',
+    subtitle: 'According to ISO 148-1 / ASTM E23 — Charpy pendulum (simulated)',
+    session: 'Session',
+    date: 'Report date',
+    laboratory: 'Laboratory',
+    operator: 'Operator',
+    specimenCount: 'No. of specimens tested',
+    machine: 'Testing Machine',
+    capacity: 'Capacity',
+    striker: 'Striker',
+    mass: 'Mass',
+    armLength: 'Arm length',
+    dropAngle: 'Release angle (°)',
+    availableEnergy: 'Available energy',
+    impactVelocity: 'Impact velocity',
+    freeSwingLoss: 'Free-swing losses',
+    perSpecimen: 'Results per Specimen',
+    specimenNote: (length: string) =>
+      `Specimen length ${length}. Section given as height × width and notch type. Energy corrected for the machine losses; the reading is the uncorrected PE1 − PE2.`,
+    number: 'No.',
+    material: 'Material',
+    specimen: 'Specimen',
+    reading: 'Reading',
+    energy: 'Energy',
+    shear: 'Shear (%)',
+    breakage: 'Broken',
+    appearance: 'Appearance',
+    validity: 'Validity',
+    broken: 'Yes',
+    unbroken: 'Unbroken',
+    invalid: 'Invalid',
+    withWarnings: 'With warnings',
+    valid: 'Valid',
+    specimenIssue: (number: number, message: string) => `Specimen ${number}: ${message}`,
+    averages: 'Mean Values by Material',
+    mean: 'Mean',
+    min: 'Min.',
+    max: 'Max.',
+    chart: 'Chart',
+    analysis: 'Analysis',
+    footer: 'Generated with CharpySim Lab. Simulated results, for teaching purposes.',
+  },
+
+  analysis: {
+    providers: {
+      gemini: 'Gemini (online)',
+      offline: 'Offline (rules)',
+    },
+    errors: {
+      'no-results': 'There are no results to analyze.',
+      'missing-api-key': 'No Gemini API key is configured. Set GEMINI_API_KEY or use the offline analyzer.',
+      'request-failed': 'The analysis could not be generated. Check the connection and the provider settings.',
+      'empty-response': 'The analysis provider returned no text.',
+    },
+    ranking: '1. Toughness ranking',
+    number: 'No.',
+    material: 'Material',
+    mean: 'Mean',
+    meanEnergy: 'Mean energy',
+    comment: 'Comment',
+    fractureInterpretation: '2. Fracture interpretation',
+    applications: '3. Applications',
+    warnings: 'Data warnings',
+  },
+
+  offline: {
+    onlyOneMaterial: (material: string) => `Only ${material} has been tested; add other materials to compare them.`,
+    clearlyTougher: (toughest: string, toughestMean: string, ratio: string | null, weakest: string, weakestMean: string) =>
+      `${toughest} is the toughest, with a mean of ${toughestMean}, ${ratio !== null ? `${ratio} times` : 'far above'} that of ${weakest} (${weakestMean}).`,
+    similarMeans: (weakest: string, weakestMean: string, toughest: string, toughestMean: string) =>
+      `The mean energies are similar: from ${weakestMean} (${weakest}) to ${toughestMean} (${toughest}).`,
+    sameTemperature: (temperature: string, ranking: string) => `At the same temperature (${temperature}): ${ranking}.`,
+    noCommonTemperature: 'The materials were not tested at a common temperature, so the means mix different conditions.',
+    mechanism: 'Absorbed energy, shear area and lateral expansion rise together: ductile fracture spends energy deforming the ligament plastically, while brittle cleavage separates it with almost no deformation.',
+    tests: (count: number, temperatures: string) => `${count} test(s) between ${temperatures}`,
+    upperShelf: (shear: string, expansion: string) =>
+      `upper shelf over the whole tested range: ductile fracture (${shear} % shear, lateral expansion ${expansion})`,
+    lowerShelf: (shear: string, expansion: string) =>
+      `lower shelf: brittle cleavage fracture with little deformation (${shear} % shear, lateral expansion ${expansion})`,
+    transition: (temperature: [string, string], energy: [string, string], shear: [number, number], expansion: [string, string]) =>
+      `transition region: from ${temperature[0]} to ${temperature[1]} the energy goes from ${energy[0]} to ${energy[1]}, ` +
+      `the shear from ${shear[0]} % to ${shear[1]} % and the lateral expansion from ${expansion[0]} to ${expansion[1]}`,
+    fracture: (types: string) => `${types} fracture`,
+    t27J: (energy: string, temperature: string) => `the fitted curve reaches ${energy} at ${temperature} (T27J)`,
+    moreTemperatures: 'more temperatures are needed to locate the transition',
+    toughestUse: (fullyDuctile: boolean) =>
+      `The choice for parts under impact or dynamic loads${fullyDuctile ? ', with no loss of toughness over the tested range' : ', checking the minimum service temperature'}.`,
+    avoidBelow: (temperature: string) =>
+      `Avoid it in applications with impact at ${temperature} or below; suitable for static loads or parts protected from blows.`,
+    weakestUse: 'The lowest toughness of the set; keep it for static or moderate loads.',
+    unbroken: (count: number) => `${count} unbroken specimen(s): their energy is only a lower bound.`,
+    invalid: (count: number) => `${count} test(s) invalid according to the standard; check the machine capacity.`,
+    outlier: (material: string, temperature: string, energy: string) => `Possible outlier (Grubbs) in ${material} at ${temperature}: ${energy}.`,
+    fewTests: 'Few tests: the conclusions are only indicative.',
+  },
+
+  gemini: {
+    rankingDescription: 'Materials ordered from toughest to least tough',
+    meanEnergyDescription: (symbol: string) => `Mean absorbed energy in ${symbol}`,
+    commentDescription: 'Short comment on the material',
+    fractureDescription: 'Relation between energy, temperature and fracture type',
+    warningsDescription: 'Suspicious or unreliable data; empty if there is none',
+    material: 'Material',
+    fracture: 'fracture',
+    temperature: 'Test Temperature',
+    initialEnergy: 'Initial Energy',
+    absorbedEnergy: 'Absorbed Energy',
+    lateralExpansion: 'Lateral Expansion',
+    shear: 'Shear Fracture',
+    finalAngle: 'Final Angle',
+    degrees: 'degrees',
+    broken: 'Specimen broken',
+    yes: 'yes',
+    no: 'no',
+    prompt: (results: string, symbols: string) => `
+    Act as a Senior Materials Engineer analyzing Charpy Impact Test data.
+
+    Here are the recent test results:
+    ${results}
+
+    Please provide a concise technical analysis in English, as JSON with these fields:
+    1. "ranking": the materials ordered by toughness (mean absorbed energy) with a short comment on each.
+    2. "fractureInterpretation": the relation between the absorbed energy, the test temperature and the fracture type (Ductile vs Brittle) seen in the data, supported by the lateral expansion and the shear percentage.
+    3. "applications": practical implications, where would you use each material based on these results?
+    4. "warnings": suspicious data (outliers, unbroken specimens, results inconsistent with the temperature).
+
+    Express all values in the units of the data (${symbols}).
+    Keep a professional tone that is accessible to engineering students.
+  `,
+  },
+
+  validity: {
+    availableAboveCapacity: (available: string, nominal: string) => `Available energy ${available} above the nominal capacity (${nominal}).`,
+    velocityOutOfRange: (velocity: string, range: string, standard: string) => `Impact velocity ${velocity} outside the ${range} range of ${standard}.`,
+    unbroken: 'The specimen did not break: the absorbed energy is only a lower bound.',
+    absorbedAboveLimit: (absorbed: string, percent: number, nominal: string) =>
+      `Absorbed energy ${absorbed} above ${percent} % of the nominal capacity (${nominal}).`,
+  },
+
+  acceptance: {
+    title: 'Specification',
+    none: 'No specification',
+    custom: 'Custom',
+    requirement: (average: string, individual: string, temperature: string) => `Mean ≥ ${average}, individual ≥ ${individual} at ${temperature}`,
+    status: { pass: 'Pass', fail: 'Fail', incomplete: 'Incomplete' },
+    verdictFor: (material: string, spec: string) => `${material} against ${spec}`,
+    needsSet: (count: number, required: number, temperature: string) =>
+      `${count} of ${required} valid full-size specimens tested at ${temperature}.`,
+    averageBelow: (average: string, min: string) => `The mean ${average} is below the minimum of ${min}.`,
+    severalBelowAverage: (count: number, min: string) => `${count} values below ${min}; only one is allowed.`,
+    individualBelow: (value: string, min: string) => `The value ${value} is below the individual minimum of ${min}.`,
+    excluded: (count: number) => `${count} test(s) at that temperature do not count (invalid or not full-size V-notch).`,
+    newSpec: 'New',
+    editSpec: 'Edit',
+    deleteSpec: 'Delete',
+    newSpecTitle: 'New Specification',
+    editSpecTitle: 'Edit Specification',
+    confirmDelete: (name: string) => `Delete the specification "${name}"?`,
+    name: 'Name',
+    temperature: 'Test temperature',
+    minAverage: 'Minimum mean',
+    minIndividual: 'Individual minimum',
+    individualHint: 'One value may fall below the required mean, never below the individual minimum (EN 10025: 70 % of the mean).',
+    apply70: 'Use 70 %',
+    nameRequired: 'The name is required.',
+    valuesPositive: 'The minimum values must be greater than zero.',
+    individualAboveAverage: 'The individual minimum cannot exceed the required mean.',
+    reportTitle: 'Specification Compliance',
+    values: 'Values',
+    verdict: 'Verdict',
+  },
+  exercise: {
+    mode: 'Exercise',
+    modeTitle: 'Hide the absorbed energy until the student works it out',
+    title: 'Exercise: work out the absorbed energy',
+    intro: 'Using the test data, calculate each quantity (g = 9.81 m/s²).',
+    mass: 'Mass m',
+    length: 'Length L',
+    startAngle: 'Release angle α',
+    finalAngle: 'Dial reading β',
+    losses: 'Machine losses',
+    quantities: {
+      h0: 'Initial height h0',
+      hf: 'Final height hf',
+      pe1: 'Initial energy PE1',
+      pe2: 'Final energy PE2',
+      kv: 'Absorbed energy KV',
+    },
+    submit: 'Check',
+    yourAnswer: 'Your answer',
+    expected: 'Correct',
+    blank: 'no answer',
+    tolerance: (percent: number) => `Answers within ${percent} % are accepted.`,
+    score: (correct: number, total: number) => `${correct} of ${total} correct`,
+    sessionScore: (correct: number, total: number) => `Session: ${correct} of ${total} correct`,
+    solution: 'Solution',
+    pending: 'Awaiting the exercise',
+    exportScores: 'Scores',
+  },
+  challenge: {
+    title: 'Challenge',
+    defaultCodeName: 'Sample X',
+    create: 'Create Challenge',
+    load: 'Load Challenge',
+    editorTitle: 'New Challenge',
+    editorHint: 'The student tests the material under its code name and chooses among every material in the library.',
+    codeName: 'Code name',
+    hiddenMaterial: 'Hidden material',
+    limits: 'Machine limits',
+    min: 'Min.',
+    max: 'Max.',
+    export: 'Export Challenge',
+    codeNameRequired: 'The code name is required.',
+    rangeInverted: (setting: string) => `${setting}: the minimum cannot exceed the maximum.`,
+    rangeOutside: (setting: string, min: string, max: string) => `${setting}: the limits must lie between ${min} and ${max}.`,
+    active: (codeName: string) => `Challenge: ${codeName}`,
+    hint: 'Test the sample at several temperatures and identify the material.',
+    limitsLocked: 'The machine settings are limited by the challenge.',
+    identification: 'Identified material',
+    choose: 'Choose a material',
+    reasoning: 'Reasoning',
+    reasoningPlaceholder: 'Upper and lower shelves, transition temperature, fracture appearance…',
+    submit: 'Submit',
+    needsTests: 'Test at least one specimen before submitting.',
+    submitted: 'Answer submitted. Download it and hand it to your instructor for grading.',
+    answerWas: (codeName: string, material: string) => `${codeName} was ${material}.`,
+    yourChoice: (material: string) => `Your answer: ${material}`,
+    exportAnswer: 'Download Answer',
+    leave: 'Leave',
+    confirmLeave: (codeName: string) => `Leave the challenge "${codeName}"? The answer cannot be recovered.`,
+    loadFailed: 'The file could not be loaded:',
+    gradeAnswer: 'Grade Answer',
+    gradedAnswers: 'Graded answers',
+    otherChallenge: (file: string) => `"${file}" answers a different challenge.`,
+  },
+  import: {
+    notANumber: (field: string) => `"${field}" is not a valid number`,
+    notPositive: (field: string) => `"${field}" must be greater than zero`,
+    notBoolean: (field: string) => `"${field}" must be true or false`,
+    empty: (field: string) => `"${field}" is empty`,
+    notOneOf: (field: string, allowed: string) => `"${field}" must be one of: ${allowed}`,
+    invalidDate: (field: string) => `"${field}" is not a valid date`,
+    lowerAboveUpper: 'the lower shelf cannot exceed the upper one',
+    minAboveMax: (field: string) => `in "${field}" the minimum cannot exceed the maximum`,
+    unknownMaterial: (id: string, reason: string) => `unknown material "${id}" (${reason})`,
+    negativeLosses: 'the machine losses cannot be negative',
+    negativeEnergy: 'the absorbed energy cannot be negative',
+    energyAboveInitial: 'the absorbed energy exceeds the initial energy',
+    unexpected: (error: string) => `unexpected error: ${error}`,
+    emptyFile: 'The file is empty',
+    missingColumns: (columns: string) => `Missing columns: ${columns}`,
+    invalidJson: 'The file is not valid JSON',
+    unknownFormat: (format: string) => `Unknown format: ${format}`,
+    unsupportedVersion: (version: number, max: number) => `Version ${version} not supported (max. ${max})`,
+    missingList: (list: string) => `The "${list}" list was not found`,
+  },
+
+  unitSystems: {
+    SI: 'SI (J, kg, m, °C)',
+    US: 'US customary (ft·lbf, lb, ft, °F)',
+  },
+
+  fracture: {
+    Ductile: 'Ductile',
+    Brittle: 'Brittle',
+    Mixed: 'Mixed',
+  },
+
+  notches: {
+    V: 'V-notch (2 mm, r 0.25)',
+    U: 'U-notch (5 mm, r 1)',
+    Keyhole: 'Keyhole (5 mm, r 1)',
+  },
+  keyholeNotch: 'keyhole',
+
+  strikers: {
+    2: '2 mm striker (ISO 148-1)',
+    8: '8 mm striker (ASTM E23)',
+  },
+
+  materialDescriptions: {
+    'steel-1045': 'Medium carbon steel. High strength and good impact toughness.',
+    'al-6061': 'Precipitation-hardened aluminium alloy. Versatile, light and moderately tough.',
+    'cast-iron': 'Brittle material with low impact strength but high damping.',
+    'titanium-grade5': 'Excellent strength-to-weight ratio and corrosion resistance.',
+    'pvc-rigid': 'Common thermoplastic. Brittle behaviour under high-speed impact.',
+  },
+
+  materialTypes: {
+    Metal: 'Metal',
+    Polímero: 'Polymer',
+    Cerámico: 'Ceramic',
+    Compuesto: 'Composite',
+  },
+};
@@ -0,0 +1,524 @@
+// Spanish catalog, the reference for the other languages.
+// Values are already formatted by the caller (numbers with their units), so entries only arrange words.
+export const es = {
+  languageName: 'Español',
+  locale: 'es-ES',
+
+  app: {
+    subtitle: 'Simulador Interactivo de Ensayo de Impacto',
+    analysis: 'Análisis',
+    analysisTitle: 'Proveedor del informe de análisis',
+    units: 'Unidades',
+    unitsTitle: 'Unidades mostradas; los datos se guardan siempre en SI',
+    language: 'Idioma',
+    languageTitle: 'Idioma de la interfaz y del informe de análisis',
+    systemReady: 'Sistema Listo',
+    testChamber: 'Cámara de Ensayo',
+    startTest: 'Iniciar Ensayo',
+    freeSwing: 'Oscilación Libre',
+    freeSwingTitle: 'Oscilación sin probeta para medir las pérdidas por fricción y resistencia del aire',
+    hideMagnifier: 'Ocultar Lupa',
+    showSpecimen: 'Ver Probeta',
+    showSpecimenTitle: 'Ver detalle de probeta',
+    showResults: 'Ver Resultados',
+    showResultsTitle: 'Ir a resultados',
+
+    testSetup: 'Configuración del Ensayo',
+    pendulumParameters: 'Parámetros del Péndulo',
+    nominalCapacity: 'Capacidad Nominal',
+    striker: 'Percutor',
+    friction: 'Fricción',
+    windage: 'Resist. aire',
+    hammerMass: 'Masa de la Maza',
+    armLength: 'Longitud del Brazo',
+    startAngle: 'Ángulo Inicial (Grados)',
+    availableEnergy: 'Energía disponible',
+    impactVelocity: 'velocidad de impacto',
+    freeSwingReading: 'Oscilación libre',
+    freeSwingLosses: 'pérdidas',
+    freeSwingShare: (percent: string) => `${percent} % de la energía disponible`,
+    instrumented: 'Percutor instrumentado (ISO 14556)',
+
+    testConditions: 'Condiciones del Ensayo',
+    testTemperature: 'Temperatura de Ensayo',
+
+    specimenGeometry: 'Geometría de la Probeta',
+    section: 'Sección',
+    standardSize: ' (estándar)',
+    notch: 'Entalla',
+    ligament: 'Sección bajo la entalla:',
+
+    reproducibility: 'Reproducibilidad',
+    sessionSeed: 'Semilla de Sesión',
+    randomSeed: 'Aleatoria',
+    generateSeed: 'Generar',
+    seedHint: 'Con la misma semilla toda la clase obtiene los mismos valores para cada material.',
+
+    specimenMaterial: 'Material de la Probeta',
+    customMaterial: 'Propio',
+    noDescription: 'Sin descripción.',
+    newMaterialTitle: 'Nuevo Material',
+    cloneMaterialTitle: 'Clonar Material',
+    editMaterialTitle: 'Editar Material',
+    newMaterial: 'Nuevo',
+    cloneMaterial: 'Clonar',
+    editMaterial: 'Editar',
+    deleteMaterial: 'Eliminar',
+    importFile: 'Importar',
+    exportFile: 'Exportar',
+    copyName: (name: string) => `${name} (copia)`,
+    confirmDeleteMaterial: (name: string) => `¿Eliminar el material "${name}"? Los ensayos ya registrados lo conservan.`,
+    builtInSkipped: (name: string) => `"${name}" es un material predefinido y se ha omitido`,
+    materialsNotImported: 'Algunos materiales no se importaron:',
+    materialRow: (row: number) => `Material ${row}: `,
+
+    seriesMode: 'Modo Serie',
+    seriesHint: 'Usa la máquina y la geometría configuradas arriba.',
+
+    testResults: 'Resultados del Ensayo',
+    initialEnergy: 'Energía Inicial ($E_p$)',
+    absorbedEnergy: 'Energía Absorbida (KV)',
+    readingMinusLosses: (reading: string, losses: string) => `Lectura ${reading} − pérdidas ${losses}`,
+    resilience: 'Resiliencia (Tenacidad de Entalla)',
+    resilienceTitle: 'Energía absorbida por unidad de área de la sección transversal en la entalla.',
+    lateralExpansion: 'Expansión Lateral',
+    shearFracture: 'Fractura por Cizalladura',
+    energySplit: 'Reparto de Energía (Instrumentado)',
+    initiation: 'Iniciación',
+    propagation: 'Propagación',
+    replayedTest: 'Reproducción de ensayo registrado',
+    testNumber: (id: string) => `Ensayo #${id}`,
+    seed: 'Semilla',
+    invalidTest: 'Ensayo no válido:',
+    warning: 'Aviso:',
+    interpretation: 'Interpretación:',
+    behaviour: (temperature: string) => `A ${temperature} el material se comportó de manera`,
+
+    defaultSessionName: (number: number) => `Sesión ${number}`,
+    recentHistory: 'Historial Reciente',
+    clearHistory: 'Limpiar',
+    importSummary: (added: number, skipped: number, errors: number) =>
+      `${added} ensayos importados${skipped > 0 ? `, ${skipped} ya existentes` : ''}${errors > 0 ? `, ${errors} con errores` : ''}.`,
+    fileRow: (row: number) => `Fila ${row}: `,
+    noData: 'Sin datos registrados.',
+    replayTitle: (seed: number) => `Repetir ensayo (semilla ${seed})`,
+
+    comparativeAnalysis: 'Análisis Comparativo',
+    generateReport: 'Generar Informe',
+    noChartData: 'Realiza varios ensayos para comparar materiales.',
+    chartMaterials: 'Materiales:',
+    noMaterialSelected: 'Selecciona al menos un material para el gráfico.',
+    analyzing: 'Analizando Propiedades del Material...',
+    aiReport: 'Generar Informe con IA',
+    automaticReport: 'Generar Informe Automático',
+  },
+
+  sessions: {
+    active: 'Sesión activa',
+    create: 'Nueva sesión',
+    rename: 'Renombrar sesión',
+    remove: 'Eliminar sesión',
+    createPrompt: 'Nombre de la nueva sesión:',
+    renamePrompt: 'Nuevo nombre de la sesión:',
+    confirmRemove: (name: string) => `¿Eliminar la sesión "${name}" y todos sus ensayos?`,
+  },
+
+  series: {
+    specimensPerCondition: 'Probetas por condición',
+    vary: 'Variar',
+    nothing: 'Nada',
+    startAngle: 'Ángulo inicial',
+    temperature: 'Temperatura',
+    animated: 'Mostrar animación de cada ensayo',
+    run: (total: number) => `Ejecutar Serie (${total} ensayos)`,
+    paused: 'Serie en pausa',
+    running: 'Ejecutando serie...',
+    resume: 'Reanudar',
+    pause: 'Pausar',
+    cancel: 'Cancelar',
+    selectMaterial: 'Selecciona al menos un material.',
+    notNumeric: 'La lista de valores contiene entradas no numéricas.',
+    noValues: 'Indica al menos un valor.',
+    outOfRange: (min: string, max: string) => `Los valores deben estar entre ${min} y ${max}.`,
+  },
+
+  editor: {
+    name: 'Nombre',
+    type: 'Tipo',
+    color: 'Color',
+    toughness: 'Tenacidad (probeta estándar 10×10 V)',
+    upperShelf: 'Nivel superior',
+    lowerShelf: 'Nivel inferior',
+    transitionTemp: 'T. de transición',
+    transitionWidth: 'Ancho de transición',
+    roomBehaviour: 'Comportamiento a temperatura ambiente',
+    description: 'Descripción',
+    nameRequired: 'El nombre es obligatorio.',
+    shelvesPositive: 'Los niveles de energía deben ser mayores que cero.',
+    lowerAboveUpper: 'El nivel inferior no puede superar al superior.',
+    widthPositive: 'El ancho de transición debe ser mayor que cero.',
+    cancel: 'Cancelar',
+    save: 'Guardar',
+  },
+
+  statistics: {
+    title: 'Resumen Estadístico por Material y Condición',
+    group: 'Material / Condición',
+    mean: 'Media',
+    range: 'Mín–Máx',
+    ci95: 'IC 95%',
+    outlier: 'Valor atípico (Grubbs, α = 0,05):',
+    seriesNote: 'Los resultados Charpy se evalúan en series de al menos 3 probetas; la detección de atípicos requiere n ≥ 3.',
+  },
+
+  charts: {
+    energy: 'Energía',
+    absorbedEnergy: 'Energía Absorbida',
+    energyComparison: (symbol: string) => `Energía Absorbida (${symbol}) - Comparativa`,
+    energyMeanStd: (symbol: string) => `Energía Absorbida Media ± σ por Material (${symbol})`,
+    boxPlotTitle: (symbol: string) => `Distribución de la Energía Absorbida por Material (${symbol})`,
+    energyBalanceTitle: (symbol: string) => `Energía Absorbida frente a Disponible (${symbol})`,
+    angleScatterTitle: 'Ángulo Final frente a Energía Absorbida',
+    modes: {
+      individual: 'Individual',
+      byMaterial: 'Media ± σ',
+      boxPlot: 'Caja',
+      energyBalance: 'Balance',
+      angleScatter: 'Ángulo',
+    },
+    remainingEnergy: 'Resto de la energía disponible',
+    finalAngle: 'Ángulo final',
+    median: 'Mediana',
+    whiskers: 'Bigotes',
+    outliers: 'Atípicos',
+    transitionTitle: 'Curva de Transición Dúctil-Frágil (Energía vs Temperatura)',
+    temperature: 'Temperatura',
+    fittedCurve: (material: string, specimen: string) => `${material} (ajuste, ${specimen})`,
+    fitHint: 'Ensaya al menos 4 probetas a 3 temperaturas distintas de un mismo material para ajustar la curva.',
+    upperShelf: 'Sup.',
+    lowerShelf: 'Inf.',
+    forceCurve: (axis: 'displacement' | 'time', material: string, temperature: string) =>
+      `Curva ${axis === 'displacement' ? 'Fuerza–Desplazamiento' : 'Fuerza–Tiempo'} (${material}, ${temperature})`,
+    displacement: 'Desplazamiento',
+    time: 'Tiempo',
+    force: 'Fuerza',
+  },
+
+  canvas: {
+    notch: 'entalla',
+    freeSwing: 'Oscilación libre',
+    start: 'h0 (Inicio)',
+    final: 'hf (Final)',
+    frontView: 'Vista Frontal (Longitudinal)',
+    impact: 'Impacto',
+    fractureSurface: 'Superficie de Fractura',
+    crossSection: 'Sección Transversal',
+    shear: 'Cizalladura',
+  },
+
+  report: {
+    includeAnalysis: 'Incluir análisis',
+    print: 'Imprimir / PDF',
+    close: 'Cerrar',
+    title: 'Informe de Ensayo de Impacto Charpy',
+    subtitle: 'Según ISO 148-1 / ASTM E23 — Péndulo Charpy (simulado)',
+    session: 'Sesión',
+    date: 'Fecha del informe',
+    laboratory: 'Laboratorio',
+    operator: 'Operador',
+    specimenCount: 'Nº de probetas ensayadas',
+    machine: 'Máquina de Ensayo',
+    capacity: 'Capacidad',
+    striker: 'Percutor',
+    mass: 'Masa',
+    armLength: 'Longitud del brazo',
+    dropAngle: 'Ángulo de caída (°)',
+    availableEnergy: 'Energía disponible',
+    impactVelocity: 'Velocidad de impacto',
+    freeSwingLoss: 'Pérdidas en oscilación libre',
+    perSpecimen: 'Resultados por Probeta',
+    specimenNote: (length: string) =>
+      `Longitud de probeta ${length}. Sección indicada como altura × ancho y tipo de entalla. Energía corregida por las pérdidas de la máquina; la lectura es PE1 − PE2 sin corregir.`,
+    number: 'Nº',
+    material: 'Material',
+    specimen: 'Probeta',
+    reading: 'Lectura',
+    energy: 'Energía',
+    shear: 'Cizalladura (%)',
+    breakage: 'Rotura',
+    appearance: 'Aspecto',
+    validity: 'Validez',
+    broken: 'Sí',
+    unbroken: 'No rota',
+    invalid: 'No válido',
+    withWarnings: 'Con avisos',
+    valid: 'Válido',
+    specimenIssue: (number: number, message: string) => `Probeta ${number}: ${message}`,
+    averages: 'Valores Medios por Material',
+    mean: 'Media',
+    min: 'Mín.',
+    max: 'Máx.',
+    chart: 'Gráfico',
+    analysis: 'Análisis',
+    footer: 'Generado con CharpySim Lab. Resultados obtenidos por simulación, con fines didácticos.',
+  },
+
+  analysis: {
+    providers: {
+      gemini: 'Gemini (en línea)',
+      offline: 'Sin conexión (reglas)',
+    },
+    errors: {
+      'no-results': 'No hay resultados para analizar.',
+      'missing-api-key': 'No hay clave de API de Gemini configurada. Define GEMINI_API_KEY o usa el analizador sin conexión.',
+      'request-failed': 'Error al generar el análisis. Comprueba la conexión y la configuración del proveedor.',
+      'empty-response': 'El proveedor de análisis no devolvió texto.',
+    },
+    ranking: '1. Ranking de tenacidad',
+    number: 'Nº',
+    material: 'Material',
+    mean: 'Media',
+    meanEnergy: 'Energía media',
+    comment: 'Comentario',
+    fractureInterpretation: '2. Interpretación de la fractura',
+    applications: '3. Aplicaciones',
+    warnings: 'Avisos sobre los datos',
+  },
+
+  // Rule-based report of the offline analyzer
+  offline: {
+    onlyOneMaterial: (material: string) => `Solo se ha ensayado ${material}; añade otros materiales para poder compararlos.`,
+    clearlyTougher: (toughest: string, toughestMean: string, ratio: string | null, weakest: string, weakestMean: string) =>
+      `${toughest} es el más tenaz, con ${toughestMean} de media, ${ratio !== null ? `${ratio} veces` : 'muy por encima de'} la de ${weakest} (${weakestMean}).`,
+    similarMeans: (weakest: string, weakestMean: string, toughest: string, toughestMean: string) =>
+      `Las energías medias son parecidas: de ${weakestMean} (${weakest}) a ${toughestMean} (${toughest}).`,
+    sameTemperature: (temperature: string, ranking: string) => `A la misma temperatura (${temperature}): ${ranking}.`,
+    noCommonTemperature: 'Los materiales no se han ensayado a una temperatura común, así que las medias mezclan condiciones distintas.',
+    mechanism: 'La energía absorbida, el porcentaje de cizalladura y la expansión lateral suben juntos: la fractura dúctil consume energía deformando plásticamente el ligamento, mientras que el clivaje frágil la separa casi sin deformación.',
+    tests: (count: number, temperatures: string) => `${count} ensayo(s) entre ${temperatures}`,
+    upperShelf: (shear: string, expansion: string) =>
+      `meseta superior en todo el rango ensayado: fractura dúctil (${shear} % de cizalladura, expansión lateral ${expansion})`,
+    lowerShelf: (shear: string, expansion: string) =>
+      `meseta inferior: fractura frágil por clivaje con poca deformación (${shear} % de cizalladura, expansión lateral ${expansion})`,
+    transition: (temperature: [string, string], energy: [string, string], shear: [number, number], expansion: [string, string]) =>
+      `zona de transición: de ${temperature[0]} a ${temperature[1]} la energía pasa de ${energy[0]} a ${energy[1]}, ` +
+      `la cizalladura de ${shear[0]} % a ${shear[1]} % y la expansión lateral de ${expansion[0]} a ${expansion[1]}`,
+    fracture: (types: string) => `fractura ${types}`,
+    t27J: (energy: string, temperature: string) => `la curva ajustada alcanza ${energy} a ${temperature} (T27J)`,
+    moreTemperatures: 'hacen falta más temperaturas para situar la transición',
+    toughestUse: (fullyDuctile: boolean) =>
+      `La opción para piezas sometidas a impactos o cargas dinámicas${fullyDuctile ? ', sin pérdida de tenacidad en el rango ensayado' : ', comprobando la temperatura mínima de servicio'}.`,
+    avoidBelow: (temperature: string) =>
+      `Evitarlo en aplicaciones con impacto a ${temperature} o menos; adecuado para cargas estáticas o elementos protegidos de golpes.`,
+    weakestUse: 'La menor tenacidad de la serie; reservarlo para cargas estáticas o moderadas.',
+    unbroken: (count: number) => `${count} probeta(s) sin romper: su energía es solo un límite inferior.`,
+    invalid: (count: number) => `${count} ensayo(s) no válidos según la norma; revisa la capacidad de la máquina.`,
+    outlier: (material: string, temperature: string, energy: string) => `Posible valor atípico (Grubbs) en ${material} a ${temperature}: ${energy}.`,
+    fewTests: 'Pocos ensayos: las conclusiones son orientativas.',
+  },
+
+  // Prompt and response schema of the Gemini provider
+  gemini: {
+    rankingDescription: 'Materiales ordenados de más a menos tenaz',
+    meanEnergyDescription: (symbol: string) => `Energía absorbida media en ${symbol}`,
+    commentDescription: 'Comentario breve sobre el material',
+    fractureDescription: 'Relación entre energía, temperatura y tipo de fractura',
+    warningsDescription: 'Datos sospechosos o poco fiables; vacío si no hay',
+    material: 'Material',
+    fracture: 'fractura',
+    temperature: 'Temperatura de Ensayo',
+    initialEnergy: 'Energía Inicial',
+    absorbedEnergy: 'Energía Absorbida',
+    lateralExpansion: 'Expansión Lateral',
+    shear: 'Fractura por Cizalladura',
+    finalAngle: 'Ángulo Final',
+    degrees: 'grados',
+    broken: 'Probeta rota',
+    yes: 'sí',
+    no: 'no',
+    prompt: (results: string, symbols: string) => `
+    Actúa como un Ingeniero de Materiales Senior analizando datos del Ensayo de Impacto Charpy.
+
+    Aquí están los resultados recientes de las pruebas:
+    ${results}
+
+    Por favor, proporciona un análisis técnico conciso en español, como JSON con estos campos:
+    1. "ranking": los materiales ordenados por tenacidad (energía absorbida media) con un comentario breve de cada uno.
+    2. "fractureInterpretation": la relación entre la energía absorbida, la temperatura de ensayo y el tipo de fractura (Dúctil vs Frágil) observada en los datos, apoyándote en la expansión lateral y el porcentaje de cizalladura.
+    3. "applications": implicaciones prácticas, ¿dónde usarías cada material basándote en estos resultados?
+    4. "warnings": datos sospechosos (valores atípicos, probetas sin romper, resultados incoherentes con la temperatura).
+
+    Expresa todos los valores en las unidades de los datos (${symbols}).
+    Mantén un tono profesional pero accesible para estudiantes de ingeniería.
+  `,
+  },
+
+  validity: {
+    availableAboveCapacity: (available: string, nominal: string) => `Energía disponible ${available} superior a la capacidad nominal (${nominal}).`,
+    velocityOutOfRange: (velocity: string, range: string, standard: string) => `Velocidad de impacto ${velocity} fuera del rango ${range} de ${standard}.`,
+    unbroken: 'La probeta no rompió: la energía absorbida es solo un límite inferior.',
+    absorbedAboveLimit: (absorbed: string, percent: number, nominal: string) =>
+      `Energía absorbida ${absorbed} por encima del ${percent} % de la nominal (${nominal}).`,
+  },
+
+  // Messages of the result and material file readers
+  acceptance: {
+    title: 'Especificación',
+    none: 'Sin especificación',
+    custom: 'Propia',
+    requirement: (average: string, individual: string, temperature: string) => `Media ≥ ${average}, individual ≥ ${individual} a ${temperature}`,
+    status: { pass: 'Cumple', fail: 'No cumple', incomplete: 'Incompleto' },
+    verdictFor: (material: string, spec: string) => `${material} frente a ${spec}`,
+    needsSet: (count: number, required: number, temperature: string) =>
+      `${count} de ${required} probetas válidas de tamaño completo ensayadas a ${temperature}.`,
+    averageBelow: (average: string, min: string) => `La media ${average} no alcanza el mínimo de ${min}.`,
+    severalBelowAverage: (count: number, min: string) => `${count} valores por debajo de ${min}; solo se admite uno.`,
+    individualBelow: (value: string, min: string) => `El valor ${value} queda por debajo del mínimo individual de ${min}.`,
+    excluded: (count: number) => `${count} ensayo(s) a esa temperatura no cuentan (no válidos o sin tamaño completo con entalla en V).`,
+    newSpec: 'Nueva',
+    editSpec: 'Editar',
+    deleteSpec: 'Eliminar',
+    newSpecTitle: 'Nueva Especificación',
+    editSpecTitle: 'Editar Especificación',
+    confirmDelete: (name: string) => `¿Eliminar la especificación "${name}"?`,
+    name: 'Nombre',
+    temperature: 'Temperatura de ensayo',
+    minAverage: 'Media mínima',
+    minIndividual: 'Mínimo individual',
+    individualHint: 'Un valor puede quedar por debajo de la media exigida, nunca por debajo del mínimo individual (EN 10025: 70 % de la media).',
+    apply70: 'Usar 70 %',
+    nameRequired: 'El nombre es obligatorio.',
+    valuesPositive: 'Los valores mínimos deben ser mayores que cero.',
+    individualAboveAverage: 'El mínimo individual no puede superar a la media exigida.',
+    reportTitle: 'Conformidad con la Especificación',
+    values: 'Valores',
+    verdict: 'Resultado',
+  },
+  exercise: {
+    mode: 'Ejercicio',
+    modeTitle: 'Oculta la energía absorbida hasta que el alumno la calcule',
+    title: 'Ejercicio: calcula la energía absorbida',
+    intro: 'Con los datos del ensayo, calcula cada magnitud (g = 9,81 m/s²).',
+    mass: 'Masa m',
+    length: 'Longitud L',
+    startAngle: 'Ángulo inicial α',
+    finalAngle: 'Lectura del dial β',
+    losses: 'Pérdidas de la máquina',
+    quantities: {
+      h0: 'Altura inicial h0',
+      hf: 'Altura final hf',
+      pe1: 'Energía inicial PE1',
+      pe2: 'Energía final PE2',
+      kv: 'Energía absorbida KV',
+    },
+    submit: 'Corregir',
+    yourAnswer: 'Tu respuesta',
+    expected: 'Correcto',
+    blank: 'sin respuesta',
+    tolerance: (percent: number) => `Se aceptan respuestas con un error de hasta ${percent} %.`,
+    score: (correct: number, total: number) => `${correct} de ${total} correctas`,
+    sessionScore: (correct: number, total: number) => `Sesión: ${correct} de ${total} correctas`,
+    solution: 'Solución',
+    pending: 'Pendiente del ejercicio',
+    exportScores: 'Notas',
+  },
+  challenge: {
+    title: 'Desafío',
+    defaultCodeName: 'Muestra X',
+    create: 'Crear Desafío',
+    load: 'Cargar Desafío',
+    editorTitle: 'Nuevo Desafío',
+    editorHint: 'El alumno ensaya el material bajo el nombre en clave y elige entre todos los materiales de la biblioteca.',
+    codeName: 'Nombre en clave',
+    hiddenMaterial: 'Material oculto',
+    limits: 'Límites de la máquina',
+    min: 'Mín.',
+    max: 'Máx.',
+    export: 'Exportar Desafío',
+    codeNameRequired: 'El nombre en clave es obligatorio.',
+    rangeInverted: (setting: string) => `${setting}: el mínimo no puede superar al máximo.`,
+    rangeOutside: (setting: string, min: string, max: string) => `${setting}: los límites deben quedar entre ${min} y ${max}.`,
+    active: (codeName: string) => `Desafío: ${codeName}`,
+    hint: 'Ensaya la muestra a distintas temperaturas e identifica el material.',
+    limitsLocked: 'Los parámetros de la máquina están limitados por el desafío.',
+    identification: 'Material identificado',
+    choose: 'Elige un material',
+    reasoning: 'Razonamiento',
+    reasoningPlaceholder: 'Niveles superior e inferior, temperatura de transición, aspecto de la fractura…',
+    submit: 'Entregar',
+    needsTests: 'Ensaya al menos una probeta antes de entregar.',
+    submitted: 'Respuesta entregada. Descárgala y entrégasela al profesor, que la corregirá.',
+    answerWas: (codeName: string, material: string) => `${codeName} era ${material}.`,
+    yourChoice: (material: string) => `Tu respuesta: ${material}`,
+    exportAnswer: 'Descargar Respuesta',
+    leave: 'Salir',
+    confirmLeave: (codeName: string) => `¿Salir del desafío "${codeName}"? La respuesta no se podrá recuperar.`,
+    loadFailed: 'No se pudo cargar el archivo:',
+    gradeAnswer: 'Corregir Respuesta',
+    gradedAnswers: 'Respuestas corregidas',
+    otherChallenge: (file: string) => `"${file}" es la respuesta de otro desafío.`,
+  },
+  import: {
+    notANumber: (field: string) => `"${field}" no es un número válido`,
+    notPositive: (field: string) => `"${field}" debe ser mayor que cero`,
+    notBoolean: (field: string) => `"${field}" debe ser true o false`,
+    empty: (field: string) => `"${field}" está vacío`,
+    notOneOf: (field: string, allowed: string) => `"${field}" debe ser uno de: ${allowed}`,
+    invalidDate: (field: string) => `"${field}" no es una fecha válida`,
+    lowerAboveUpper: 'el nivel inferior no puede superar al superior',
+    minAboveMax: (field: string) => `en "${field}" el mínimo no puede superar al máximo`,
+    unknownMaterial: (id: string, reason: string) => `material desconocido "${id}" (${reason})`,
+    negativeLosses: 'las pérdidas de la máquina no pueden ser negativas',
+    negativeEnergy: 'la energía absorbida no puede ser negativa',
+    energyAboveInitial: 'la energía absorbida supera la energía inicial',
+    unexpected: (error: string) => `error inesperado: ${error}`,
+    emptyFile: 'El archivo está vacío',
+    missingColumns: (columns: string) => `Faltan columnas: ${columns}`,
+    invalidJson: 'El archivo no es un JSON válido',
+    unknownFormat: (format: string) => `Formato desconocido: ${format}`,
+    unsupportedVersion: (version: number, max: number) => `Versión ${version} no soportada (máx. ${max})`,
+    missingList: (list: string) => `No se encontró la lista "${list}"`,
+  },
+
+  unitSystems: {
+    SI: 'SI (J, kg, m, °C)',
+    US: 'EE. UU. (ft·lbf, lb, ft, °F)',
+  },
+
+  fracture: {
+    Ductile: 'Dúctil',
+    Brittle: 'Frágil',
+    Mixed: 'Mixta',
+  },
+
+  notches: {
+    V: 'Entalla en V (2 mm, r 0,25)',
+    U: 'Entalla en U (5 mm, r 1)',
+    Keyhole: 'Ojo de cerradura (5 mm, r 1)',
+  },
+  keyholeNotch: 'ojo de cerradura',
+
+  strikers: {
+    2: 'Percutor 2 mm (ISO 148-1)',
+    8: 'Percutor 8 mm (ASTM E23)',
+  },
+
+  // Built-in materials by id; custom materials keep the text they were saved with
+  materialDescriptions: {
+    'steel-1045': 'Acero de medio carbono. Alta resistencia y buena tenacidad al impacto.',
+    'al-6061': 'Aleación de aluminio endurecida. Versátil, ligera y tenacidad moderada.',
+    'cast-iron': 'Material frágil con baja resistencia al impacto pero alta amortiguación.',
+    'titanium-grade5': 'Excelente relación resistencia-peso y resistencia a la corrosión.',
+    'pvc-rigid': 'Termoplástico común. Comportamiento frágil bajo impacto a alta velocidad.',
+  } as Record<string, string>,
+
+  // Material types by the (Spanish) name they are stored with
+  materialTypes: {
+    Metal: 'Metal',
+    Polímero: 'Polímero',
+    Cerámico: 'Cerámico',
+    Compuesto: 'Compuesto',
+  } as Record<string, string>,
+};
+
+export type Messages = typeof es;
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { materialDescription, materialType, MESSAGES } from '.';
+import { MATERIALS } from '../constants';
+
+describe('message catalogs', () => {
+  it('describes every built-in material in every language', () => {
+    Object.values(MESSAGES).forEach(t => MATERIALS.forEach(material => {
+      expect(t.materialDescriptions[material.id]).toBeTruthy();
+      expect(t.materialTypes[material.type]).toBeTruthy();
+    }));
+  });
+
+  it('keeps the saved text of custom materials', () => {
+    const custom = { ...MATERIALS[0], id: 'custom-1', type: 'Madera', description: 'Pino tratado' };
+    expect(materialDescription(custom, MESSAGES.en)).toBe('Pino tratado');
+    expect(materialType(custom, MESSAGES.en)).toBe('Madera');
+  });
+});
@@ -0,0 +1,16 @@
+import { Language, Material } from '../types';
+import { es, Messages } from './es';
+import { en } from './en';
+import { pt } from './pt';
+
+export type { Messages };
+export { es };
+
+export const MESSAGES: Record<Language, Messages> = { es, en, pt };
+
+// Built-in materials are described in the selected language; custom ones keep the text they were saved with
+export const materialDescription = (material: Material, t: Messages): string =>
+  t.materialDescriptions[material.id] ?? material.description;
+
+export const materialType = (material: Material, t: Messages): string =>
+  t.materialTypes[material.type] ?? material.type;
@@ -0,0 +1,517 @@
+import { Messages } from './es';
+
+export const pt: Messages = {
+  languageName: 'Português',
+  locale: 'pt-BR',
+
+  app: {
+    subtitle: 'Simulador Interativo de Ensaio de Impacto',
+    analysis: 'Análise',
+    analysisTitle: 'Provedor do relatório de análise',
+    units: 'Unidades',
+    unitsTitle: 'Unidades exibidas; os dados são sempre guardados em SI',
+    language: 'Idioma',
+    languageTitle: 'Idioma da interface e do relatório de análise',
+    systemReady: 'Sistema Pronto',
+    testChamber: 'Câmara de Ensaio',
+    startTest: 'Iniciar Ensaio',
+    freeSwing: 'Oscilação Livre',
+    freeSwingTitle: 'Oscilação sem corpo de prova para medir as perdas por atrito e resistência do ar',
+    hideMagnifier: 'Ocultar Lupa',
+    showSpecimen: 'Ver Corpo de Prova',
+    showSpecimenTitle: 'Ver detalhe do corpo de prova',
+    showResults: 'Ver Resultados',
+    showResultsTitle: 'Ir para os resultados',
+
+    testSetup: 'Configuração do Ensaio',
+    pendulumParameters: 'Parâmetros do Pêndulo',
+    nominalCapacity: 'Capacidade Nominal',
+    striker: 'Cutelo',
+    friction: 'Atrito',
+    windage: 'Resist. do ar',
+    hammerMass: 'Massa do Martelo',
+    armLength: 'Comprimento do Braço',
+    startAngle: 'Ângulo Inicial (Graus)',
+    availableEnergy: 'Energia disponível',
+    impactVelocity: 'velocidade de impacto',
+    freeSwingReading: 'Oscilação livre',
+    freeSwingLosses: 'perdas',
+    freeSwingShare: (percent: string) => `${percent} % da energia disponível`,
+    instrumented: 'Cutelo instrumentado (ISO 14556)',
+
+    testConditions: 'Condições do Ensaio',
+    testTemperature: 'Temperatura de Ensaio',
+
+    specimenGeometry: 'Geometria do Corpo de Prova',
+    section: 'Seção',
+    standardSize: ' (padrão)',
+    notch: 'Entalhe',
+    ligament: 'Seção sob o entalhe:',
+
+    reproducibility: 'Reprodutibilidade',
+    sessionSeed: 'Semente da Sessão',
+    randomSeed: 'Aleatória',
+    generateSeed: 'Gerar',
+    seedHint: 'Com a mesma semente toda a turma obtém os mesmos valores para cada material.',
+
+    specimenMaterial: 'Material do Corpo de Prova',
+    customMaterial: 'Próprio',
+    noDescription: 'Sem descrição.',
+    newMaterialTitle: 'Novo Material',
+    cloneMaterialTitle: 'Clonar Material',
+    editMaterialTitle: 'Editar Material',
+    newMaterial: 'Novo',
+    cloneMaterial: 'Clonar',
+    editMaterial: 'Editar',
+    deleteMaterial: 'Excluir',
+    importFile: 'Importar',
+    exportFile: 'Exportar',
+    copyName: (name: string) => `${name} (cópia)`,
+    confirmDeleteMaterial: (name: string) => `Excluir o material "${name}"? Os ensaios já registrados o conservam.`,
+    builtInSkipped: (name: string) => `"${name}" é um material predefinido e foi ignorado`,
+    materialsNotImported: 'Alguns materiais não foram importados:',
+    materialRow: (row: number) => `Material ${row}: `,
+
+    seriesMode: 'Modo Série',
+    seriesHint: 'Usa a máquina e a geometria configuradas acima.',
+
+    testResults: 'Resultados do Ensaio',
+    initialEnergy: 'Energia Inicial ($E_p$)',
+    absorbedEnergy: 'Energia Absorvida (KV)',
+    readingMinusLosses: (reading: string, losses: string) => `Leitura ${reading} − perdas ${losses}`,
+    resilience: 'Resiliência (Tenacidade ao Entalhe)',
+    resilienceTitle: 'Energia absorvida por unidade de área da seção transversal no entalhe.',
+    lateralExpansion: 'Expansão Lateral',
+    shearFracture: 'Fratura por Cisalhamento',
+    energySplit: 'Divisão da Energia (Instrumentado)',
+    initiation: 'Iniciação',
+    propagation: 'Propagação',
+    replayedTest: 'Reprodução de ensaio registrado',
+    testNumber: (id: string) => `Ensaio #${id}`,
+    seed: 'Semente',
+    invalidTest: 'Ensaio inválido:',
+    warning: 'Aviso:',
+    interpretation: 'Interpretação:',
+    behaviour: (temperature: string) => `A ${temperature} o material se comportou de maneira`,
+
+    defaultSessionName: (number: number) => `Sessão ${number}`,
+    recentHistory: 'Histórico Recente',
+    clearHistory: 'Limpar',
+    importSummary: (added: number, skipped: number, errors: number) =>
+      `${added} ensaios importados${skipped > 0 ? `, ${skipped} já existentes` : ''}${errors > 0 ? `, ${errors} com erros` : ''}.`,
+    fileRow: (row: number) => `Linha ${row}: `,
+    noData: 'Nenhum dado registrado.',
+    replayTitle: (seed: number) => `Repetir ensaio (semente ${seed})`,
+
+    comparativeAnalysis: 'Análise Comparativa',
+    generateReport: 'Gerar Relatório',
+    noChartData: 'Realize vários ensaios para comparar materiais.',
+    chartMaterials: 'Materiais:',
+    noMaterialSelected: 'Selecione pelo menos um material para o gráfico.',
+    analyzing: 'Analisando Propriedades do Material...',
+    aiReport: 'Gerar Relatório com IA',
+    automaticReport: 'Gerar Relatório Automático',
+  },
+
+  sessions: {
+    active: 'Sessão ativa',
+    create: 'Nova sessão',
+    rename: 'Renomear sessão',
+    remove: 'Excluir sessão',
+    createPrompt: 'Nome da nova sessão:',
+    renamePrompt: 'Novo nome da sessão:',
+    confirmRemove: (name: string) => `Excluir a sessão "${name}" e todos os seus ensaios?`,
+  },
+
+  series: {
+    specimensPerCondition: 'Corpos de prova por condição',
+    vary: 'Variar',
+    nothing: 'Nada',
+    startAngle: 'Ângulo inicial',
+    temperature: 'Temperatura',
+    animated: 'Mostrar a animação de cada ensaio',
+    run: (total: number) => `Executar Série (${total} ensaios)`,
+    paused: 'Série em pausa',
+    running: 'Executando série...',
+    resume: 'Retomar',
+    pause: 'Pausar',
+    cancel: 'Cancelar',
+    selectMaterial: 'Selecione pelo menos um material.',
+    notNumeric: 'A lista de valores contém entradas não numéricas.',
+    noValues: 'Indique pelo menos um valor.',
+    outOfRange: (min: string, max: string) => `Os valores devem estar entre ${min} e ${max}.`,
+  },
+
+  editor: {
+    name: 'Nome',
+    type: 'Tipo',
+    color: 'Cor',
+    toughness: 'Tenacidade (corpo de prova padrão 10×10 V)',
+    upperShelf: 'Patamar superior',
+    lowerShelf: 'Patamar inferior',
+    transitionTemp: 'T. de transição',
+    transitionWidth: 'Largura da transição',
+    roomBehaviour: 'Comportamento à temperatura ambiente',
+    description: 'Descrição',
+    nameRequired: 'O nome é obrigatório.',
+    shelvesPositive: 'Os patamares de energia devem ser maiores que zero.',
+    lowerAboveUpper: 'O patamar inferior não pode superar o superior.',
+    widthPositive: 'A largura da transição deve ser maior que zero.',
+    cancel: 'Cancelar',
+    save: 'Salvar',
+  },
+
+  statistics: {
+    title: 'Resumo Estatístico por Material e Condição',
+    group: 'Material / Condição',
+    mean: 'Média',
+    range: 'Mín–Máx',
+    ci95: 'IC 95%',
+    outlier: 'Valor atípico (Grubbs, α = 0,05):',
+    seriesNote: 'Os resultados Charpy são avaliados em séries de pelo menos 3 corpos de prova; a detecção de atípicos requer n ≥ 3.',
+  },
+
+  charts: {
+    energy: 'Energia',
+    absorbedEnergy: 'Energia Absorvida',
+    energyComparison: (symbol: string) => `Energia Absorvida (${symbol}) - Comparativo`,
+    energyMeanStd: (symbol: string) => `Energia Absorvida Média ± σ por Material (${symbol})`,
+    boxPlotTitle: (symbol: string) => `Distribuição da Energia Absorvida por Material (${symbol})`,
+    energyBalanceTitle: (symbol: string) => `Energia Absorvida frente à Disponível (${symbol})`,
+    angleScatterTitle: 'Ângulo Final frente à Energia Absorvida',
+    modes: {
+      individual: 'Individual',
+      byMaterial: 'Média ± σ',
+      boxPlot: 'Caixa',
+      energyBalance: 'Balanço',
+      angleScatter: 'Ângulo',
+    },
+    remainingEnergy: 'Restante da energia disponível',
+    finalAngle: 'Ângulo final',
+    median: 'Mediana',
+    whiskers: 'Bigodes',
+    outliers: 'Atípicos',
+    transitionTitle: 'Curva de Transição Dúctil-Frágil (Energia vs Temperatura)',
+    temperature: 'Temperatura',
+    fittedCurve: (material: string, specimen: string) => `${material} (ajuste, ${specimen})`,
+    fitHint: 'Ensaie pelo menos 4 corpos de prova a 3 temperaturas diferentes de um mesmo material para ajustar a curva.',
+    upperShelf: 'Sup.',
+    lowerShelf: 'Inf.',
+    forceCurve: (axis: 'displacement' | 'time', material: string, temperature: string) =>
+      `Curva ${axis === 'displacement' ? 'Força–Deslocamento' : 'Força–Tempo'} (${material}, ${temperature})`,
+    displacement: 'Deslocamento',
+    time: 'Tempo',
+    force: 'Força',
+  },
+
+  canvas: {
+    notch: 'entalhe',
+    freeSwing: 'Oscilação livre',
+    start: 'h0 (Início)',
+    final: 'hf (Final)',
+    frontView: 'Vista Frontal (Longitudinal)',
+    impact: 'Impacto',
+    fractureSurface: 'Superfície de Fratura',
+    crossSection: 'Seção Transversal',
+    shear: 'Cisalhamento',
+  },
+
+  report: {
+    includeAnalysis: 'Incluir análise',
+    print: 'Imprimir / PDF',
+    close: 'Fechar',
+    title: 'Relatório de Ensaio de Impacto Charpy',
+    subtitle: 'Conforme ISO 148-1 / ASTM E23 — Pêndulo Charpy (simulado)',
+    session: 'Sessão',
+    date: 'Data do relatório',
+    laboratory: 'Laboratório',
+    operator: 'Operador',
+    specimenCount: 'Nº de corpos de prova ensaiados',
+    machine: 'Máquina de Ensaio',
+    capacity: 'Capacidade',
+    striker: 'Cutelo',
+    mass: 'Massa',
+    armLength: 'Comprimento do braço',
+    dropAngle: 'Ângulo de queda (°)',
+    availableEnergy: 'Energia disponível',
+    impactVelocity: 'Velocidade de impacto',
+    freeSwingLoss: 'Perdas em oscilação livre',
+    perSpecimen: 'Resultados por Corpo de Prova',
+    specimenNote: (length: string) =>
+      `Comprimento do corpo de prova ${length}. Seção indicada como altura × largura e tipo de entalhe. Energia corrigida pelas perdas da máquina; a leitura é PE1 − PE2 sem correção.`,
+    number: 'Nº',
+    material: 'Material',
+    specimen: 'Corpo de prova',
+    reading: 'Leitura',
+    energy: 'Energia',
+    shear: 'Cisalhamento (%)',
+    breakage: 'Ruptura',
+    appearance: 'Aspecto',
+    validity: 'Validade',
+    broken: 'Sim',
+    unbroken: 'Não rompido',
+    invalid: 'Inválido',
+    withWarnings: 'Com avisos',
+    valid: 'Válido',
+    specimenIssue: (number: number, message: string) => `Corpo de prova ${number}: ${message}`,
+    averages: 'Valores Médios por Material',
+    mean: 'Média',
+    min: 'Mín.',
+    max: 'Máx.',
+    chart: 'Gráfico',
+    analysis: 'Análise',
+    footer: 'Gerado com CharpySim Lab. Resultados obtidos por simulação, para fins didáticos.',
+  },
+
+  analysis: {
+    providers: {
+      gemini: 'Gemini (online)',
+      offline: 'Offline (regras)',
+    },
+    errors: {
+      'no-results': 'Não há resultados para analisar.',
+      'missing-api-key': 'Nenhuma chave de API do Gemini configurada. Defina GEMINI_API_KEY ou use o analisador offline.',
+      'request-failed': 'Erro ao gerar a análise. Verifique a conexão e a configuração do provedor.',
+      'empty-response': 'O provedor de análise não retornou texto.',
+    },
+    ranking: '1. Ranking de tenacidade',
+    number: 'Nº',
+    material: 'Material',
+    mean: 'Média',
+    meanEnergy: 'Energia média',
+    comment: 'Comentário',
+    fractureInterpretation: '2. Interpretação da fratura',
+    applications: '3. Aplicações',
+    warnings: 'Avisos sobre os dados',
+  },
+
+  offline: {
+    onlyOneMaterial: (material: string) => `Apenas ${material} foi ensaiado; adicione outros materiais para poder compará-los.`,
+    clearlyTougher: (toughest: string, toughestMean: string, ratio: string | null, weakest: string, weakestMean: string) =>
+      `${toughest} é o mais tenaz, com ${toughestMean} de média, ${ratio !== null ? `${ratio} vezes` : 'muito acima de'} a de ${weakest} (${weakestMean}).`,
+    similarMeans: (weakest: string, weakestMean: string, toughest: string, toughestMean: string) =>
+      `As energias médias são parecidas: de ${weakestMean} (${weakest}) a ${toughestMean} (${toughest}).`,
+    sameTemperature: (temperature: string, ranking: string) => `À mesma temperatura (${temperature}): ${ranking}.`,
+    noCommonTemperature: 'Os materiais não foram ensaiados a uma temperatura comum, portanto as médias misturam condições diferentes.',
+    mechanism: 'A energia absorvida, a porcentagem de cisalhamento e a expansão lateral sobem juntas: a fratura dúctil consome energia deformando plasticamente o ligamento, enquanto a clivagem frágil o separa quase sem deformação.',
+    tests: (count: number, temperatures: string) => `${count} ensaio(s) entre ${temperatures}`,
+    upperShelf: (shear: string, expansion: string) =>
+      `patamar superior em toda a faixa ensaiada: fratura dúctil (${shear} % de cisalhamento, expansão lateral ${expansion})`,
+    lowerShelf: (shear: string, expansion: string) =>
+      `patamar inferior: fratura frágil por clivagem com pouca deformação (${shear} % de cisalhamento, expansão lateral ${expansion})`,
+    transition: (temperature: [string, string], energy: [string, string], shear: [number, number], expansion: [string, string]) =>
+      `zona de transição: de ${temperature[0]} a ${temperature[1]} a energia passa de ${energy[0]} a ${energy[1]}, ` +
+      `o cisalhamento de ${shear[0]} % a ${shear[1]} % e a expansão lateral de ${expansion[0]} a ${expansion[1]}`,
+    fracture: (types: string) => `fratura ${types}`,
+    t27J: (energy: string, temperature: string) => `a curva ajustada atinge ${energy} a ${temperature} (T27J)`,
+    moreTemperatures: 'são necessárias mais temperaturas para situar a transição',
+    toughestUse: (fullyDuctile: boolean) =>
+      `A opção para peças sujeitas a impactos ou cargas dinâmicas${fullyDuctile ? ', sem perda de tenacidade na faixa ensaiada' : ', verificando a temperatura mínima de serviço'}.`,
+    avoidBelow: (temperature: string) =>
+      `Evitá-lo em aplicações com impacto a ${temperature} ou menos; adequado para cargas estáticas ou elementos protegidos de golpes.`,
+    weakestUse: 'A menor tenacidade da série; reservá-lo para cargas estáticas ou moderadas.',
+    unbroken: (count: number) => `${count} corpo(s) de prova sem romper: a sua energia é apenas um limite inferior.`,
+    invalid: (count: number) => `${count} ensaio(s) inválido(s) segundo a norma; verifique a capacidade da máquina.`,
+    outlier: (material: string, temperature: string, energy: string) => `Possível valor atípico (Grubbs) em ${material} a ${temperature}: ${energy}.`,
+    fewTests: 'Poucos ensaios: as conclusões são orientativas.',
+  },
+
+  gemini: {
+    rankingDescription: 'Materiais ordenados do mais ao menos tenaz',
+    meanEnergyDescription: (symbol: string) => `Energia absorvida média em ${symbol}`,
+    commentDescription: 'Comentário breve sobre o material',
+    fractureDescription: 'Relação entre energia, temperatura e tipo de fratura',
+    warningsDescription: 'Dados suspeitos ou pouco confiáveis; vazio se não houver',
+    material: 'Material',
+    fracture: 'fratura',
+    temperature: 'Temperatura de Ensaio',
+    initialEnergy: 'Energia Inicial',
+    absorbedEnergy: 'Energia Absorvida',
+    lateralExpansion: 'Expansão Lateral',
+    shear: 'Fratura por Cisalhamento',
+    finalAngle: 'Ângulo Final',
+    degrees: 'graus',
+    broken: 'Corpo de prova rompido',
+    yes: 'sim',
+    no: 'não',
+    prompt: (results: string, symbols: string) => `
+    Atue como um Engenheiro de Materiais Sênior analisando dados do Ensaio de Impacto Charpy.
+
+    Aqui estão os resultados recentes dos ensaios:
+    ${results}
+
+    Por favor, forneça uma análise técnica concisa em português, como JSON com estes campos:
+    1. "ranking": os materiais ordenados por tenacidade (energia absorvida média) com um comentário breve sobre cada um.
+    2. "fractureInterpretation": a relação entre a energia absorvida, a temperatura de ensaio e o tipo de fratura (Dúctil vs Frágil) observada nos dados, apoiando-se na expansão lateral e na porcentagem de cisalhamento.
+    3. "applications": implicações práticas, onde você usaria cada material com base nestes resultados?
+    4. "warnings": dados suspeitos (valores atípicos, corpos de prova não rompidos, resultados incoerentes com a temperatura).
+
+    Expresse todos os valores nas unidades dos dados (${symbols}).
+    Mantenha um tom profissional, mas acessível para estudantes de engenharia.
+  `,
+  },
+
+  validity: {
+    availableAboveCapacity: (available: string, nominal: string) => `Energia disponível ${available} superior à capacidade nominal (${nominal}).`,
+    velocityOutOfRange: (velocity: string, range: string, standard: string) => `Velocidade de impacto ${velocity} fora da faixa ${range} da ${standard}.`,
+    unbroken: 'O corpo de prova não rompeu: a energia absorvida é apenas um limite inferior.',
+    absorbedAboveLimit: (absorbed: string, percent: number, nominal: string) =>
+      `Energia absorvida ${absorbed} acima de ${percent} % da nominal (${nominal}).`,
+  },
+
+  acceptance: {
+    title: 'Especificação',
+    none: 'Sem especificação',
+    custom: 'Própria',
+    requirement: (average: string, individual: string, temperature: string) => `Média ≥ ${average}, individual ≥ ${individual} a ${temperature}`,
+    status: { pass: 'Aprovado', fail: 'Reprovado', incomplete: 'Incompleto' },
+    verdictFor: (material: string, spec: string) => `${material} frente a ${spec}`,
+    needsSet: (count: number, required: number, temperature: string) =>
+      `${count} de ${required} corpos de prova válidos de tamanho completo ensaiados a ${temperature}.`,
+    averageBelow: (average: string, min: string) => `A média ${average} não atinge o mínimo de ${min}.`,
+    severalBelowAverage: (count: number, min: string) => `${count} valores abaixo de ${min}; só se admite um.`,
+    individualBelow: (value: string, min: string) => `O valor ${value} fica abaixo do mínimo individual de ${min}.`,
+    excluded: (count: number) => `${count} ensaio(s) a essa temperatura não contam (inválidos ou sem tamanho completo com entalhe em V).`,
+    newSpec: 'Nova',
+    editSpec: 'Editar',
+    deleteSpec: 'Excluir',
+    newSpecTitle: 'Nova Especificação',
+    editSpecTitle: 'Editar Especificação',
+    confirmDelete: (name: string) => `Excluir a especificação "${name}"?`,
+    name: 'Nome',
+    temperature: 'Temperatura de ensaio',
+    minAverage: 'Média mínima',
+    minIndividual: 'Mínimo individual',
+    individualHint: 'Um valor pode ficar abaixo da média exigida, nunca abaixo do mínimo individual (EN 10025: 70 % da média).',
+    apply70: 'Usar 70 %',
+    nameRequired: 'O nome é obrigatório.',
+    valuesPositive: 'Os valores mínimos devem ser maiores que zero.',
+    individualAboveAverage: 'O mínimo individual não pode superar a média exigida.',
+    reportTitle: 'Conformidade com a Especificação',
+    values: 'Valores',
+    verdict: 'Resultado',
+  },
+  exercise: {
+    mode: 'Exercício',
+    modeTitle: 'Oculta a energia absorvida até o aluno calculá-la',
+    title: 'Exercício: calcule a energia absorvida',
+    intro: 'Com os dados do ensaio, calcule cada grandeza (g = 9,81 m/s²).',
+    mass: 'Massa m',
+    length: 'Comprimento L',
+    startAngle: 'Ângulo inicial α',
+    finalAngle: 'Leitura do mostrador β',
+    losses: 'Perdas da máquina',
+    quantities: {
+      h0: 'Altura inicial h0',
+      hf: 'Altura final hf',
+      pe1: 'Energia inicial PE1',
+      pe2: 'Energia final PE2',
+      kv: 'Energia absorvida KV',
+    },
+    submit: 'Corrigir',
+    yourAnswer: 'Sua resposta',
+    expected: 'Correto',
+    blank: 'sem resposta',
+    tolerance: (percent: number) => `São aceitas respostas com erro de até ${percent} %.`,
+    score: (correct: number, total: number) => `${correct} de ${total} corretas`,
+    sessionScore: (correct: number, total: number) => `Sessão: ${correct} de ${total} corretas`,
+    solution: 'Solução',
+    pending: 'Aguardando o exercício',
+    exportScores: 'Notas',
+  },
+  challenge: {
+    title: 'Desafio',
+    defaultCodeName: 'Amostra X',
+    create: 'Criar Desafio',
+    load: 'Carregar Desafio',
+    editorTitle: 'Novo Desafio',
+    editorHint: 'O aluno ensaia o material sob o codinome e escolhe entre todos os materiais da biblioteca.',
+    codeName: 'Codinome',
+    hiddenMaterial: 'Material oculto',
+    limits: 'Limites da máquina',
+    min: 'Mín.',
+    max: 'Máx.',
+    export: 'Exportar Desafio',
+    codeNameRequired: 'O codinome é obrigatório.',
+    rangeInverted: (setting: string) => `${setting}: o mínimo não pode superar o máximo.`,
+    rangeOutside: (setting: string, min: string, max: string) => `${setting}: os limites devem ficar entre ${min} e ${max}.`,
+    active: (codeName: string) => `Desafio: ${codeName}`,
+    hint: 'Ensaie a amostra em várias temperaturas e identifique o material.',
+    limitsLocked: 'Os parâmetros da máquina estão limitados pelo desafio.',
+    identification: 'Material identificado',
+    choose: 'Escolha um material',
+    reasoning: 'Justificativa',
+    reasoningPlaceholder: 'Patamares superior e inferior, temperatura de transição, aspecto da fratura…',
+    submit: 'Entregar',
+    needsTests: 'Ensaie pelo menos um corpo de prova antes de entregar.',
+    submitted: 'Resposta entregue. Baixe-a e entregue ao professor, que a corrigirá.',
+    answerWas: (codeName: string, material: string) => `${codeName} era ${material}.`,
+    yourChoice: (material: string) => `Sua resposta: ${material}`,
+    exportAnswer: 'Baixar Resposta',
+    leave: 'Sair',
+    confirmLeave: (codeName: string) => `Sair do desafio "${codeName}"? A resposta não poderá ser recuperada.`,
+    loadFailed: 'Não foi possível carregar o arquivo:',
+    gradeAnswer: 'Corrigir Resposta',
+    gradedAnswers: 'Respostas corrigidas',
+    otherChallenge: (file: string) => `"${file}" é a resposta de outro desafio.`,
+  },
+  import: {
+    notANumber: (field: string) => `"${field}" não é um número válido`,
+    notPositive: (field: string) => `"${field}" deve ser maior que zero`,
+    notBoolean: (field: string) => `"${field}" deve ser true ou false`,
+    empty: (field: string) => `"${field}" está vazio`,
+    notOneOf: (field: string, allowed: string) => `"${field}" deve ser um de: ${allowed}`,
+    invalidDate: (field: string) => `"${field}" não é uma data válida`,
+    lowerAboveUpper: 'o patamar inferior não pode superar o superior',
+    minAboveMax: (field: string) => `em "${field}" o mínimo não pode superar o máximo`,
+    unknownMaterial: (id: string, reason: string) => `material desconhecido "${id}" (${reason})`,
+    negativeLosses: 'as perdas da máquina não podem ser negativas',
+    negativeEnergy: 'a energia absorvida não pode ser negativa',
+    energyAboveInitial: 'a energia absorvida supera a energia inicial',
+    unexpected: (error: string) => `erro inesperado: ${error}`,
+    emptyFile: 'O arquivo está vazio',
+    missingColumns: (columns: string) => `Faltam colunas: ${columns}`,
+    invalidJson: 'O arquivo não é um JSON válido',
+    unknownFormat: (format: string) => `Formato desconhecido: ${format}`,
+    unsupportedVersion: (version: number, max: number) => `Versão ${version} não suportada (máx. ${max})`,
+    missingList: (list: string) => `A lista "${list}" não foi encontrada`,
+  },
+
+  unitSystems: {
+    SI: 'SI (J, kg, m, °C)',
+    US: 'EUA (ft·lbf, lb, ft, °F)',
+  },
+
+  fracture: {
+    Ductile: 'Dúctil',
+    Brittle: 'Frágil',
+    Mixed: 'Mista',
+  },
+
+  notches: {
+    V: 'Entalhe em V (2 mm, r 0,25)',
+    U: 'Entalhe em U (5 mm, r 1)',
+    Keyhole: 'Buraco de fechadura (5 mm, r 1)',
+  },
+  keyholeNotch: 'buraco de fechadura',
+
+  strikers: {
+    2: 'Cutelo 2 mm (ISO 148-1)',
+    8: 'Cutelo 8 mm (ASTM E23)',
+  },
+
+  materialDescriptions: {
+    'steel-1045': 'Aço de médio carbono. Alta resistência e boa tenacidade ao impacto.',
+    'al-6061': 'Liga de alumínio endurecida. Versátil, leve e de tenacidade moderada.',
+    'cast-iron': 'Material frágil com baixa resistência ao impacto, mas alto amortecimento.',
+    'titanium-grade5': 'Excelente relação resistência-peso e resistência à corrosão.',
+    'pvc-rigid': 'Termoplástico comum. Comportamento frágil sob impacto a alta velocidade.',
+  },
+
+  materialTypes: {
+    Metal: 'Metal',
+    Polímero: 'Polímero',
+    Cerámico: 'Cerâmico',
+    Compuesto: 'Compósito',
+  },
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  angleAtTime,
+  angleFromHeight,
+  createSeededRandom,
+  deriveSeed,
+  heightFromAngle,
+  inputFromResult,
+  initialEnergy,
+  lossCorrection,
+  potentialEnergy,
+  simulateFreeSwing,
+  simulateTest,
+  stepPendulum,
+  withLossCorrection,
+} from './engine';
+import { DEFAULT_CONFIG, DEFAULT_MACHINE, DEFAULT_SPECIMEN, GRAVITY, MATERIALS, NO_MACHINE_LOSSES } from '../constants';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+const castIron = MATERIALS.find(m => m.id === 'cast-iron')!;
+
+// Frictionless machine, so the energy balances below are exact
+const IDEAL_CONFIG = { ...DEFAULT_CONFIG, machine: { ...DEFAULT_MACHINE, ...NO_MACHINE_LOSSES } };
+
+const run = (overrides: Partial<typeof DEFAULT_CONFIG> = {}, material = steel, seed = 42) =>
+  simulateTest({
+    config: { ...IDEAL_CONFIG, ...overrides },
+    material,
+    specimen: DEFAULT_SPECIMEN,
+    seed,
+    timestamp: 0,
+  });
+
+describe('height and angle relations', () => {
+  it('computes h = L(1 - cos θ)', () => {
+    expect(heightFromAngle(1, 0)).toBeCloseTo(0);
+    expect(heightFromAngle(1, 90)).toBeCloseTo(1);
+    expect(heightFromAngle(0.8, 180)).toBeCloseTo(1.6);
+    expect(heightFromAngle(0.8, 135)).toBeCloseTo(0.8 * (1 + Math.SQRT1_2));
+  });
+
+  it('inverts the height relation', () => {
+    for (const angle of [0, 30, 90, 135, 160]) {
+      expect(angleFromHeight(1.2, heightFromAngle(1.2, angle))).toBeCloseTo(angle, 6);
+    }
+  });
+
+  it('clamps heights outside the reachable range', () => {
+    expect(angleFromHeight(1, -0.5)).toBe(0);
+    expect(angleFromHeight(1, 3)).toBeCloseTo(180);
+  });
+
+  it('derives PE1 from the release angle', () => {
+    const { mass, length, startAngle } = DEFAULT_CONFIG;
+    expect(initialEnergy(DEFAULT_CONFIG)).toBeCloseTo(mass * GRAVITY * length * (1 - Math.cos((startAngle * Math.PI) / 180)));
+  });
+});
+
+describe('seeds', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(99);
+    const b = createSeededRandom(99);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()));
+    values.forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+  });
+
+  it('derives stable seeds from a session seed', () => {
+    expect(deriveSeed(2024, 'steel-1045', 0)).toBe(deriveSeed(2024, 'steel-1045', 0));
+    expect(deriveSeed(2024, 'steel-1045', 0)).not.toBe(deriveSeed(2024, 'steel-1045', 1));
+  });
+});
+
+describe('simulateTest', () => {
+  it('is deterministic for a given seed', () => {
+    expect(run({}, steel, 7)).toEqual(run({}, steel, 7));
+    expect(run({}, steel, 7).result.absorbedEnergy).not.toBe(run({}, steel, 8).result.absorbedEnergy);
+  });
+
+  it('replays a stored result exactly', () => {
+    const original = run({ temperature: -10 }, steel, 1234);
+    expect(simulateTest(inputFromResult(original.result))).toEqual(original);
+  });
+
+  it('balances PE1 = KV + PE2 with the final angle', () => {
+    const { result } = run();
+    const pe2 = potentialEnergy(DEFAULT_CONFIG.mass, heightFromAngle(DEFAULT_CONFIG.length, result.finalAngle));
+    expect(result.initialEnergy).toBeCloseTo(result.absorbedEnergy + pe2, 6);
+    expect(result.didBreak).toBe(true);
+  });
+
+  it('conserves mechanical energy before and after the impact', () => {
+    const { result, trajectory, impactTime } = run();
+    const before = trajectory.filter(s => s.time < impactTime);
+    const after = trajectory.filter(s => s.time > impactTime);
+    const pe2 = result.initialEnergy - result.absorbedEnergy;
+
+    expect(before.length).toBeGreaterThan(10);
+    expect(after.length).toBeGreaterThan(10);
+    before.forEach(s => expect(Math.abs(s.total - result.initialEnergy) / result.initialEnergy).toBeLessThan(1e-4));
+    after.forEach(s => expect(Math.abs(s.total - pe2) / pe2).toBeLessThan(1e-4));
+  });
+
+  it('reaches the specimen at θ = 0 and stops at the final angle', () => {
+    const { result, trajectory, impactTime } = run();
+    expect(angleAtTime(trajectory, impactTime)).toBeCloseTo(0, 6);
+    const last = trajectory[trajectory.length - 1];
+    expect(last.velocity).toBe(0);
+    expect(last.angle).toBeCloseTo((result.finalAngle * Math.PI) / 180, 6);
+  });
+
+  it('stops the hammer when the specimen absorbs all the energy', () => {
+    const { result } = run({ mass: 5, length: 0.5, startAngle: 90, temperature: 40 }, steel);
+    expect(result.didBreak).toBe(false);
+    expect(result.absorbedEnergy).toBeCloseTo(result.initialEnergy);
+    expect(result.finalAngle).toBeCloseTo(0);
+  });
+
+  it('takes the fracture type from the transition model', () => {
+    expect(run({ temperature: 40 }).result.fractureType).toBe('Ductile');
+    expect(run({ temperature: -80 }).result.fractureType).toBe('Brittle');
+    expect(run({ temperature: 40 }, castIron).result.fractureType).toBe('Brittle');
+  });
+
+  it('brings a braked pendulum to rest at the bottom', () => {
+    let state = { angle: 1, velocity: 0 };
+    for (let t = 0; t < 8; t += 0.001) state = stepPendulum(state.angle, state.velocity, 0.8, 0.001, 3);
+    expect(Math.abs(state.angle)).toBeLessThan(1e-3);
+    expect(Math.abs(state.velocity)).toBeLessThan(1e-2);
+  });
+});
+
+describe('machine losses', () => {
+  it('measures the losses with a free swing', () => {
+    const free = simulateFreeSwing(DEFAULT_CONFIG);
+    expect(free.finalAngle).toBeLessThan(DEFAULT_CONFIG.startAngle);
+    expect(free.loss).toBeGreaterThan(0);
+    expect(free.loss).toBeLessThan(0.01 * initialEnergy(DEFAULT_CONFIG));
+    expect(simulateFreeSwing(IDEAL_CONFIG).finalAngle).toBeCloseTo(IDEAL_CONFIG.startAngle, 4);
+    expect(simulateFreeSwing(IDEAL_CONFIG).loss).toBeCloseTo(0, 4);
+  });
+
+  it('scales the correction with the angle travelled', () => {
+    const free = simulateFreeSwing(DEFAULT_CONFIG);
+    expect(lossCorrection(DEFAULT_CONFIG, free, free.finalAngle)).toBeCloseTo(free.loss, 10);
+    expect(lossCorrection(DEFAULT_CONFIG, free, 0)).toBeLessThan(free.loss);
+  });
+
+  it('corrects the dial reading back to the energy taken by the specimen', () => {
+    // Same seed, so the specimen demands the same energy on both machines
+    const ideal = run({ temperature: 0 }).result;
+    const real = simulateTest({ ...inputFromResult(ideal), config: { ...DEFAULT_CONFIG, temperature: 0 } }).result;
+    expect(real.uncorrectedEnergy).toBeCloseTo(real.initialEnergy - potentialEnergy(real.config.mass, heightFromAngle(real.config.length, real.finalAngle)), 6);
+    expect(real.uncorrectedEnergy - ideal.absorbedEnergy).toBeGreaterThan(real.lossCorrection * 0.5);
+    expect(Math.abs(real.absorbedEnergy - ideal.absorbedEnergy)).toBeLessThan(0.2);
+    expect(real.absorbedEnergy).toBeCloseTo(real.uncorrectedEnergy - real.lossCorrection, 10);
+  });
+
+  it('treats older results as read on an ideal machine', () => {
+    const { uncorrectedEnergy: _raw, lossCorrection: _p, ...legacy } = run().result;
+    const upgraded = withLossCorrection(legacy);
+    expect(upgraded.uncorrectedEnergy).toBe(legacy.absorbedEnergy);
+    expect(upgraded.lossCorrection).toBe(0);
+  });
+});
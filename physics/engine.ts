@@ -0,0 +1,318 @@
+import { Material, PendulumConfig, SpecimenGeometry, TestResult } from '../types';
+import { GRAVITY } from '../constants';
+import { energyAtTemperature, fractureTypeAtTemperature } from './transitionModel';
+import { scaleTransitionCurve } from './specimenModel';
+import { fractureAppearance } from './fractureAppearance';
+import { forceTrace, InstrumentedTrace } from './instrumented';
+
+// Uniform random numbers in [0, 1)
+export type RandomSource = () => number;
+
+// Mulberry32: small, fast and good enough for reproducible scatter
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for tests run without a session seed
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// FNV-1a hash of the parts, used to derive per-test seeds from a session seed
+export const deriveSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811c9dc5;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export interface SimulationInput {
+  config: PendulumConfig;
+  material: Material;
+  specimen: SpecimenGeometry;
+  seed: number;
+  timestamp: number;
+}
+
+export interface TrajectorySample {
+  time: number; // s
+  angle: number; // rad, negative on the release side, 0 at the specimen
+  velocity: number; // rad/s
+  kinetic: number; // Joules
+  potential: number; // Joules, relative to the impact point
+  total: number; // Joules
+}
+
+export interface SimulationOutput {
+  result: TestResult;
+  trajectory: TrajectorySample[];
+  impactTime: number; // s, time at which the hammer reaches the specimen
+}
+
+const STEP = 0.001; // s, integration step
+const SAMPLE_EVERY = 5; // steps between stored samples
+const MAX_TIME = 10; // s, safety limit per phase
+
+const toRad = (deg: number) => deg * (Math.PI / 180);
+const toDeg = (rad: number) => rad * (180 / Math.PI);
+
+// h = L(1 - cos θ)
+export const heightFromAngle = (length: number, angleDeg: number): number => length * (1 - Math.cos(toRad(angleDeg)));
+
+// Inverse of heightFromAngle, clamped to the physically reachable range
+export const angleFromHeight = (length: number, height: number): number => {
+  const cosAngle = Math.max(-1, Math.min(1, 1 - height / length));
+  return toDeg(Math.acos(cosAngle));
+};
+
+export const potentialEnergy = (mass: number, height: number): number => mass * GRAVITY * height;
+
+// Available energy of the pendulum at the release angle (PE1)
+export const initialEnergy = (config: PendulumConfig): number =>
+  potentialEnergy(config.mass, heightFromAngle(config.length, config.startAngle));
+
+// Striker velocity at the moment of impact, v = √(2 g h)
+export const impactVelocity = (config: PendulumConfig): number =>
+  Math.sqrt(2 * GRAVITY * heightFromAngle(config.length, config.startAngle));
+
+// Angular deceleration (rad/s²) opposing the motion at a given angular velocity
+export type LossModel = (velocity: number) => number;
+
+const noLosses: LossModel = () => 0;
+
+// Bearing friction (constant torque) and windage (torque ∝ ω²) over the inertia of the hammer
+export const machineLosses = (config: PendulumConfig): LossModel => {
+  const inertia = config.mass * config.length ** 2;
+  const { frictionTorque, windageCoefficient } = config.machine;
+  return velocity => (Math.sign(velocity) * frictionTorque + windageCoefficient * velocity * Math.abs(velocity)) / inertia;
+};
+
+// Point-mass pendulum: θ'' = -(g / L) sin θ - c θ' - losses(θ'), integrated with classic RK4.
+// The damping c (1/s) is zero during the test; the animation uses it for the brake.
+export const stepPendulum = (
+  angle: number,
+  velocity: number,
+  length: number,
+  dt: number,
+  damping = 0,
+  losses: LossModel = noLosses
+) => {
+  const acc = (a: number, v: number) => -(GRAVITY / length) * Math.sin(a) - damping * v - losses(v);
+  const k1a = velocity;
+  const k1v = acc(angle, velocity);
+  const k2a = velocity + (k1v * dt) / 2;
+  const k2v = acc(angle + (k1a * dt) / 2, k2a);
+  const k3a = velocity + (k2v * dt) / 2;
+  const k3v = acc(angle + (k2a * dt) / 2, k3a);
+  const k4a = velocity + k3v * dt;
+  const k4v = acc(angle + k3a * dt, k4a);
+  return {
+    angle: angle + (dt / 6) * (k1a + 2 * k2a + 2 * k3a + k4a),
+    velocity: velocity + (dt / 6) * (k1v + 2 * k2v + 2 * k3v + k4v),
+  };
+};
+
+const sample = (config: PendulumConfig, time: number, angle: number, velocity: number): TrajectorySample => {
+  const kinetic = 0.5 * config.mass * config.length * config.length * velocity * velocity;
+  const potential = potentialEnergy(config.mass, config.length * (1 - Math.cos(angle)));
+  return { time, angle, velocity, kinetic, potential, total: kinetic + potential };
+};
+
+// Release from rest on the left and integrate until the specimen is reached; returns the impact time and velocity
+const swingDown = (config: PendulumConfig, losses: LossModel, trajectory: TrajectorySample[]) => {
+  let angle = -toRad(config.startAngle);
+  let velocity = 0;
+  let time = 0;
+  let step = 0;
+  trajectory.push(sample(config, time, angle, velocity));
+
+  while (angle < 0 && time < MAX_TIME) {
+    const next = stepPendulum(angle, velocity, config.length, STEP, 0, losses);
+    if (next.angle >= 0) {
+      // Interpolate the crossing so the impact happens exactly at θ = 0; the velocity comes
+      // from the energy of the last step, the losses over the remaining fraction are negligible
+      const fraction = -angle / (next.angle - angle);
+      time += STEP * fraction;
+      velocity = Math.sqrt(velocity ** 2 + (2 * GRAVITY * (1 - Math.cos(angle))) / config.length);
+      angle = 0;
+      break;
+    }
+    ({ angle, velocity } = next);
+    time += STEP;
+    if (++step % SAMPLE_EVERY === 0) trajectory.push(sample(config, time, angle, velocity));
+  }
+  trajectory.push(sample(config, time, angle, velocity));
+  return { time, velocity };
+};
+
+// Swing up from θ = 0 until the hammer stops at its highest point; returns the stop time and angle (rad)
+const swingUp = (config: PendulumConfig, losses: LossModel, startVelocity: number, startTime: number, trajectory: TrajectorySample[]) => {
+  let angle = 0;
+  let velocity = startVelocity;
+  let time = startTime;
+  let step = 0;
+
+  while (velocity > 0 && time < startTime + MAX_TIME) {
+    const next = stepPendulum(angle, velocity, config.length, STEP, 0, losses);
+    if (next.velocity <= 0) {
+      // Turning point (ω = 0): time interpolated, height from the energy of the last step
+      const fraction = velocity / (velocity - next.velocity);
+      const height = config.length * (1 - Math.cos(angle)) + (config.length * velocity) ** 2 / (2 * GRAVITY);
+      time += STEP * fraction;
+      angle = toRad(angleFromHeight(config.length, height));
+      velocity = 0;
+      break;
+    }
+    ({ angle, velocity } = next);
+    time += STEP;
+    if (++step % SAMPLE_EVERY === 0) trajectory.push(sample(config, time, angle, velocity));
+  }
+  trajectory.push(sample(config, time, angle, velocity));
+  return { time, angle };
+};
+
+export interface FreeSwingResult {
+  trajectory: TrajectorySample[];
+  finalAngle: number; // degrees, β1 reached without a specimen
+  loss: number; // Joules, friction and windage over the whole swing (p)
+}
+
+// Calibration run: release without a specimen and read the angle on the other side
+export const simulateFreeSwing = (config: PendulumConfig): FreeSwingResult => {
+  const losses = machineLosses(config);
+  const trajectory: TrajectorySample[] = [];
+  const down = swingDown(config, losses, trajectory);
+  const up = swingUp(config, losses, down.velocity, down.time, trajectory);
+  const finalAngle = toDeg(up.angle);
+  const loss = initialEnergy(config) - potentialEnergy(config.mass, heightFromAngle(config.length, finalAngle));
+  return { trajectory, finalAngle, loss };
+};
+
+// Losses during a test, scaled from the free swing by the angle travelled: p · (α + β) / (α + β1)
+export const lossCorrection = (config: PendulumConfig, freeSwing: FreeSwingResult, finalAngle: number): number =>
+  (freeSwing.loss * (config.startAngle + finalAngle)) / (config.startAngle + freeSwing.finalAngle);
+
+// Runs a full test: swing down to the specimen, impact, swing up to rest and the dial reading
+export const simulateTest = ({ config, material, specimen, seed, timestamp }: SimulationInput): SimulationOutput => {
+  const random = createSeededRandom(seed);
+  const losses = machineLosses(config);
+
+  // 1. Initial Potential Energy (PE1)
+  const pe1 = initialEnergy(config);
+
+  // 2. Energy the specimen takes at this geometry and temperature (±5% scatter)
+  const curve = scaleTransitionCurve(material.transition, specimen);
+  const variance = random() * 0.1 - 0.05;
+  let absorbed = energyAtTemperature(curve, config.temperature) * (1 + variance);
+
+  // 3. Motion down to the specimen; friction and windage have already taken part of PE1
+  const trajectory: TrajectorySample[] = [];
+  const down = swingDown(config, losses, trajectory);
+  const impactTime = down.time;
+  const kineticAtImpact = 0.5 * config.mass * config.length ** 2 * down.velocity ** 2;
+
+  // 4. Impact: the specimen takes its energy out of the kinetic energy (physics constraint)
+  let didBreak = true;
+  if (absorbed >= kineticAtImpact) {
+    absorbed = kineticAtImpact;
+    didBreak = false;
+  }
+  const velocityAfter = Math.sqrt((2 * (kineticAtImpact - absorbed)) / (config.mass * config.length ** 2));
+  trajectory.push(sample(config, impactTime, 0, velocityAfter));
+
+  // 5. Swing up until the hammer stops at its highest point
+  const up = swingUp(config, losses, velocityAfter, impactTime, trajectory);
+  const finalAngle = toDeg(up.angle);
+
+  // 6. Dial reading (PE1 - PE2) corrected with the losses measured in the free swing
+  const uncorrectedEnergy = pe1 - potentialEnergy(config.mass, heightFromAngle(config.length, finalAngle));
+  const correction = lossCorrection(config, simulateFreeSwing(config), finalAngle);
+
+  const measured = {
+    id: timestamp.toString(),
+    timestamp,
+    material,
+    specimen,
+    config,
+    seed,
+    temperature: config.temperature,
+    initialEnergy: pe1,
+    absorbedEnergy: Math.max(uncorrectedEnergy - correction, 0),
+    uncorrectedEnergy,
+    lossCorrection: correction,
+    finalAngle,
+    didBreak,
+    fractureType: fractureTypeAtTemperature(curve, config.temperature),
+    ...fractureAppearance(curve, specimen, absorbed),
+  };
+  const { initiationEnergy, propagationEnergy } = instrumentedTrace(measured);
+  const result: TestResult = { ...measured, initiationEnergy, propagationEnergy };
+
+  return { result, trajectory, impactTime };
+};
+
+type EnergySplit = 'initiationEnergy' | 'propagationEnergy';
+
+// Force signal of the instrumented striker. Seeded apart from the energy scatter,
+// so it can be rebuilt at any time from the stored result.
+export const instrumentedTrace = (result: Omit<TestResult, EnergySplit>): InstrumentedTrace =>
+  forceTrace({
+    absorbedEnergy: result.absorbedEnergy,
+    shearPercent: result.shearPercent,
+    mass: result.config.mass,
+    impactVelocity: impactVelocity(result.config),
+    random: createSeededRandom(deriveSeed(result.seed, 'instrumented')),
+  });
+
+// Fills in the energy split of results stored before it was recorded
+export const withEnergySplit = (result: Omit<TestResult, EnergySplit> & Partial<Pick<TestResult, EnergySplit>>): TestResult => {
+  if (typeof result.initiationEnergy === 'number' && typeof result.propagationEnergy === 'number') {
+    return result as TestResult;
+  }
+  const { initiationEnergy, propagationEnergy } = instrumentedTrace(result);
+  return { ...result, initiationEnergy, propagationEnergy };
+};
+
+type LossFields = 'uncorrectedEnergy' | 'lossCorrection';
+
+// Results from before the losses were modelled come from an ideal machine: the dial reading is the absorbed energy
+export const withLossCorrection = <T extends Pick<TestResult, 'absorbedEnergy'> & Partial<Pick<TestResult, LossFields>>>(
+  result: T
+): T & Pick<TestResult, LossFields> => {
+  if (typeof result.uncorrectedEnergy === 'number' && typeof result.lossCorrection === 'number') {
+    return result as T & Pick<TestResult, LossFields>;
+  }
+  return { ...result, uncorrectedEnergy: result.absorbedEnergy, lossCorrection: 0 };
+};
+
+// Everything needed to run the same test again
+export const inputFromResult = (result: TestResult): SimulationInput => ({
+  config: result.config,
+  material: result.material,
+  specimen: result.specimen,
+  seed: result.seed,
+  timestamp: result.timestamp,
+});
+
+// Angle (rad) along the trajectory at a given time, linearly interpolated
+export const angleAtTime = (trajectory: TrajectorySample[], time: number): number => {
+  if (trajectory.length === 0) return 0;
+  if (time <= trajectory[0].time) return trajectory[0].angle;
+  for (let i = 1; i < trajectory.length; i++) {
+    const b = trajectory[i];
+    if (time <= b.time) {
+      const a = trajectory[i - 1];
+      const span = b.time - a.time;
+      return span > 0 ? a.angle + ((b.angle - a.angle) * (time - a.time)) / span : b.angle;
+    }
+  }
+  return trajectory[trajectory.length - 1].angle;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { fractureAppearance, withFractureAppearance } from './fractureAppearance';
+import { simulateTest } from './engine';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+
+describe('fracture appearance', () => {
+  it('maps the shelves to 0 % and 100 % shear', () => {
+    const { upperShelf, lowerShelf } = steel.transition;
+    expect(fractureAppearance(steel.transition, DEFAULT_SPECIMEN, lowerShelf).shearPercent).toBe(0);
+    expect(fractureAppearance(steel.transition, DEFAULT_SPECIMEN, upperShelf).shearPercent).toBe(100);
+    expect(fractureAppearance(steel.transition, DEFAULT_SPECIMEN, upperShelf * 1.05).shearPercent).toBe(100);
+  });
+
+  it('grows lateral expansion with the absorbed energy', () => {
+    const low = fractureAppearance(steel.transition, DEFAULT_SPECIMEN, 20);
+    const high = fractureAppearance(steel.transition, DEFAULT_SPECIMEN, 150);
+    expect(high.lateralExpansion).toBeGreaterThan(low.lateralExpansion);
+    expect(fractureAppearance(steel.transition, DEFAULT_SPECIMEN, steel.transition.upperShelf).lateralExpansion)
+      .toBeCloseTo(2.25, 2);
+  });
+
+  it('is recorded by the engine and rebuilt for older results', () => {
+    const { result } = simulateTest({
+      config: { ...DEFAULT_CONFIG, temperature: -15 },
+      material: steel,
+      specimen: DEFAULT_SPECIMEN,
+      seed: 7,
+      timestamp: 1,
+    });
+    expect(result.shearPercent).toBeGreaterThan(0);
+    expect(result.shearPercent).toBeLessThan(100);
+
+    const { lateralExpansion: _le, shearPercent: _shear, ...legacy } = result;
+    expect(withFractureAppearance(legacy)).toEqual(result);
+  });
+});
@@ -0,0 +1,42 @@
+import { SpecimenGeometry, TestResult, TransitionCurve } from '../types';
+import { fractureAreaCm2, scaleTransitionCurve } from './specimenModel';
+
+// ASTM E23 side measurements of a broken specimen
+export interface FractureAppearance {
+  lateralExpansion: number; // mm, widening of the compression side
+  shearPercent: number; // %, ductile (fibrous) share of the fracture surface
+}
+
+// Lateral expansion per unit of notch toughness for fully ductile fracture (≈2.2 mm at 225 J/cm²)
+const EXPANSION_PER_J_CM2 = 0.01; // mm / (J/cm²)
+
+// Share of the expansion still produced by a fully brittle fracture
+const BRITTLE_EXPANSION_SHARE = 0.25;
+
+// Shear area follows the position of the absorbed energy between the shelves of the (scaled) curve;
+// lateral expansion grows with the energy per ligament area and with the ductile share
+export const fractureAppearance = (
+  curve: TransitionCurve,
+  specimen: SpecimenGeometry,
+  absorbedEnergy: number
+): FractureAppearance => {
+  const span = curve.upperShelf - curve.lowerShelf;
+  const fraction = span > 0 ? Math.min(Math.max((absorbedEnergy - curve.lowerShelf) / span, 0), 1) : 1;
+  const toughness = absorbedEnergy / fractureAreaCm2(specimen);
+  const expansion = EXPANSION_PER_J_CM2 * toughness * (BRITTLE_EXPANSION_SHARE + (1 - BRITTLE_EXPANSION_SHARE) * fraction);
+  return {
+    lateralExpansion: Math.round(expansion * 100) / 100,
+    shearPercent: Math.round(fraction * 100),
+  };
+};
+
+// Fills in the appearance of results stored before it was recorded
+export const withFractureAppearance = (
+  result: Omit<TestResult, keyof FractureAppearance> & Partial<FractureAppearance>
+): TestResult => {
+  if (typeof result.lateralExpansion === 'number' && typeof result.shearPercent === 'number') {
+    return result as TestResult;
+  }
+  const curve = scaleTransitionCurve(result.material.transition, result.specimen);
+  return { ...result, ...fractureAppearance(curve, result.specimen, result.absorbedEnergy) };
+};
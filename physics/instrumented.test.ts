@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { forceTrace, InstrumentedTrace } from './instrumented';
+import { createSeededRandom, simulateTest, withEnergySplit } from './engine';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+
+const trace = (absorbedEnergy: number, shearPercent: number) =>
+  forceTrace({ absorbedEnergy, shearPercent, mass: 20, impactVelocity: 5.2, random: createSeededRandom(1) });
+
+const traceArea = ({ samples }: InstrumentedTrace) =>
+  samples.slice(1).reduce((sum, s, i) => sum + ((s.force + samples[i].force) / 2) * (s.displacement - samples[i].displacement), 0);
+
+describe('instrumented striker', () => {
+  it('encloses exactly the absorbed energy', () => {
+    [[8, 0], [60, 40], [180, 100]].forEach(([energy, shear]) => {
+      const result = trace(energy, shear);
+      expect(traceArea(result)).toBeCloseTo(energy, 6);
+      expect(result.initiationEnergy + result.propagationEnergy).toBeCloseTo(energy, 6);
+    });
+  });
+
+  it('matches the curve type to the fracture behaviour', () => {
+    const brittle = trace(8, 0);
+    expect(brittle.generalYieldForce).toBeNull();
+    expect(brittle.arrestForce).toBe(0);
+
+    const mixed = trace(60, 40);
+    expect(mixed.generalYieldForce).toBeLessThan(mixed.maxForce);
+    expect(mixed.unstableForce).toBeGreaterThan(mixed.arrestForce!);
+
+    const ductile = trace(180, 100);
+    expect(ductile.unstableForce).toBeNull();
+    expect(ductile.propagationEnergy).toBeGreaterThan(ductile.initiationEnergy);
+  });
+
+  it('keeps the characteristic forces on the plotted curve, below Fm', () => {
+    [0, 20, 40, 70, 100].forEach(shear => {
+      [1, 2, 3, 4, 5].forEach(seed => {
+        const result = forceTrace({ absorbedEnergy: 60, shearPercent: shear, mass: 20, impactVelocity: 5.2, random: createSeededRandom(seed) });
+        expect(result.maxForce).toBe(Math.max(...result.samples.map(s => s.force)));
+        if (result.generalYieldForce !== null) expect(result.generalYieldForce).toBeLessThanOrEqual(result.maxForce);
+        if (result.unstableForce !== null) {
+          expect(result.unstableForce).toBeLessThanOrEqual(result.maxForce);
+          if (shear > 0) expect(result.unstableForce).toBeLessThan(result.maxForce);
+        }
+        if (result.arrestForce !== null) expect(result.arrestForce).toBeLessThan(result.maxForce);
+      });
+    });
+  });
+
+  it('slows the striker down as energy is absorbed', () => {
+    const { samples } = trace(180, 100);
+    const early = (samples[11].time - samples[10].time) / (samples[11].displacement - samples[10].displacement);
+    const late = (samples.at(-1)!.time - samples.at(-2)!.time) / (samples.at(-1)!.displacement - samples.at(-2)!.displacement);
+    expect(late).toBeGreaterThan(early);
+  });
+
+  it('stores the energy split and rebuilds it for older results', () => {
+    const { result } = simulateTest({
+      config: { ...DEFAULT_CONFIG, temperature: -15 },
+      material: MATERIALS[0],
+      specimen: DEFAULT_SPECIMEN,
+      seed: 3,
+      timestamp: 1,
+    });
+    expect(result.initiationEnergy + result.propagationEnergy).toBeCloseTo(result.absorbedEnergy, 6);
+
+    const { initiationEnergy: _wi, propagationEnergy: _wp, ...legacy } = result;
+    expect(withEnergySplit(legacy)).toEqual(result);
+  });
+});
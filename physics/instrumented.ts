@@ -0,0 +1,144 @@
+import { RandomSource } from './engine';
+
+// Instrumented striker (ISO 14556): force signal recorded during the impact
+export interface ForceSample {
+  time: number; // ms from first contact
+  displacement: number; // mm, striker travel
+  force: number; // kN
+}
+
+export interface InstrumentedTrace {
+  samples: ForceSample[];
+  generalYieldForce: number | null; // kN, Fgy (none for fully brittle fracture)
+  maxForce: number; // kN, Fm
+  unstableForce: number | null; // kN, Fiu (start of unstable crack growth)
+  arrestForce: number | null; // kN, Fa (crack arrest)
+  initiationEnergy: number; // J, up to Fm (Wm)
+  propagationEnergy: number; // J, after Fm
+}
+
+export interface ForceTraceInput {
+  absorbedEnergy: number; // J
+  shearPercent: number; // %, sets the shape of the curve
+  mass: number; // kg, striker mass
+  impactVelocity: number; // m/s
+  random: RandomSource;
+}
+
+const SAMPLE_STEP = 0.02; // mm
+const YIELD_DISPLACEMENT = 0.8; // mm, end of the elastic part
+const YIELD_RATIO = 0.8; // Fgy / Fm
+const HARDENING_DISPLACEMENT = 1.5; // mm, general yield to Fm for a fully ductile fracture
+const TEARING_DISPLACEMENT = 14; // mm, stable tearing after Fm for a fully ductile fracture
+const DROP_DISPLACEMENT = 0.05; // mm, sudden force drop of unstable crack growth
+const BRITTLE_LIMIT = 5; // % shear, below it the specimen breaks in the elastic part
+const DUCTILE_LIMIT = 98; // % shear, above it there is no unstable crack growth
+const RINGING = 0.06; // Inertial oscillation of the first contact, relative to Fm
+const NOISE = 0.01; // Signal noise, relative to Fm
+
+interface Point {
+  s: number; // mm
+  f: number; // normalised force (Fm = 1)
+}
+
+// Curve shape with Fm = 1, following the ISO 14556 types: brittle (elastic rise and drop),
+// mixed (yield, Fm, stable tearing, unstable drop, arrest tail) and ductile (gradual decline)
+const normalisedShape = (shearPercent: number) => {
+  const shear = Math.min(Math.max(shearPercent, 0), 100) / 100;
+  const points: Point[] = [{ s: 0, f: 0 }];
+  const segment = (from: number, to: number, force: (x: number) => number) => {
+    const steps = Math.max(Math.ceil((to - from) / SAMPLE_STEP), 1);
+    for (let i = 1; i <= steps; i++) {
+      const x = i / steps;
+      points.push({ s: from + (to - from) * x, f: force(x) });
+    }
+  };
+
+  if (shearPercent < BRITTLE_LIMIT) {
+    const sFracture = YIELD_DISPLACEMENT / YIELD_RATIO;
+    segment(0, sFracture, x => x);
+    segment(sFracture, sFracture + DROP_DISPLACEMENT, x => 1 - x);
+    return { points, yieldForce: null, unstableForce: 1, arrestForce: 0 };
+  }
+
+  segment(0, YIELD_DISPLACEMENT, x => x * YIELD_RATIO);
+  const sMax = YIELD_DISPLACEMENT + HARDENING_DISPLACEMENT * (0.3 + 0.7 * shear);
+  segment(YIELD_DISPLACEMENT, sMax, x => YIELD_RATIO + (1 - YIELD_RATIO) * Math.sin((x * Math.PI) / 2));
+
+  const decline = (length: number) => 1 - Math.pow(length / TEARING_DISPLACEMENT, 1.5);
+  if (shearPercent >= DUCTILE_LIMIT) {
+    segment(sMax, sMax + TEARING_DISPLACEMENT, x => decline(x * TEARING_DISPLACEMENT));
+    return { points, yieldForce: YIELD_RATIO, unstableForce: null, arrestForce: null };
+  }
+
+  // The more ductile the fracture, the longer the stable tearing and the higher the arrest force
+  const stable = TEARING_DISPLACEMENT * Math.pow(shear, 1.5);
+  const sUnstable = sMax + stable;
+  const unstableForce = decline(stable);
+  const arrestForce = unstableForce * (0.3 + 0.5 * shear);
+  const tail = TEARING_DISPLACEMENT * 0.5 * (1 - shear);
+  segment(sMax, sUnstable, x => decline(x * stable));
+  segment(sUnstable, sUnstable + DROP_DISPLACEMENT, x => unstableForce + (arrestForce - unstableForce) * x);
+  segment(sUnstable + DROP_DISPLACEMENT, sUnstable + DROP_DISPLACEMENT + tail, x => arrestForce * (1 - x));
+  return { points, yieldForce: YIELD_RATIO, unstableForce, arrestForce };
+};
+
+const area = (points: Point[], force: (p: Point, i: number) => number): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += ((force(points[i - 1], i - 1) + force(points[i], i)) / 2) * (points[i].s - points[i - 1].s);
+  }
+  return total;
+};
+
+// Builds the force signal whose area (kN·mm = J) equals the absorbed energy
+export const forceTrace = ({ absorbedEnergy, shearPercent, mass, impactVelocity, random }: ForceTraceInput): InstrumentedTrace => {
+  const shape = normalisedShape(shearPercent);
+  const { points } = shape;
+  const shapeArea = area(points, p => p.f);
+  const scale = shapeArea > 0 ? absorbedEnergy / shapeArea : 0;
+
+  // Ringing of the first contact plus noise, then rescaled so the energy stays exact
+  const noisy = points.map(p => {
+    const ringing = RINGING * Math.exp(-p.s / 0.15) * Math.sin((2 * Math.PI * p.s) / 0.2);
+    const noise = p.f > 0 ? (random() - 0.5) * 2 * NOISE : 0;
+    return Math.max(p.f + ringing + noise, 0) * scale;
+  });
+  const noisyArea = area(points, (_p, i) => noisy[i]);
+  const correction = noisyArea > 0 ? absorbedEnergy / noisyArea : 0;
+
+  // Striker slows down as the specimen takes energy: v² = v0² - 2 W / m
+  const samples: ForceSample[] = [];
+  let energy = 0;
+  let time = 0;
+  let maxIndex = 0;
+  let initiationEnergy = 0;
+  points.forEach((p, i) => {
+    const force = noisy[i] * correction;
+    if (i > 0) {
+      const ds = p.s - points[i - 1].s;
+      energy += ((samples[i - 1].force + force) / 2) * ds;
+      const velocity = Math.sqrt(Math.max(impactVelocity ** 2 - (2 * energy) / mass, (0.01 * impactVelocity) ** 2));
+      time += ds / velocity; // mm / (m/s) = ms
+    }
+    samples.push({ time, displacement: p.s, force });
+    if (force > samples[maxIndex].force) {
+      maxIndex = i;
+      initiationEnergy = energy;
+    }
+  });
+
+  // Characteristic forces are scaled like the samples, so they sit on the plotted curve. Fm is the peak
+  // of the noisy signal and the others may not exceed it (for a brittle fracture Fiu is Fm itself).
+  const maxForce = samples[maxIndex].force;
+  const onCurve = (force: number | null) => (force === null ? null : Math.min(force * scale * correction, maxForce));
+  return {
+    samples,
+    generalYieldForce: onCurve(shape.yieldForce),
+    maxForce,
+    unstableForce: onCurve(shape.unstableForce),
+    arrestForce: onCurve(shape.arrestForce),
+    initiationEnergy,
+    propagationEnergy: Math.max(absorbedEnergy - initiationEnergy, 0),
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildSeriesQueue, parseSeriesValues, SeriesPlan } from './series';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+
+const plan = (overrides: Partial<SeriesPlan> = {}): SeriesPlan => ({
+  materialIds: ['steel-1045', 'cast-iron'],
+  specimensPerCondition: 3,
+  variable: 'none',
+  values: [],
+  animated: false,
+  ...overrides,
+});
+
+describe('series queue', () => {
+  it('runs N specimens per material at the base configuration', () => {
+    const queue = buildSeriesQueue(plan(), DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS);
+    expect(queue).toHaveLength(6);
+    expect(queue.map(item => item.material.id)).toEqual([
+      'steel-1045', 'steel-1045', 'steel-1045', 'cast-iron', 'cast-iron', 'cast-iron',
+    ]);
+    expect(queue.every(item => item.config === DEFAULT_CONFIG)).toBe(true);
+  });
+
+  it('sweeps the selected variable for every material', () => {
+    const queue = buildSeriesQueue(
+      plan({ materialIds: ['steel-1045'], specimensPerCondition: 2, variable: 'temperature', values: [-40, 0, 40] }),
+      DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS
+    );
+    expect(queue.map(item => item.config.temperature)).toEqual([-40, -40, 0, 0, 40, 40]);
+    expect(queue.every(item => item.config.startAngle === DEFAULT_CONFIG.startAngle)).toBe(true);
+  });
+
+  it('skips unknown materials', () => {
+    const queue = buildSeriesQueue(plan({ materialIds: ['missing'] }), DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS);
+    expect(queue).toHaveLength(0);
+  });
+
+  it('parses value lists separated by semicolons or spaces, with decimal commas', () => {
+    expect(parseSeriesValues('-40; -20;0 20')).toEqual([-40, -20, 0, 20]);
+    expect(parseSeriesValues('2,5; 3,5')).toEqual([2.5, 3.5]);
+    expect(parseSeriesValues('-2,5 0.5')).toEqual([-2.5, 0.5]);
+    expect(parseSeriesValues('1,2,3')).toBeNull();
+    expect(parseSeriesValues('')).toEqual([]);
+    expect(parseSeriesValues('10; abc')).toBeNull();
+  });
+});
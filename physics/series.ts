@@ -0,0 +1,51 @@
+import { Material, PendulumConfig, SpecimenGeometry } from '../types';
+
+// Test parameter swept by a series, if any
+export type SeriesVariable = 'none' | 'startAngle' | 'temperature';
+
+export interface SeriesPlan {
+  materialIds: string[];
+  specimensPerCondition: number;
+  variable: SeriesVariable;
+  values: number[]; // Angles (°) or temperatures (°C) for the swept variable
+  animated: boolean;
+}
+
+// One queued test; seed and timestamp are assigned when it runs
+export interface SeriesItem {
+  config: PendulumConfig;
+  material: Material;
+  specimen: SpecimenGeometry;
+}
+
+// Material by material, condition by condition, N specimens each
+export const buildSeriesQueue = (
+  plan: SeriesPlan,
+  baseConfig: PendulumConfig,
+  specimen: SpecimenGeometry,
+  materials: Material[]
+): SeriesItem[] => {
+  const conditions: PendulumConfig[] = plan.variable === 'none' || plan.values.length === 0
+    ? [baseConfig]
+    : plan.values.map(value => ({ ...baseConfig, [plan.variable]: value }));
+
+  const queue: SeriesItem[] = [];
+  plan.materialIds.forEach(id => {
+    const material = materials.find(m => m.id === id);
+    if (!material) return;
+    conditions.forEach(config => {
+      for (let i = 0; i < plan.specimensPerCondition; i++) {
+        queue.push({ config, material, specimen });
+      }
+    });
+  });
+  return queue;
+};
+
+// Parses a list like "-40; -20; 0 20" (semicolons or spaces); a comma is a decimal separator, as in
+// es and pt, so "-2,5" is -2.5. Null if any entry is not a number.
+export const parseSeriesValues = (text: string): number[] | null => {
+  const parts = text.split(/[;\s]+/).filter(p => p.trim() !== '');
+  const values = parts.map(p => Number(p.replace(',', '.')));
+  return values.every(Number.isFinite) ? values : null;
+};
@@ -0,0 +1,60 @@
+import { SpecimenGeometry, TransitionCurve } from '../types';
+import { DEFAULT_SPECIMEN } from '../constants';
+import { SI_UNITS, Units } from './units';
+import { es, Messages } from '../i18n';
+
+// Cross-section area below the notch in mm² (80 mm² for the standard specimen)
+export const ligamentArea = (geometry: SpecimenGeometry): number => {
+  return geometry.width * Math.max(geometry.thickness - geometry.notchDepth, 0);
+};
+
+// Same area in cm², used for the notch toughness (J/cm²)
+export const fractureAreaCm2 = (geometry: SpecimenGeometry): number => ligamentArea(geometry) / 100;
+
+// Also used as a grouping key, so the plain SI form in Spanish is kept unless other units or messages are asked for
+// Millimetre sizes are shown as the standards write them (10, 7.5); inches always with their decimals
+export const formatDimension = (value: number, units: Units = SI_UNITS): string =>
+  units.system === 'SI' ? units.number(value, Number.isInteger(value) ? 0 : 1) : units.fixed('dimension', value);
+
+export const specimenLabel = (geometry: SpecimenGeometry, units: Units = SI_UNITS, t: Messages = es): string => {
+  const notch = geometry.notchType === 'Keyhole' ? t.keyholeNotch : geometry.notchType;
+  const size = `${formatDimension(geometry.thickness, units)}×${formatDimension(geometry.width, units)}`;
+  return `${size} ${units.symbol('dimension')}, ${notch}`;
+};
+
+// Symbol used in reports for the absorbed energy (KV, KU...), with the striker radius as in ISO 148-1 (KV2, KV8)
+export const energySymbol = (geometry: SpecimenGeometry, strikerRadius?: number): string => {
+  const symbol = geometry.notchType === 'V' ? 'KV' : geometry.notchType === 'U' ? 'KU' : 'K';
+  return strikerRadius ? `${symbol}${strikerRadius}` : symbol;
+};
+
+export const isSameGeometry = (a: SpecimenGeometry, b: SpecimenGeometry): boolean =>
+  a.width === b.width &&
+  a.thickness === b.thickness &&
+  a.notchType === b.notchType &&
+  a.notchDepth === b.notchDepth &&
+  a.notchRadius === b.notchRadius;
+
+// Energy scales with the ligament area; blunter notches need more energy to initiate a crack
+const toughnessFactor = (geometry: SpecimenGeometry): number => {
+  const areaRatio = ligamentArea(geometry) / ligamentArea(DEFAULT_SPECIMEN);
+  const acuityRatio = Math.pow(geometry.notchRadius / DEFAULT_SPECIMEN.notchRadius, 0.15);
+  return areaRatio * acuityRatio;
+};
+
+// Sub-size specimens lose constraint and transition at lower temperatures (Wallin's correlation)
+const transitionShift = (geometry: SpecimenGeometry): number => {
+  const ratio = geometry.width / DEFAULT_SPECIMEN.width;
+  return 51.4 * Math.log(2 * Math.pow(ratio, 0.25) - 1);
+};
+
+// Converts a material curve measured on standard specimens to the given geometry
+export const scaleTransitionCurve = (curve: TransitionCurve, geometry: SpecimenGeometry): TransitionCurve => {
+  const factor = toughnessFactor(geometry);
+  return {
+    upperShelf: curve.upperShelf * factor,
+    lowerShelf: curve.lowerShelf * factor,
+    transitionTemp: curve.transitionTemp + transitionShift(geometry),
+    width: curve.width,
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { fitTransitionCurve, fitTransitionCurves, REFERENCE_ENERGY_27J, temperatureAtEnergy } from './transitionFit';
+import { energyAtTemperature } from './transitionModel';
+import { simulateTest } from './engine';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+import { TransitionCurve } from '../types';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+
+const known: TransitionCurve = { upperShelf: 120, lowerShelf: 8, transitionTemp: -10, width: 15 };
+const TEMPERATURES = [-80, -60, -40, -20, -10, 0, 20, 40, 60];
+const pointsOf = (curve: TransitionCurve, temperatures = TEMPERATURES) =>
+  temperatures.map(temperature => ({ temperature, energy: energyAtTemperature(curve, temperature) }));
+
+// Simulated tests with the absorbed energy replaced by the given curve
+const resultsOf = (curve: TransitionCurve) => TEMPERATURES.map((temperature, i) => ({
+  ...simulateTest({ config: { ...DEFAULT_CONFIG, temperature }, material: steel, specimen: DEFAULT_SPECIMEN, seed: i, timestamp: i }).result,
+  absorbedEnergy: energyAtTemperature(curve, temperature),
+}));
+
+describe('transition curve fit', () => {
+  it('recovers the tanh parameters of noise-free data', () => {
+    const curve = fitTransitionCurve(pointsOf(known))!;
+    expect(curve.upperShelf).toBeCloseTo(known.upperShelf, 1);
+    expect(curve.lowerShelf).toBeCloseTo(known.lowerShelf, 1);
+    expect(curve.transitionTemp).toBeCloseTo(known.transitionTemp, 1);
+    expect(curve.width).toBeCloseTo(known.width, 1);
+  });
+
+  it('needs enough points at enough temperatures', () => {
+    expect(fitTransitionCurve(pointsOf(known, [-40, 0, 40]))).toBeNull();
+    expect(fitTransitionCurve(pointsOf(known, [-40, -40, 40, 40]))).toBeNull();
+    expect(fitTransitionCurve(pointsOf(known, [-40, -40, 0, 40]))).not.toBeNull();
+  });
+
+  it('gives T27J where the fitted curve crosses 27 J', () => {
+    const [fit] = fitTransitionCurves(resultsOf(known));
+    expect(fit.materialId).toBe(steel.id);
+    expect(fit.points).toBe(TEMPERATURES.length);
+    expect(fit.rmsError).toBeLessThan(0.1);
+    expect(fit.t27J).toBeCloseTo(temperatureAtEnergy(known, REFERENCE_ENERGY_27J)!, 0);
+    expect(energyAtTemperature(fit.curve, fit.t27J!)).toBeCloseTo(REFERENCE_ENERGY_27J, 3);
+  });
+
+  it('has no T27J when the curve never reaches 27 J', () => {
+    const brittle: TransitionCurve = { upperShelf: 20, lowerShelf: 4, transitionTemp: 0, width: 20 };
+    const [fit] = fitTransitionCurves(resultsOf(brittle));
+    expect(fit.t27J).toBeNull();
+    expect(temperatureAtEnergy({ ...known, lowerShelf: 30 }, REFERENCE_ENERGY_27J)).toBeNull();
+  });
+
+  it('skips groups too small to fit', () => {
+    expect(fitTransitionCurves(resultsOf(known).slice(0, 3))).toEqual([]);
+  });
+});
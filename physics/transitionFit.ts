@@ -0,0 +1,137 @@
+import { SpecimenGeometry, TestResult, TransitionCurve } from '../types';
+import { energyAtTemperature } from './transitionModel';
+import { specimenLabel } from './specimenModel';
+
+export const REFERENCE_ENERGY_27J = 27; // J, usual acceptance level for T27J
+
+export interface TransitionPoint {
+  temperature: number; // °C
+  energy: number; // Joules
+}
+
+export interface TransitionFit {
+  key: string; // Material and specimen geometry
+  materialId: string;
+  materialName: string;
+  specimen: SpecimenGeometry;
+  color: string;
+  curve: TransitionCurve; // Fitted tanh parameters
+  t27J: number | null; // °C at which the fitted curve reaches 27 J
+  points: number;
+  rmsError: number; // Joules
+}
+
+// Minimum data needed for a meaningful 4-parameter fit
+const MIN_POINTS = 4;
+const MIN_DISTINCT_TEMPERATURES = 3;
+
+// Downhill simplex minimisation, enough for a 4-parameter least squares problem
+const nelderMead = (f: (x: number[]) => number, start: number[], step: number[], maxIterations = 800): number[] => {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step[i] : v)))];
+  let values = simplex.map(f);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+    if (Math.abs(values[n] - values[0]) < 1e-9 * (1 + Math.abs(values[0]))) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, p) => sum + p[j], 0) / n);
+    const along = (t: number) => centroid.map((c, j) => c + t * (simplex[n][j] - c));
+
+    const reflected = along(-1);
+    const fr = f(reflected);
+    if (fr < values[0]) {
+      const expanded = along(-2);
+      const fe = f(expanded);
+      [simplex[n], values[n]] = fe < fr ? [expanded, fe] : [reflected, fr];
+    } else if (fr < values[n - 1]) {
+      [simplex[n], values[n]] = [reflected, fr];
+    } else {
+      const contracted = along(fr < values[n] ? -0.5 : 0.5);
+      const fc = f(contracted);
+      if (fc < Math.min(fr, values[n])) {
+        [simplex[n], values[n]] = [contracted, fc];
+      } else {
+        // Shrink towards the best vertex
+        simplex = simplex.map((p, i) => (i === 0 ? p : p.map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]))));
+        values = simplex.map(f);
+      }
+    }
+  }
+
+  return simplex[values.indexOf(Math.min(...values))];
+};
+
+// Least squares tanh fit. Returns null when the data cannot define a curve.
+export const fitTransitionCurve = (points: TransitionPoint[]): TransitionCurve | null => {
+  const temperatures = points.map(p => p.temperature);
+  const energies = points.map(p => p.energy);
+  const distinct = new Set(temperatures).size;
+  if (points.length < MIN_POINTS || distinct < MIN_DISTINCT_TEMPERATURES) return null;
+
+  const tMin = Math.min(...temperatures);
+  const tMax = Math.max(...temperatures);
+  const eMin = Math.min(...energies);
+  const eMax = Math.max(...energies);
+  const span = Math.max(tMax - tMin, 1);
+
+  // Width is optimised on a log scale so it stays positive
+  const toCurve = ([upper, lower, t0, logWidth]: number[]): TransitionCurve => ({
+    upperShelf: upper,
+    lowerShelf: lower,
+    transitionTemp: t0,
+    width: Math.exp(logWidth),
+  });
+  const sse = (x: number[]) => {
+    const curve = toCurve(x);
+    return points.reduce((sum, p) => sum + (energyAtTemperature(curve, p.temperature) - p.energy) ** 2, 0);
+  };
+
+  const start = [eMax, eMin, (tMin + tMax) / 2, Math.log(span / 4)];
+  const step = [Math.max((eMax - eMin) * 0.1, 1), Math.max((eMax - eMin) * 0.1, 1), span / 4, 0.5];
+  return toCurve(nelderMead(sse, start, step));
+};
+
+// Inverse of the tanh model; null if the energy lies outside the shelves
+export const temperatureAtEnergy = (curve: TransitionCurve, energy: number): number | null => {
+  const range = curve.upperShelf - curve.lowerShelf;
+  if (Math.abs(range) < 1e-9) return null;
+  const y = (2 * (energy - curve.lowerShelf)) / range - 1;
+  if (y <= -1 || y >= 1) return null;
+  return curve.transitionTemp + curve.width * Math.atanh(y);
+};
+
+// Groups results per material and specimen geometry (energies of different sizes are not comparable)
+export const fitTransitionCurves = (results: TestResult[]): TransitionFit[] => {
+  const groups = new Map<string, TestResult[]>();
+  results.forEach(r => {
+    const key = `${r.material.id}|${specimenLabel(r.specimen)}`;
+    const group = groups.get(key) || [];
+    group.push(r);
+    groups.set(key, group);
+  });
+
+  const fits: TransitionFit[] = [];
+  groups.forEach((group, key) => {
+    const points = group.map(r => ({ temperature: r.temperature, energy: r.absorbedEnergy }));
+    const curve = fitTransitionCurve(points);
+    if (!curve) return;
+    const rmsError = Math.sqrt(
+      points.reduce((sum, p) => sum + (energyAtTemperature(curve, p.temperature) - p.energy) ** 2, 0) / points.length
+    );
+    fits.push({
+      key,
+      materialId: group[0].material.id,
+      materialName: group[0].material.name,
+      specimen: group[0].specimen,
+      color: group[0].material.color,
+      curve,
+      t27J: temperatureAtEnergy(curve, REFERENCE_ENERGY_27J),
+      points: points.length,
+      rmsError,
+    });
+  });
+  return fits;
+};
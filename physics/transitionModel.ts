@@ -0,0 +1,21 @@
+import { FractureType, TransitionCurve } from '../types';
+
+// Fraction of the transition completed at temperature T (0 = lower shelf, 1 = upper shelf)
+// Uses the usual hyperbolic tangent fit: f(T) = 0.5 * (1 + tanh((T - T0) / C))
+export const ductileFraction = (curve: TransitionCurve, temperature: number): number => {
+  const width = Math.max(curve.width, 1e-6);
+  return 0.5 * (1 + Math.tanh((temperature - curve.transitionTemp) / width));
+};
+
+// Mean absorbed energy (J) expected at the given temperature
+export const energyAtTemperature = (curve: TransitionCurve, temperature: number): number => {
+  return curve.lowerShelf + (curve.upperShelf - curve.lowerShelf) * ductileFraction(curve, temperature);
+};
+
+// Fracture appearance predicted by the model
+export const fractureTypeAtTemperature = (curve: TransitionCurve, temperature: number): FractureType => {
+  const fraction = ductileFraction(curve, temperature);
+  if (fraction >= 0.8) return 'Ductile';
+  if (fraction <= 0.2) return 'Brittle';
+  return 'Mixed';
+};
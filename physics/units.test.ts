@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createUnits, Quantity, SI_UNITS } from './units';
+
+const us = createUnits('US');
+
+describe('units', () => {
+  it('leaves SI values untouched', () => {
+    expect(SI_UNITS.toDisplay('energy', 123.4)).toBe(123.4);
+    expect(SI_UNITS.format('energy', 27)).toBe('27.0 J');
+    expect(SI_UNITS.format('temperature', -20)).toBe('-20 °C');
+  });
+
+  it('converts to US customary units', () => {
+    expect(us.toDisplay('energy', 27)).toBeCloseTo(19.91, 2);
+    expect(us.toDisplay('mass', 20)).toBeCloseTo(44.09, 2);
+    expect(us.toDisplay('length', 0.8)).toBeCloseTo(2.625, 3);
+    expect(us.toDisplay('temperature', -40)).toBeCloseTo(-40, 10);
+    expect(us.toDisplay('temperature', 100)).toBeCloseTo(212, 10);
+    expect(us.toDisplay('temperatureDifference', 10)).toBeCloseTo(18, 10);
+    expect(us.toDisplay('dimension', 10)).toBeCloseTo(0.3937, 4);
+    expect(us.toDisplay('expansion', 0.9)).toBeCloseTo(35.4, 1);
+    expect(us.format('energy', 27)).toBe('19.9 ft·lbf');
+  });
+
+  it('uses the decimal separator of the locale', () => {
+    expect(createUnits('SI', 'es-ES').format('energy', 27)).toBe('27,0 J');
+    expect(createUnits('SI', 'es-ES').format('temperature', -20)).toBe('-20 °C');
+    expect(createUnits('US', 'en-US').format('energy', 1234.56)).toBe('910.6 ft·lbf');
+    expect(createUnits('SI', 'pt-BR').number(1234.5, 2)).toBe('1234,50');
+  });
+
+  it('round-trips every quantity back to SI', () => {
+    const quantities: Quantity[] = [
+      'energy', 'mass', 'length', 'temperature', 'temperatureDifference', 'dimension',
+      'area', 'expansion', 'velocity', 'toughness', 'force', 'torque',
+    ];
+    quantities.forEach(q => [37.5, 7.5, 2.5, 0.25, -20].forEach(value =>
+      expect(us.fromDisplay(q, us.toDisplay(q, value))).toBe(value)
+    ));
+  });
+});
@@ -0,0 +1,114 @@
+import { UnitSystem } from '../types';
+
+// Physical quantities shown in the interface, all stored in SI
+export type Quantity =
+  | 'energy' // J
+  | 'mass' // kg
+  | 'length' // m, pendulum arm
+  | 'temperature' // °C
+  | 'temperatureDifference' // °C, widths and shifts
+  | 'dimension' // mm, specimen
+  | 'area' // mm², ligament
+  | 'expansion' // mm, lateral expansion
+  | 'velocity' // m/s
+  | 'toughness' // J/cm²
+  | 'force' // kN
+  | 'torque'; // N·m
+
+interface UnitDefinition {
+  symbol: string;
+  factor: number; // Display units per SI unit
+  offset?: number; // Added after scaling (temperatures)
+  digits: number; // Usual decimals
+}
+
+const JOULES_PER_FOOT_POUND = 1.3558179483314004;
+const KG_PER_POUND = 0.45359237;
+const METERS_PER_FOOT = 0.3048;
+const MM_PER_INCH = 25.4;
+const NEWTONS_PER_POUND_FORCE = 4.4482216152605;
+
+const DEFINITIONS: Record<UnitSystem, Record<Quantity, UnitDefinition>> = {
+  SI: {
+    energy: { symbol: 'J', factor: 1, digits: 1 },
+    mass: { symbol: 'kg', factor: 1, digits: 1 },
+    length: { symbol: 'm', factor: 1, digits: 2 },
+    temperature: { symbol: '°C', factor: 1, digits: 0 },
+    temperatureDifference: { symbol: '°C', factor: 1, digits: 0 },
+    dimension: { symbol: 'mm', factor: 1, digits: 1 },
+    area: { symbol: 'mm²', factor: 1, digits: 1 },
+    expansion: { symbol: 'mm', factor: 1, digits: 2 },
+    velocity: { symbol: 'm/s', factor: 1, digits: 2 },
+    toughness: { symbol: 'J/cm²', factor: 1, digits: 1 },
+    force: { symbol: 'kN', factor: 1, digits: 1 },
+    torque: { symbol: 'N·m', factor: 1, digits: 2 },
+  },
+  // ASTM E23 practice: ft·lbf, inches and mils (thousandths of an inch) for the lateral expansion
+  US: {
+    energy: { symbol: 'ft·lbf', factor: 1 / JOULES_PER_FOOT_POUND, digits: 1 },
+    mass: { symbol: 'lb', factor: 1 / KG_PER_POUND, digits: 1 },
+    length: { symbol: 'ft', factor: 1 / METERS_PER_FOOT, digits: 2 },
+    temperature: { symbol: '°F', factor: 1.8, offset: 32, digits: 0 },
+    temperatureDifference: { symbol: '°F', factor: 1.8, digits: 0 },
+    dimension: { symbol: 'in', factor: 1 / MM_PER_INCH, digits: 3 },
+    area: { symbol: 'in²', factor: 1 / (MM_PER_INCH * MM_PER_INCH), digits: 3 },
+    expansion: { symbol: 'mils', factor: 1000 / MM_PER_INCH, digits: 0 },
+    velocity: { symbol: 'ft/s', factor: 1 / METERS_PER_FOOT, digits: 1 },
+    toughness: { symbol: 'ft·lbf/in²', factor: (MM_PER_INCH * MM_PER_INCH / 100) / JOULES_PER_FOOT_POUND, digits: 1 },
+    force: { symbol: 'lbf', factor: 1000 / NEWTONS_PER_POUND_FORCE, digits: 0 },
+    torque: { symbol: 'lbf·ft', factor: 1 / JOULES_PER_FOOT_POUND, digits: 2 },
+  },
+};
+
+// Conversions between the stored SI values and the units of one system
+export interface Units {
+  system: UnitSystem;
+  symbol: (quantity: Quantity) => string;
+  digits: (quantity: Quantity) => number;
+  toDisplay: (quantity: Quantity, value: number) => number;
+  fromDisplay: (quantity: Quantity, value: number) => number;
+  // Display value rounded to 4 significant digits, for number inputs
+  toInput: (quantity: Quantity, value: number) => number;
+  // Number only, for table cells whose header carries the unit
+  fixed: (quantity: Quantity, value: number, digits?: number) => string;
+  // Number and symbol
+  format: (quantity: Quantity, value: number, digits?: number) => string;
+  // Plain number with the same decimal separator, for angles and ratios
+  number: (value: number, digits: number) => string;
+}
+
+// Without a locale numbers keep the decimal point, as in files and prompts
+export const createUnits = (system: UnitSystem, locale?: string): Units => {
+  const definitions = DEFINITIONS[system];
+  const formatters = new Map<number, Intl.NumberFormat>();
+  const number = (value: number, digits: number) => {
+    if (!locale) return value.toFixed(digits);
+    if (!formatters.has(digits)) {
+      formatters.set(digits, new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits, useGrouping: false }));
+    }
+    return formatters.get(digits)!.format(value);
+  };
+  const toDisplay = (quantity: Quantity, value: number) => {
+    const { factor, offset = 0 } = definitions[quantity];
+    return value * factor + offset;
+  };
+  const fixed = (quantity: Quantity, value: number, digits = definitions[quantity].digits) =>
+    number(toDisplay(quantity, value), digits);
+  return {
+    system,
+    symbol: quantity => definitions[quantity].symbol,
+    digits: quantity => definitions[quantity].digits,
+    toDisplay,
+    // Rounded to 12 significant digits so that round trips give back the exact SI value (10 mm, not 10.000000000000002)
+    fromDisplay: (quantity, value) => {
+      const { factor, offset = 0 } = definitions[quantity];
+      return Number(((value - offset) / factor).toPrecision(12));
+    },
+    toInput: (quantity, value) => Number(toDisplay(quantity, value).toPrecision(4)),
+    fixed,
+    format: (quantity, value, digits) => `${fixed(quantity, value, digits)} ${definitions[quantity].symbol}`,
+    number,
+  };
+};
+
+export const SI_UNITS = createUnits('SI');
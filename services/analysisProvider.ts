@@ -0,0 +1,48 @@
+import { TestResult } from "../types";
+import { Units } from "../physics/units";
+import { es, Messages } from "../i18n";
+
+export interface RankedMaterial {
+  material: string;
+  meanEnergy: number; // Joules, whatever units the text is written in
+  comment: string;
+}
+
+export interface MaterialApplication {
+  material: string;
+  recommendation: string;
+}
+
+// Structured discussion of a set of results
+export interface AnalysisReport {
+  ranking: RankedMaterial[]; // Toughest first
+  fractureInterpretation: string;
+  applications: MaterialApplication[];
+  warnings: string[]; // Suspicious or unreliable data
+}
+
+// The report when the provider gave a valid one; the Markdown is always there (rendered report or free text)
+export interface AnalysisOutput {
+  report: AnalysisReport | null;
+  markdown: string;
+}
+
+// Writes the technical discussion of a set of results, quoting values in the given units and language
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  analyze: (results: TestResult[], units: Units, t: Messages) => Promise<AnalysisOutput>;
+}
+
+export type AnalysisErrorCode = 'no-results' | 'missing-api-key' | 'request-failed' | 'empty-response';
+
+// Failure of an analysis; the code tells the cause (and picks the translated text), the message is the Spanish one
+export class AnalysisError extends Error {
+  readonly code: AnalysisErrorCode;
+
+  constructor(code: AnalysisErrorCode, options?: { cause?: unknown }) {
+    super(es.analysis.errors[code], options);
+    this.name = 'AnalysisError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { readAnalysisOutput, reportToMarkdown, validateAnalysisReport } from './analysisReport';
+import { AnalysisReport } from './analysisProvider';
+import { createUnits } from '../physics/units';
+
+const report: AnalysisReport = {
+  ranking: [
+    { material: 'Acero AISI 1045', meanEnergy: 120.4, comment: 'Transición hacia -20 °C.' },
+    { material: 'Hierro Fundido Gris', meanEnergy: 6.1, comment: 'Frágil en todo el rango.' },
+  ],
+  fractureInterpretation: 'La cizalladura crece con la energía.',
+  applications: [{ material: 'Acero AISI 1045', recommendation: 'Piezas sometidas a impacto.' }],
+  warnings: [],
+};
+
+describe('analysis report', () => {
+  it('accepts a report that follows the schema', () => {
+    expect(validateAnalysisReport(JSON.parse(JSON.stringify(report)))).toEqual(report);
+    const output = readAnalysisOutput(JSON.stringify(report));
+    expect(output.report).toEqual(report);
+    expect(output.markdown).toBe(reportToMarkdown(report));
+  });
+
+  it('stores energies answered in other units in Joules', () => {
+    const us = createUnits('US');
+    const answer = { ...report, ranking: report.ranking.map(r => ({ ...r, meanEnergy: us.toDisplay('energy', r.meanEnergy) })) };
+    const output = readAnalysisOutput(JSON.stringify(answer), us);
+    expect(output.report!.ranking[0].meanEnergy).toBeCloseTo(120.4, 10);
+    expect(output.markdown).toContain('| 1 | Acero AISI 1045 | 88.8 |');
+  });
+
+  it('orders the ranking by energy', () => {
+    const shuffled = { ...report, ranking: [...report.ranking].reverse() };
+    expect(validateAnalysisReport(shuffled)?.ranking[0].material).toBe('Acero AISI 1045');
+  });
+
+  it('rejects missing or malformed fields', () => {
+    expect(validateAnalysisReport({ ...report, ranking: [] })).toBeNull();
+    expect(validateAnalysisReport({ ...report, fractureInterpretation: ' ' })).toBeNull();
+    expect(validateAnalysisReport({ ...report, ranking: [{ material: 'X', meanEnergy: '12', comment: 'c' }] })).toBeNull();
+    const { warnings: _warnings, ...withoutWarnings } = report;
+    expect(validateAnalysisReport(withoutWarnings)).toBeNull();
+  });
+
+  it('falls back to Markdown for free text and invalid JSON', () => {
+    expect(readAnalysisOutput('## Análisis\nTexto libre')).toEqual({ report: null, markdown: '## Análisis\nTexto libre' });
+    const invalid = readAnalysisOutput('{"ranking": 3}');
+    expect(invalid.report).toBeNull();
+    expect(invalid.markdown).toContain('{"ranking": 3}');
+  });
+});
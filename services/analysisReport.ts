@@ -0,0 +1,77 @@
+import { SI_UNITS, Units } from "../physics/units";
+import { es, Messages } from "../i18n";
+import { AnalysisOutput, AnalysisReport, MaterialApplication, RankedMaterial } from "./analysisProvider";
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const readList = <T>(value: unknown, readItem: (item: Record<string, unknown>) => T | null): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items = value.map(item => (item !== null && typeof item === 'object' ? readItem(item as Record<string, unknown>) : null));
+  return items.every(item => item !== null) ? (items as T[]) : null;
+};
+
+const readRanked = (item: Record<string, unknown>): RankedMaterial | null =>
+  isText(item.material) && typeof item.meanEnergy === 'number' && Number.isFinite(item.meanEnergy) && item.meanEnergy >= 0 && isText(item.comment)
+    ? { material: item.material.trim(), meanEnergy: item.meanEnergy, comment: item.comment.trim() }
+    : null;
+
+const readApplication = (item: Record<string, unknown>): MaterialApplication | null =>
+  isText(item.material) && isText(item.recommendation)
+    ? { material: item.material.trim(), recommendation: item.recommendation.trim() }
+    : null;
+
+// Checks a parsed response against the report structure; null if anything is missing or malformed
+export const validateAnalysisReport = (value: unknown): AnalysisReport | null => {
+  if (value === null || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const ranking = readList(raw.ranking, readRanked);
+  const applications = readList(raw.applications, readApplication);
+  const warnings = Array.isArray(raw.warnings) && raw.warnings.every(w => typeof w === 'string') ? (raw.warnings as string[]) : null;
+  if (!ranking || ranking.length === 0 || !applications || !warnings || !isText(raw.fractureInterpretation)) return null;
+  return {
+    ranking: [...ranking].sort((a, b) => b.meanEnergy - a.meanEnergy),
+    fractureInterpretation: raw.fractureInterpretation.trim(),
+    applications,
+    warnings: warnings.map(w => w.trim()).filter(w => w !== ''),
+  };
+};
+
+// Markdown version of the report, for printing and plain-text use
+export const reportToMarkdown = (report: AnalysisReport, units: Units = SI_UNITS, t: Messages = es): string => {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const { analysis } = t;
+  return [
+    `## ${analysis.ranking}`,
+    '',
+    `| ${analysis.number} | ${analysis.material} | ${analysis.meanEnergy} (${units.symbol('energy')}) | ${analysis.comment} |`,
+    '|---|---|---|---|',
+    ...report.ranking.map((r, i) => `| ${i + 1} | ${cell(r.material)} | ${units.fixed('energy', r.meanEnergy)} | ${cell(r.comment)} |`),
+    '',
+    `## ${analysis.fractureInterpretation}`,
+    '',
+    report.fractureInterpretation,
+    '',
+    `## ${analysis.applications}`,
+    '',
+    ...report.applications.map(a => `- **${a.material}**: ${a.recommendation}`),
+    ...(report.warnings.length > 0 ? ['', `## ${analysis.warnings}`, '', ...report.warnings.map(w => `- ${w}`)] : []),
+  ].join('\n');
+};
+
+// Valid JSON reports become structured output; anything else is kept as Markdown.
+// Energies in the JSON are in the units the provider was asked for and are stored back in Joules.
+export const readAnalysisOutput = (text: string, units: Units = SI_UNITS, t: Messages = es): AnalysisOutput => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { report: null, markdown: text };
+  }
+  const parsedReport = validateAnalysisReport(parsed);
+  const report = parsedReport && {
+    ...parsedReport,
+    ranking: parsedReport.ranking.map(r => ({ ...r, meanEnergy: units.fromDisplay('energy', r.meanEnergy) })),
+  };
+  // JSON that does not follow the schema is still shown, as a code block
+  return report ? { report, markdown: reportToMarkdown(report, units, t) } : { report: null, markdown: `\`\`\`json\n${text}\n\`\`\`` };
+};
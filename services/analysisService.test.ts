@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisCache, runAnalysis } from './analysisService';
+import { AnalysisError } from './analysisProvider';
+import { createMockAnalyzer } from './mockAnalyzer';
+import { createGeminiProvider } from './geminiService';
+import { simulateTest } from '../physics/engine';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+
+const results = [simulateTest({ config: DEFAULT_CONFIG, material: MATERIALS[0], specimen: DEFAULT_SPECIMEN, seed: 1, timestamp: 1 }).result];
+
+describe('analysis providers', () => {
+  it('passes the results to the provider and returns its output', async () => {
+    const mock = createMockAnalyzer('informe');
+    await expect(runAnalysis(mock, results)).resolves.toEqual({ report: null, markdown: 'informe' });
+    expect(mock.calls).toEqual([results]);
+  });
+
+  it('reuses the analysis of an unchanged history', async () => {
+    const mock = createMockAnalyzer();
+    const cache: AnalysisCache = new Map();
+    await runAnalysis(mock, results, cache);
+    await runAnalysis(mock, [...results], cache);
+    expect(mock.calls).toHaveLength(1);
+
+    await runAnalysis(mock, [...results, { ...results[0], id: 'other' }], cache);
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it('rejects an empty history without calling the provider', async () => {
+    const mock = createMockAnalyzer();
+    await expect(runAnalysis(mock, [])).rejects.toMatchObject({ code: 'no-results' });
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('reports failures as typed errors', async () => {
+    const failure = new Error('socket hang up');
+    const error = await runAnalysis(createMockAnalyzer(failure), results).catch(e => e);
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.code).toBe('request-failed');
+    expect(error.cause).toBe(failure);
+
+    const cache: AnalysisCache = new Map();
+    await expect(runAnalysis(createMockAnalyzer(new AnalysisError('empty-response')), results, cache)).rejects.toMatchObject({ code: 'empty-response' });
+    expect(cache.size).toBe(0);
+  });
+
+  it('needs an API key for Gemini only when analysing', async () => {
+    const gemini = createGeminiProvider('');
+    await expect(runAnalysis(gemini, results)).rejects.toMatchObject({ code: 'missing-api-key' });
+  });
+});
@@ -0,0 +1,51 @@
+import { AnalysisProviderId, TestResult } from "../types";
+import { deriveSeed } from "../physics/engine";
+import { SI_UNITS, Units } from "../physics/units";
+import { es, Messages } from "../i18n";
+import { AnalysisError, AnalysisOutput, AnalysisProvider } from "./analysisProvider";
+import { createGeminiProvider } from "./geminiService";
+import { offlineAnalyzer } from "./offlineAnalyzer";
+
+// Providers that can be chosen in the settings; their names are in the message catalogs
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, { create: () => AnalysisProvider }> = {
+  gemini: { create: () => createGeminiProvider() },
+  offline: { create: () => offlineAnalyzer },
+};
+
+// Analyses already generated, by provider, units, language and history snapshot
+export type AnalysisCache = Map<string, AnalysisOutput>;
+
+const MAX_CACHED_ANALYSES = 20;
+
+// Stored results never change, so their ids and energies identify the history
+const snapshotKey = (provider: AnalysisProvider, results: TestResult[], units: Units, t: Messages) =>
+  `${provider.id}|${units.system}|${t.locale}|${results.length}|${deriveSeed(...results.map(r => `${r.id}:${r.absorbedEnergy}`))}`;
+
+// Runs a provider (or reuses its answer for the same history) and turns any failure into an AnalysisError
+export const runAnalysis = async (
+  provider: AnalysisProvider,
+  results: TestResult[],
+  cache?: AnalysisCache,
+  units: Units = SI_UNITS,
+  t: Messages = es,
+): Promise<AnalysisOutput> => {
+  if (results.length === 0) throw new AnalysisError('no-results');
+  const key = snapshotKey(provider, results, units, t);
+  const cached = cache?.get(key);
+  if (cached) return cached;
+
+  let output: AnalysisOutput;
+  try {
+    output = await provider.analyze(results, units, t);
+  } catch (error) {
+    if (error instanceof AnalysisError) throw error;
+    throw new AnalysisError('request-failed', { cause: error });
+  }
+
+  if (cache) {
+    cache.set(key, output);
+    // Oldest entries go first (Map keeps insertion order)
+    if (cache.size > MAX_CACHED_ANALYSES) cache.delete(cache.keys().next().value!);
+  }
+  return output;
+};
@@ -0,0 +1,237 @@
+import { Challenge, ChallengeSubmission, ExerciseAttempt, Material, TestResult } from "../types";
+import { TransitionFit } from "../physics/transitionFit";
+import { Quantity, SI_UNITS, Units } from "../physics/units";
+import { attemptScore, EXERCISE_QUANTITIES, EXERCISE_UNITS, solveExercise } from "../analysis/exercise";
+
+export const RESULTS_FORMAT = 'charpysim-results';
+export const RESULTS_FORMAT_VERSION = 1;
+
+export const MATERIALS_FORMAT = 'charpysim-materials';
+export const MATERIALS_FORMAT_VERSION = 1;
+
+export const CHALLENGE_FORMAT = 'charpysim-challenge';
+export const CHALLENGE_FORMAT_VERSION = 1;
+
+export const CHALLENGE_ANSWER_FORMAT = 'charpysim-challenge-answer';
+export const CHALLENGE_ANSWER_FORMAT_VERSION = 1;
+
+// Flattened CSV layout shared by export and import
+export const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'material_id',
+  'material',
+  'temperature_c',
+  'initial_energy_j',
+  'absorbed_energy_j',
+  'uncorrected_energy_j',
+  'loss_correction_j',
+  'final_angle_deg',
+  'broke',
+  'fracture_type',
+  'lateral_expansion_mm',
+  'shear_percent',
+  'initiation_energy_j',
+  'propagation_energy_j',
+  'mass_kg',
+  'length_m',
+  'start_angle_deg',
+  'nominal_energy_j',
+  'striker_radius_mm',
+  'friction_torque_nm',
+  'windage_coefficient',
+  'specimen_width_mm',
+  'specimen_thickness_mm',
+  'notch_type',
+  'notch_depth_mm',
+  'notch_radius_mm',
+  'seed',
+] as const;
+
+export type CsvColumn = typeof CSV_COLUMNS[number];
+
+// Columns holding a physical quantity: US customary files convert them and use the US name.
+// The striker radius stays in mm, as it names the striker in both standards.
+export const CSV_UNIT_COLUMNS: Partial<Record<CsvColumn, { quantity: Quantity; us: string }>> = {
+  temperature_c: { quantity: 'temperature', us: 'temperature_f' },
+  initial_energy_j: { quantity: 'energy', us: 'initial_energy_ftlbf' },
+  absorbed_energy_j: { quantity: 'energy', us: 'absorbed_energy_ftlbf' },
+  uncorrected_energy_j: { quantity: 'energy', us: 'uncorrected_energy_ftlbf' },
+  loss_correction_j: { quantity: 'energy', us: 'loss_correction_ftlbf' },
+  lateral_expansion_mm: { quantity: 'expansion', us: 'lateral_expansion_mils' },
+  initiation_energy_j: { quantity: 'energy', us: 'initiation_energy_ftlbf' },
+  propagation_energy_j: { quantity: 'energy', us: 'propagation_energy_ftlbf' },
+  mass_kg: { quantity: 'mass', us: 'mass_lb' },
+  length_m: { quantity: 'length', us: 'length_ft' },
+  nominal_energy_j: { quantity: 'energy', us: 'nominal_energy_ftlbf' },
+  friction_torque_nm: { quantity: 'torque', us: 'friction_torque_lbfft' },
+  windage_coefficient: { quantity: 'torque', us: 'windage_coefficient_us' },
+  specimen_width_mm: { quantity: 'dimension', us: 'specimen_width_in' },
+  specimen_thickness_mm: { quantity: 'dimension', us: 'specimen_thickness_in' },
+  notch_depth_mm: { quantity: 'dimension', us: 'notch_depth_in' },
+  notch_radius_mm: { quantity: 'dimension', us: 'notch_radius_in' },
+};
+
+const csvHeader = (column: CsvColumn, units: Units): string =>
+  units.system === 'US' ? CSV_UNIT_COLUMNS[column]?.us ?? column : column;
+
+// Triggers a browser download for the given text content
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const escapeCsv = (value: string | number | boolean): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (r: TestResult): Record<CsvColumn, string | number | boolean> => ({
+  id: r.id,
+  timestamp: new Date(r.timestamp).toISOString(),
+  material_id: r.material.id,
+  material: r.material.name,
+  temperature_c: r.temperature,
+  initial_energy_j: r.initialEnergy,
+  absorbed_energy_j: r.absorbedEnergy,
+  uncorrected_energy_j: r.uncorrectedEnergy,
+  loss_correction_j: r.lossCorrection,
+  final_angle_deg: r.finalAngle,
+  broke: r.didBreak,
+  fracture_type: r.fractureType,
+  lateral_expansion_mm: r.lateralExpansion,
+  shear_percent: r.shearPercent,
+  initiation_energy_j: r.initiationEnergy,
+  propagation_energy_j: r.propagationEnergy,
+  mass_kg: r.config.mass,
+  length_m: r.config.length,
+  start_angle_deg: r.config.startAngle,
+  nominal_energy_j: r.config.machine.nominalEnergy,
+  striker_radius_mm: r.config.machine.strikerRadius,
+  friction_torque_nm: r.config.machine.frictionTorque,
+  windage_coefficient: r.config.machine.windageCoefficient,
+  specimen_width_mm: r.specimen.width,
+  specimen_thickness_mm: r.specimen.thickness,
+  notch_type: r.specimen.notchType,
+  notch_depth_mm: r.specimen.notchDepth,
+  notch_radius_mm: r.specimen.notchRadius,
+  seed: r.seed,
+});
+
+export const resultsToCsv = (results: TestResult[], units: Units = SI_UNITS): string => {
+  const lines = results.map(r => {
+    const row = toCsvRow(r);
+    return CSV_COLUMNS.map(column => {
+      const value = row[column];
+      const unit = CSV_UNIT_COLUMNS[column];
+      return escapeCsv(unit && typeof value === 'number' ? units.toDisplay(unit.quantity, value) : value);
+    }).join(',');
+  });
+  return [CSV_COLUMNS.map(column => csvHeader(column, units)).join(','), ...lines].join('\n');
+};
+
+// One row per graded test: the student's answer, the expected value and the grade for each quantity
+export const exercisesToCsv = (attempts: ExerciseAttempt[], results: TestResult[], units: Units = SI_UNITS): string => {
+  const suffix = (quantity: Quantity) =>
+    units.system === 'US' ? (quantity === 'length' ? 'ft' : 'ftlbf') : (quantity === 'length' ? 'm' : 'j');
+  const header = [
+    'result_id',
+    'timestamp',
+    'material',
+    ...EXERCISE_QUANTITIES.flatMap(q => {
+      const unit = suffix(EXERCISE_UNITS[q]);
+      return [`${q}_answer_${unit}`, `${q}_expected_${unit}`, `${q}_correct`];
+    }),
+    'score',
+  ];
+  const lines = attempts.flatMap(attempt => {
+    const result = results.find(r => r.id === attempt.resultId);
+    if (!result) return [];
+    const expected = solveExercise(result);
+    const row = [
+      attempt.resultId,
+      new Date(attempt.timestamp).toISOString(),
+      result.material.name,
+      ...EXERCISE_QUANTITIES.flatMap(q => {
+        const answer = attempt.answers[q];
+        return [
+          answer === null ? '' : units.toDisplay(EXERCISE_UNITS[q], answer),
+          units.toDisplay(EXERCISE_UNITS[q], expected[q]),
+          attempt.correct[q],
+        ];
+      }),
+      `${attemptScore(attempt)}/${EXERCISE_QUANTITIES.length}`,
+    ];
+    return [row.map(escapeCsv).join(',')];
+  });
+  return [header.join(','), ...lines].join('\n');
+};
+
+// JSON is the lossless archive and always holds SI values
+export const resultsToJson = (results: TestResult[], transitionFits: TransitionFit[]): string => {
+  const payload = {
+    format: RESULTS_FORMAT,
+    version: RESULTS_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    results,
+    transitionFits,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const exportResultsCsv = (results: TestResult[], units: Units = SI_UNITS) => {
+  downloadFile(`charpy-resultados-${Date.now()}.csv`, resultsToCsv(results, units), 'text/csv');
+};
+
+export const exportExercisesCsv = (attempts: ExerciseAttempt[], results: TestResult[], units: Units = SI_UNITS) => {
+  downloadFile(`charpy-ejercicios-${Date.now()}.csv`, exercisesToCsv(attempts, results, units), 'text/csv');
+};
+
+export const exportResultsJson = (results: TestResult[], transitionFits: TransitionFit[]) => {
+  downloadFile(`charpy-resultados-${Date.now()}.json`, resultsToJson(results, transitionFits), 'application/json');
+};
+
+export const exportMaterialsJson = (materials: Material[]) => {
+  const payload = {
+    format: MATERIALS_FORMAT,
+    version: MATERIALS_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    materials,
+  };
+  downloadFile(`charpy-materiales-${Date.now()}.json`, JSON.stringify(payload, null, 2), 'application/json');
+};
+
+// Holds the sample's perturbed physics under the code name and a non-secret hash of the answer
+export const exportChallengeJson = (challenge: Challenge) => {
+  const payload = {
+    format: CHALLENGE_FORMAT,
+    version: CHALLENGE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    challenge,
+  };
+  downloadFile(`charpy-desafio-${Date.now()}.json`, JSON.stringify(payload, null, 2), 'application/json');
+};
+
+// Student's answer for the instructor, with the tests it is based on. No grade: the instructor regrades it
+export const exportChallengeAnswer = (challenge: Challenge, submission: ChallengeSubmission, results: TestResult[]) => {
+  const payload = {
+    format: CHALLENGE_ANSWER_FORMAT,
+    version: CHALLENGE_ANSWER_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    challengeId: challenge.id,
+    codeName: challenge.codeName,
+    answer: {
+      materialId: submission.materialId,
+      material: challenge.candidates.find(m => m.id === submission.materialId)?.name ?? submission.materialId,
+      reasoning: submission.reasoning,
+      submittedAt: new Date(submission.submittedAt).toISOString(),
+    },
+    results,
+  };
+  downloadFile(`charpy-desafio-respuesta-${Date.now()}.json`, JSON.stringify(payload, null, 2), 'application/json');
+};
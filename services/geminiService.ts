@@ -1,40 +1,79 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
 import { TestResult } from "../types";
+import { Units } from "../physics/units";
+import { materialType, Messages } from "../i18n";
+import { AnalysisError, AnalysisProvider } from "./analysisProvider";
+import { readAnalysisOutput } from "./analysisReport";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const GEMINI_MODEL = 'gemini-2.5-flash';
 
-export const analyzeResults = async (results: TestResult[]): Promise<string> => {
-  if (results.length === 0) return "No hay resultados para analizar.";
+// JSON output requested from the model, checked again by validateAnalysisReport
+const reportSchema = (units: Units, t: Messages): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    ranking: {
+      type: Type.ARRAY,
+      description: t.gemini.rankingDescription,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          material: { type: Type.STRING },
+          meanEnergy: { type: Type.NUMBER, description: t.gemini.meanEnergyDescription(units.symbol('energy')) },
+          comment: { type: Type.STRING, description: t.gemini.commentDescription },
+        },
+        required: ['material', 'meanEnergy', 'comment'],
+      },
+    },
+    fractureInterpretation: { type: Type.STRING, description: t.gemini.fractureDescription },
+    applications: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          material: { type: Type.STRING },
+          recommendation: { type: Type.STRING },
+        },
+        required: ['material', 'recommendation'],
+      },
+    },
+    warnings: { type: Type.ARRAY, description: t.gemini.warningsDescription, items: { type: Type.STRING } },
+  },
+  required: ['ranking', 'fractureInterpretation', 'applications', 'warnings'],
+});
 
-  const resultsSummary = results.map(r => 
-    `- Material: ${r.material.name} (${r.material.fractureType})
-     - Energía Inicial: ${r.initialEnergy.toFixed(2)} J
-     - Energía Absorbida: ${r.absorbedEnergy.toFixed(2)} J
-     - Ángulo Final: ${r.finalAngle.toFixed(2)} grados`
+// Written in the selected language, which the model is asked to answer in
+const buildPrompt = (results: TestResult[], units: Units, t: Messages): string => {
+  const { gemini } = t;
+  const resultsSummary = results.map(r =>
+    `- ${gemini.material}: ${r.material.name} [${materialType(r.material, t)}] (${gemini.fracture} ${t.fracture[r.fractureType]})
+     - ${gemini.temperature}: ${units.format('temperature', r.temperature)}
+     - ${gemini.initialEnergy}: ${units.format('energy', r.initialEnergy, 2)}
+     - ${gemini.absorbedEnergy}: ${units.format('energy', r.absorbedEnergy, 2)}
+     - ${gemini.lateralExpansion}: ${units.format('expansion', r.lateralExpansion)}
+     - ${gemini.shear}: ${r.shearPercent} %
+     - ${gemini.finalAngle}: ${units.number(r.finalAngle, 2)} ${gemini.degrees}
+     - ${gemini.broken}: ${r.didBreak ? gemini.yes : gemini.no}`
   ).join('\n');
 
-  const prompt = `
-    Actúa como un Ingeniero de Materiales Senior analizando datos del Ensayo de Impacto Charpy.
-    
-    Aquí están los resultados recientes de las pruebas:
-    ${resultsSummary}
+  return gemini.prompt(resultsSummary, [units.symbol('energy'), units.symbol('temperature'), units.symbol('expansion')].join(', '));
+};
 
-    Por favor, proporciona un análisis técnico conciso en español que cubra:
-    1. Una comparación de la tenacidad (energía absorbida) de los materiales probados.
-    2. Una explicación de la relación entre la energía absorbida y el tipo de fractura (Dúctil vs Frágil) observada en los datos.
-    3. Implicaciones prácticas: ¿Dónde usarías el material más tenaz frente al más frágil basándote en estos resultados?
-    
-    Formatea la respuesta en Markdown claro. Mantén un tono profesional pero accesible para estudiantes de ingeniería.
-  `;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-    return response.text || "Análisis completo, pero no se devolvió texto.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Error al generar el análisis. Por favor verifica la configuración de la API.";
-  }
-};
\ No newline at end of file
+// The client is only built on the first request, so the app also starts without a key or network
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): AnalysisProvider => {
+  let client: GoogleGenAI | null = null;
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    analyze: async (results, units, t) => {
+      if (!apiKey) throw new AnalysisError('missing-api-key');
+      client ??= new GoogleGenAI({ apiKey });
+      const response = await client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: buildPrompt(results, units, t),
+        config: { responseMimeType: 'application/json', responseSchema: reportSchema(units, t) },
+      });
+      if (!response.text) throw new AnalysisError('empty-response');
+      return readAnalysisOutput(response.text, units, t);
+    },
+  };
+};
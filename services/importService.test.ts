@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { parseChallengeAnswerJson, parseChallengeJson, parseResultsCsv, parseResultsFile, parseResultsJson, parseMaterialsJson } from './importService';
+import { CHALLENGE_ANSWER_FORMAT, CHALLENGE_FORMAT, exercisesToCsv, resultsToCsv, resultsToJson } from './exportService';
+import { simulateTest } from '../physics/engine';
+import { createUnits, SI_UNITS } from '../physics/units';
+import { createChallenge } from '../analysis/challenge';
+import { gradeExercise, solveExercise } from '../analysis/exercise';
+import { DEFAULT_CONFIG, DEFAULT_CONFIG_LIMITS, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+import { MESSAGES } from '../i18n';
+import { TestResult } from '../types';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+const US_UNITS = createUnits('US');
+
+const series = [-40, 0, 40].map((temperature, i) =>
+  simulateTest({ config: { ...DEFAULT_CONFIG, temperature }, material: steel, specimen: DEFAULT_SPECIMEN, seed: i, timestamp: i + 1 }).result
+);
+
+// CSV values are rounded by the unit conversions, so numbers are compared loosely
+const expectSameResults = (imported: TestResult[], original: TestResult[]) => {
+  expect(imported.map(r => r.id)).toEqual(original.map(r => r.id));
+  imported.forEach((r, i) => {
+    const o = original[i];
+    expect(r.material.id).toBe(o.material.id);
+    expect(r.specimen.notchType).toBe(o.specimen.notchType);
+    expect(r.specimen.width).toBeCloseTo(o.specimen.width, 6);
+    expect(r.temperature).toBeCloseTo(o.temperature, 6);
+    expect(r.absorbedEnergy).toBeCloseTo(o.absorbedEnergy, 6);
+    expect(r.initialEnergy).toBeCloseTo(o.initialEnergy, 6);
+    expect(r.config.mass).toBeCloseTo(o.config.mass, 6);
+    expect(r.config.length).toBeCloseTo(o.config.length, 6);
+    expect(r.didBreak).toBe(o.didBreak);
+    expect(r.fractureType).toBe(o.fractureType);
+  });
+};
+
+describe('results CSV', () => {
+  it('reads back what it writes in SI units', () => {
+    const report = parseResultsCsv(resultsToCsv(series, SI_UNITS), MATERIALS);
+    expect(report.errors).toEqual([]);
+    expectSameResults(report.results, series);
+  });
+
+  it('writes US customary column names and stores them back in SI', () => {
+    const csv = resultsToCsv(series, US_UNITS);
+    const header = csv.split('\n')[0].split(',');
+    expect(header).toContain('absorbed_energy_ftlbf');
+    expect(header).toContain('temperature_f');
+    expect(header).toContain('mass_lb');
+    expect(header).not.toContain('absorbed_energy_j');
+    // The striker keeps its mm name in both systems
+    expect(header).toContain('striker_radius_mm');
+
+    const report = parseResultsFile('series.csv', csv, MATERIALS);
+    expect(report.errors).toEqual([]);
+    expectSameResults(report.results, series);
+  });
+
+  it('reports malformed rows and keeps the others', () => {
+    const [header, first, ...rest] = resultsToCsv(series).split('\n');
+    const columns = header.split(',');
+    const cells = first.split(',');
+    cells[columns.indexOf('temperature_c')] = 'cold';
+    const report = parseResultsCsv([header, cells.join(','), ...rest].join('\n'), MATERIALS);
+    expect(report.results.map(r => r.id)).toEqual(series.slice(1).map(r => r.id));
+    expect(report.errors).toEqual([{ row: 1, message: '"temperature_c" no es un número válido' }]);
+  });
+
+  it('names the missing columns and reports in the requested language', () => {
+    const report = parseResultsCsv('id,timestamp\n1,2', MATERIALS, MESSAGES.en);
+    expect(report.results).toEqual([]);
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0].row).toBe(0);
+    expect(report.errors[0].message).toContain('material_id');
+    expect(report.errors[0].message).not.toBe(parseResultsCsv('id,timestamp\n1,2', MATERIALS).errors[0].message);
+  });
+});
+
+describe('results JSON', () => {
+  it('reads back what it writes', () => {
+    const report = parseResultsJson(resultsToJson(series, []), MATERIALS);
+    expect(report.errors).toEqual([]);
+    expectSameResults(report.results, series);
+  });
+
+  it('rejects other formats and newer versions', () => {
+    expect(parseResultsJson(JSON.stringify({ format: 'other', results: [] }), MATERIALS).errors)
+      .toEqual([{ row: 0, message: 'Formato desconocido: other' }]);
+    expect(parseResultsJson(JSON.stringify({ format: 'charpysim-results', version: 2, results: [] }), MATERIALS).errors)
+      .toEqual([{ row: 0, message: 'Versión 2 no soportada (máx. 1)' }]);
+  });
+
+  it('rejects payloads that are not objects', () => {
+    ['null', '[]', '42', '"text"', '{'].forEach(text => {
+      expect(parseResultsJson(text, MATERIALS)).toEqual({ results: [], errors: [{ row: 0, message: 'El archivo no es un JSON válido' }] });
+      expect(parseMaterialsJson(text).errors).toEqual([{ row: 0, message: 'El archivo no es un JSON válido' }]);
+      expect(parseChallengeJson(text).errors).toEqual([{ row: 0, message: 'El archivo no es un JSON válido' }]);
+      expect(parseChallengeAnswerJson(text).errors).toEqual([{ row: 0, message: 'El archivo no es un JSON válido' }]);
+    });
+  });
+
+  it('reports a null entry as a row error', () => {
+    const payload = JSON.parse(resultsToJson(series, []));
+    payload.results[1] = null;
+    const report = parseResultsJson(JSON.stringify(payload), MATERIALS);
+    expect(report.results).toHaveLength(2);
+    expect(report.errors.map(e => e.row)).toEqual([2]);
+  });
+});
+
+describe('exercises CSV', () => {
+  it('writes the answer, the expected value and the grade of each quantity', () => {
+    const result = series[0];
+    const expected = solveExercise(result);
+    const attempt = gradeExercise(result, { ...expected, hf: null, kv: expected.kv * 2 }, 0);
+    const [header, row, ...rest] = exercisesToCsv([attempt], series).split('\n');
+    expect(rest).toEqual([]);
+
+    const columns = header.split(',');
+    expect(columns.slice(0, 3)).toEqual(['result_id', 'timestamp', 'material']);
+    expect(columns).toContain('pe1_answer_j');
+    expect(columns).toContain('h0_expected_m');
+    const cells = Object.fromEntries(row.split(',').map((cell, i) => [columns[i], cell]));
+    expect(cells.result_id).toBe(result.id);
+    expect(cells.hf_answer_m).toBe('');
+    expect(cells.hf_correct).toBe('false');
+    expect(cells.pe1_correct).toBe('true');
+    expect(cells.kv_correct).toBe('false');
+    expect(cells.score).toBe('3/5');
+  });
+
+  it('uses US customary columns and skips attempts without their test', () => {
+    const attempt = gradeExercise(series[0], solveExercise(series[0]), 0);
+    const orphan = { ...attempt, resultId: 'missing' };
+    const [header, ...rows] = exercisesToCsv([attempt, orphan], series, US_UNITS).split('\n');
+    expect(header).toContain('pe1_answer_ftlbf');
+    expect(header).toContain('h0_expected_ft');
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('challenge files', () => {
+  const challenge = createChallenge('Muestra X', steel, MATERIALS, DEFAULT_CONFIG_LIMITS, 1);
+  const challengeFile = (content: unknown) => JSON.stringify({ format: CHALLENGE_FORMAT, version: 1, challenge: content });
+
+  it('reads back a challenge', () => {
+    expect(parseChallengeJson(challengeFile(challenge))).toEqual({ challenge, errors: [] });
+  });
+
+  it('rejects inverted limits and newer versions', () => {
+    const inverted = { ...challenge, limits: { ...challenge.limits, mass: { min: 30, max: 10 } } };
+    expect(parseChallengeJson(challengeFile(inverted)).errors)
+      .toEqual([{ row: 0, message: 'en "limits.mass" el mínimo no puede superar al máximo' }]);
+    expect(parseChallengeJson(JSON.stringify({ format: CHALLENGE_FORMAT, version: 2, challenge })).errors)
+      .toEqual([{ row: 0, message: 'Versión 2 no soportada (máx. 1)' }]);
+  });
+
+  it('reads the chosen material from an answer file', () => {
+    const text = JSON.stringify({
+      format: CHALLENGE_ANSWER_FORMAT,
+      version: 1,
+      challengeId: challenge.id,
+      answer: { materialId: 'al-6061', reasoning: 'Sin transición', submittedAt: '2024-01-01T00:00:00.000Z' },
+    });
+    expect(parseChallengeAnswerJson(text)).toEqual({
+      answer: {
+        challengeId: challenge.id,
+        submission: { materialId: 'al-6061', reasoning: 'Sin transición', submittedAt: Date.parse('2024-01-01T00:00:00.000Z') },
+      },
+      errors: [],
+    });
+    expect(parseChallengeAnswerJson(JSON.stringify({ format: CHALLENGE_FORMAT })).errors)
+      .toEqual([{ row: 0, message: `Formato desconocido: ${CHALLENGE_FORMAT}` }]);
+  });
+});
@@ -0,0 +1,501 @@
+import { Challenge, ChallengeCandidate, ChallengeSubmission, ConfigLimits, FractureType, MachineProfile, Material, NotchType, PendulumConfig, SpecimenGeometry, StrikerRadius, TestResult } from "../types";
+import { DEFAULT_MACHINE, NO_MACHINE_LOSSES, STRIKER_RADII } from "../constants";
+import { withFractureAppearance } from "../physics/fractureAppearance";
+import { withEnergySplit, withLossCorrection } from "../physics/engine";
+import { createUnits } from "../physics/units";
+import { es, Messages } from "../i18n";
+import { CHALLENGE_ANSWER_FORMAT, CHALLENGE_ANSWER_FORMAT_VERSION, CHALLENGE_FORMAT, CHALLENGE_FORMAT_VERSION, CSV_COLUMNS, CSV_UNIT_COLUMNS, CsvColumn, MATERIALS_FORMAT, MATERIALS_FORMAT_VERSION, RESULTS_FORMAT, RESULTS_FORMAT_VERSION } from "./exportService";
+
+export interface ImportRowError {
+  row: number; // 1-based data row (CSV) or array position (JSON)
+  message: string;
+}
+
+export interface ImportReport {
+  results: TestResult[];
+  errors: ImportRowError[];
+}
+
+const FRACTURE_TYPES: FractureType[] = ['Ductile', 'Brittle', 'Mixed'];
+const NOTCH_TYPES: NotchType[] = ['V', 'U', 'Keyhole'];
+
+type ImportMessages = Messages['import'];
+
+// Thrown by the field readers; turned into a row error, in the caller's language, by the callers
+class RowError extends Error {
+  constructor(readonly describe: (messages: ImportMessages) => string) {
+    super(describe(es.import));
+  }
+}
+
+const readNumber = (value: unknown, field: string): number => {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) throw new RowError(m => m.notANumber(field));
+  return num;
+};
+
+const readOptionalNumber = (value: unknown, field: string): number | undefined =>
+  value === undefined || value === '' ? undefined : readNumber(value, field);
+
+const readPositive = (value: unknown, field: string): number => {
+  const num = readNumber(value, field);
+  if (num <= 0) throw new RowError(m => m.notPositive(field));
+  return num;
+};
+
+const readBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new RowError(m => m.notBoolean(field));
+};
+
+const readString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') throw new RowError(m => m.empty(field));
+  return value;
+};
+
+const readEnum = <T extends string>(value: unknown, allowed: T[], field: string): T => {
+  if (!allowed.includes(value as T)) throw new RowError(m => m.notOneOf(field, allowed.join(', ')));
+  return value as T;
+};
+
+// JSON.parse also accepts null, numbers, strings and arrays, none of which is an export file
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readTimestamp = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) throw new RowError(m => m.invalidDate('timestamp'));
+  return time;
+};
+
+// Complete material definition, as stored in results and material library files
+const readMaterialDefinition = (value: unknown): Material => {
+  const raw = (value ?? {}) as Partial<Material>;
+  const transition = (raw.transition ?? {}) as Partial<Material['transition']>;
+  const material: Material = {
+    id: readString(raw.id, 'material.id'),
+    name: readString(raw.name, 'material.name'),
+    type: readString(raw.type, 'material.type'),
+    transition: {
+      upperShelf: readPositive(transition.upperShelf, 'material.transition.upperShelf'),
+      lowerShelf: readPositive(transition.lowerShelf, 'material.transition.lowerShelf'),
+      transitionTemp: readNumber(transition.transitionTemp, 'material.transition.transitionTemp'),
+      width: readPositive(transition.width, 'material.transition.width'),
+    },
+    color: readString(raw.color, 'material.color'),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    fractureType: readEnum(raw.fractureType, FRACTURE_TYPES, 'material.fractureType'),
+  };
+  if (material.transition.lowerShelf > material.transition.upperShelf) {
+    throw new RowError(m => m.lowerAboveUpper);
+  }
+  return material;
+};
+
+// Embedded materials (JSON) are accepted when they are complete; otherwise the id must be known
+const readMaterial = (value: unknown, materials: Material[]): Material => {
+  const raw = (value ?? {}) as Partial<Material>;
+  const known = materials.find(m => m.id === raw.id);
+  if (known) return known;
+  try {
+    return readMaterialDefinition(value);
+  } catch (error) {
+    throw new RowError(m => m.unknownMaterial(String(raw.id ?? ''), error instanceof RowError ? error.describe(m) : (error as Error).message));
+  }
+};
+
+// Files exported before machine profiles existed are assumed to come from the default machine,
+// and those from before the losses were modelled from a frictionless one
+const readMachine = (value: unknown): MachineProfile => {
+  const raw = (value ?? {}) as Partial<Record<keyof MachineProfile, unknown>>;
+  const isBlank = (field: unknown) => field === undefined || field === '';
+  const losses = {
+    frictionTorque: readOptionalNumber(raw.frictionTorque, 'machine.frictionTorque') ?? NO_MACHINE_LOSSES.frictionTorque,
+    windageCoefficient: readOptionalNumber(raw.windageCoefficient, 'machine.windageCoefficient') ?? NO_MACHINE_LOSSES.windageCoefficient,
+  };
+  if (losses.frictionTorque < 0 || losses.windageCoefficient < 0) throw new RowError(m => m.negativeLosses);
+  if (isBlank(raw.nominalEnergy) && isBlank(raw.strikerRadius)) return { ...DEFAULT_MACHINE, ...losses };
+  const strikerRadius = readNumber(raw.strikerRadius, 'machine.strikerRadius');
+  if (!STRIKER_RADII.includes(strikerRadius as StrikerRadius)) {
+    throw new RowError(m => m.notOneOf('machine.strikerRadius', STRIKER_RADII.join(', ')));
+  }
+  return {
+    nominalEnergy: readPositive(raw.nominalEnergy, 'machine.nominalEnergy'),
+    strikerRadius: strikerRadius as StrikerRadius,
+    ...losses,
+  };
+};
+
+const readConfig = (raw: Partial<Record<keyof PendulumConfig, unknown>>, temperature: number): PendulumConfig => ({
+  mass: readPositive(raw.mass, 'mass'),
+  length: readPositive(raw.length, 'length'),
+  startAngle: readPositive(raw.startAngle, 'startAngle'),
+  temperature,
+  machine: readMachine(raw.machine),
+});
+
+const readSpecimen = (raw: Partial<Record<keyof SpecimenGeometry, unknown>>): SpecimenGeometry => ({
+  width: readPositive(raw.width, 'specimen.width'),
+  thickness: readPositive(raw.thickness, 'specimen.thickness'),
+  notchType: readEnum(raw.notchType, NOTCH_TYPES, 'specimen.notchType'),
+  notchDepth: readNumber(raw.notchDepth, 'specimen.notchDepth'),
+  notchRadius: readPositive(raw.notchRadius, 'specimen.notchRadius'),
+});
+
+const checkEnergies = (result: TestResult): TestResult => {
+  if (result.absorbedEnergy < 0) throw new RowError(m => m.negativeEnergy);
+  if (result.absorbedEnergy > result.initialEnergy + 1e-6) {
+    throw new RowError(m => m.energyAboveInitial);
+  }
+  return result;
+};
+
+// Absent in files exported by older versions; derived from the other fields or defaulted instead
+const OPTIONAL_COLUMNS: CsvColumn[] = [
+  'lateral_expansion_mm',
+  'shear_percent',
+  'initiation_energy_j',
+  'propagation_energy_j',
+  'nominal_energy_j',
+  'striker_radius_mm',
+  'friction_torque_nm',
+  'windage_coefficient',
+  'uncorrected_energy_j',
+  'loss_correction_j',
+];
+
+const rowError = (row: number, error: unknown, t: Messages): ImportRowError => ({
+  row,
+  message: error instanceof RowError ? error.describe(t.import) : t.import.unexpected(String(error)),
+});
+
+// --- CSV ---
+
+// RFC 4180 style parser: quoted fields, escaped quotes and embedded newlines
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const US_UNITS = createUnits('US');
+
+// Each column may come with its SI name or, converted, with its US customary name
+const locateColumns = (header: string[]) => new Map(CSV_COLUMNS.map(column => {
+  const us = CSV_UNIT_COLUMNS[column];
+  return [column, !header.includes(column) && us && header.includes(us.us)
+    ? { index: header.indexOf(us.us), name: us.us, quantity: us.quantity }
+    : { index: header.indexOf(column), name: column, quantity: undefined }];
+}));
+
+export const parseResultsCsv = (text: string, materials: Material[], t: Messages = es): ImportReport => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return { results: [], errors: [{ row: 0, message: t.import.emptyFile }] };
+
+  const columns = locateColumns(header);
+  const missing = CSV_COLUMNS.filter(column => !OPTIONAL_COLUMNS.includes(column) && columns.get(column)!.index < 0);
+  if (missing.length > 0) {
+    return { results: [], errors: [{ row: 0, message: t.import.missingColumns(missing.join(', ')) }] };
+  }
+  // Field names in the error messages are the ones in the file
+  const field = (column: CsvColumn) => columns.get(column)!.name;
+
+  const report: ImportReport = { results: [], errors: [] };
+  rows.forEach((cells, index) => {
+    // US customary values are stored back in SI
+    const get = (column: CsvColumn): unknown => {
+      const { index: position, quantity } = columns.get(column)!;
+      const cell = cells[position];
+      return quantity && cell !== undefined && cell.trim() !== '' && Number.isFinite(Number(cell))
+        ? US_UNITS.fromDisplay(quantity, Number(cell))
+        : cell;
+    };
+    try {
+      const temperature = readNumber(get('temperature_c'), field('temperature_c'));
+      report.results.push(checkEnergies(withEnergySplit(withFractureAppearance(withLossCorrection({
+        id: readString(get('id'), field('id')),
+        timestamp: readTimestamp(get('timestamp')),
+        material: readMaterial({ id: get('material_id') }, materials),
+        specimen: readSpecimen({
+          width: get('specimen_width_mm'),
+          thickness: get('specimen_thickness_mm'),
+          notchType: get('notch_type'),
+          notchDepth: get('notch_depth_mm'),
+          notchRadius: get('notch_radius_mm'),
+        }),
+        config: readConfig({
+          mass: get('mass_kg'),
+          length: get('length_m'),
+          startAngle: get('start_angle_deg'),
+          machine: {
+            nominalEnergy: get('nominal_energy_j'),
+            strikerRadius: get('striker_radius_mm'),
+            frictionTorque: get('friction_torque_nm'),
+            windageCoefficient: get('windage_coefficient'),
+          },
+        }, temperature),
+        seed: readNumber(get('seed'), field('seed')),
+        temperature,
+        initialEnergy: readNumber(get('initial_energy_j'), field('initial_energy_j')),
+        absorbedEnergy: readNumber(get('absorbed_energy_j'), field('absorbed_energy_j')),
+        finalAngle: readNumber(get('final_angle_deg'), field('final_angle_deg')),
+        didBreak: readBoolean(get('broke'), field('broke')),
+        fractureType: readEnum(get('fracture_type'), FRACTURE_TYPES, 'fracture_type'),
+        lateralExpansion: readOptionalNumber(get('lateral_expansion_mm'), field('lateral_expansion_mm')),
+        shearPercent: readOptionalNumber(get('shear_percent'), field('shear_percent')),
+        initiationEnergy: readOptionalNumber(get('initiation_energy_j'), field('initiation_energy_j')),
+        propagationEnergy: readOptionalNumber(get('propagation_energy_j'), field('propagation_energy_j')),
+        uncorrectedEnergy: readOptionalNumber(get('uncorrected_energy_j'), field('uncorrected_energy_j')),
+        lossCorrection: readOptionalNumber(get('loss_correction_j'), field('loss_correction_j')),
+      })))));
+    } catch (error) {
+      report.errors.push(rowError(index + 1, error, t));
+    }
+  });
+  return report;
+};
+
+// --- JSON ---
+
+export const parseResultsJson = (text: string, materials: Material[], t: Messages = es): ImportReport => {
+  let payload: { format?: unknown; version?: unknown; results?: unknown };
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { results: [], errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (!isJsonObject(payload)) {
+    return { results: [], errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+
+  if (payload.format !== undefined && payload.format !== RESULTS_FORMAT) {
+    return { results: [], errors: [{ row: 0, message: t.import.unknownFormat(String(payload.format)) }] };
+  }
+  if (typeof payload.version === 'number' && payload.version > RESULTS_FORMAT_VERSION) {
+    return { results: [], errors: [{ row: 0, message: t.import.unsupportedVersion(payload.version, RESULTS_FORMAT_VERSION) }] };
+  }
+  if (!Array.isArray(payload.results)) {
+    return { results: [], errors: [{ row: 0, message: t.import.missingList('results') }] };
+  }
+
+  const report: ImportReport = { results: [], errors: [] };
+  payload.results.forEach((item, index) => {
+    try {
+      const raw = (item ?? {}) as Record<string, unknown>;
+      const temperature = readNumber(raw.temperature, 'temperature');
+      report.results.push(checkEnergies(withEnergySplit(withFractureAppearance(withLossCorrection({
+        id: readString(raw.id, 'id'),
+        timestamp: readTimestamp(raw.timestamp),
+        material: readMaterial(raw.material, materials),
+        specimen: readSpecimen((raw.specimen ?? {}) as Record<string, unknown>),
+        config: readConfig((raw.config ?? {}) as Record<string, unknown>, temperature),
+        seed: readNumber(raw.seed, 'seed'),
+        temperature,
+        initialEnergy: readNumber(raw.initialEnergy, 'initialEnergy'),
+        absorbedEnergy: readNumber(raw.absorbedEnergy, 'absorbedEnergy'),
+        finalAngle: readNumber(raw.finalAngle, 'finalAngle'),
+        didBreak: readBoolean(raw.didBreak, 'didBreak'),
+        fractureType: readEnum(raw.fractureType, FRACTURE_TYPES, 'fractureType'),
+        lateralExpansion: readOptionalNumber(raw.lateralExpansion, 'lateralExpansion'),
+        shearPercent: readOptionalNumber(raw.shearPercent, 'shearPercent'),
+        initiationEnergy: readOptionalNumber(raw.initiationEnergy, 'initiationEnergy'),
+        propagationEnergy: readOptionalNumber(raw.propagationEnergy, 'propagationEnergy'),
+        uncorrectedEnergy: readOptionalNumber(raw.uncorrectedEnergy, 'uncorrectedEnergy'),
+        lossCorrection: readOptionalNumber(raw.lossCorrection, 'lossCorrection'),
+      })))));
+    } catch (error) {
+      report.errors.push(rowError(index + 1, error, t));
+    }
+  });
+  return report;
+};
+
+// --- Material library ---
+
+export interface MaterialImportReport {
+  materials: Material[];
+  errors: ImportRowError[];
+}
+
+export const parseMaterialsJson = (text: string, t: Messages = es): MaterialImportReport => {
+  let payload: { format?: unknown; version?: unknown; materials?: unknown };
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { materials: [], errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (!isJsonObject(payload)) {
+    return { materials: [], errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (payload.format !== MATERIALS_FORMAT) {
+    return { materials: [], errors: [{ row: 0, message: t.import.unknownFormat(String(payload.format)) }] };
+  }
+  if (typeof payload.version === 'number' && payload.version > MATERIALS_FORMAT_VERSION) {
+    return { materials: [], errors: [{ row: 0, message: t.import.unsupportedVersion(payload.version, MATERIALS_FORMAT_VERSION) }] };
+  }
+  if (!Array.isArray(payload.materials)) {
+    return { materials: [], errors: [{ row: 0, message: t.import.missingList('materials') }] };
+  }
+
+  const report: MaterialImportReport = { materials: [], errors: [] };
+  payload.materials.forEach((item, index) => {
+    try {
+      report.materials.push(readMaterialDefinition(item));
+    } catch (error) {
+      report.errors.push(rowError(index + 1, error, t));
+    }
+  });
+  return report;
+};
+
+// --- Challenge ---
+
+export interface ChallengeImportReport {
+  challenge: Challenge | null;
+  errors: ImportRowError[];
+}
+
+const readRange = (value: unknown, field: string) => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const range = { min: readNumber(raw.min, `${field}.min`), max: readNumber(raw.max, `${field}.max`) };
+  if (range.min > range.max) throw new RowError(m => m.minAboveMax(field));
+  return range;
+};
+
+const readLimits = (value: unknown): ConfigLimits => {
+  const raw = (value ?? {}) as Partial<Record<keyof ConfigLimits, unknown>>;
+  return {
+    mass: readRange(raw.mass, 'limits.mass'),
+    length: readRange(raw.length, 'limits.length'),
+    startAngle: readRange(raw.startAngle, 'limits.startAngle'),
+    temperature: readRange(raw.temperature, 'limits.temperature'),
+  };
+};
+
+const readCandidate = (value: unknown): ChallengeCandidate => {
+  const raw = (value ?? {}) as Partial<ChallengeCandidate>;
+  return { id: readString(raw.id, 'candidates.id'), name: readString(raw.name, 'candidates.name') };
+};
+
+export const parseChallengeJson = (text: string, t: Messages = es): ChallengeImportReport => {
+  let payload: { format?: unknown; version?: unknown; challenge?: unknown };
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { challenge: null, errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (!isJsonObject(payload)) {
+    return { challenge: null, errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (payload.format !== CHALLENGE_FORMAT) {
+    return { challenge: null, errors: [{ row: 0, message: t.import.unknownFormat(String(payload.format)) }] };
+  }
+  if (typeof payload.version === 'number' && payload.version > CHALLENGE_FORMAT_VERSION) {
+    return { challenge: null, errors: [{ row: 0, message: t.import.unsupportedVersion(payload.version, CHALLENGE_FORMAT_VERSION) }] };
+  }
+
+  try {
+    const raw = (payload.challenge ?? {}) as Partial<Record<keyof Challenge, unknown>>;
+    if (!Array.isArray(raw.candidates)) {
+      return { challenge: null, errors: [{ row: 0, message: t.import.missingList('candidates') }] };
+    }
+    return {
+      challenge: {
+        id: readString(raw.id, 'id'),
+        codeName: readString(raw.codeName, 'codeName'),
+        sample: readMaterialDefinition(raw.sample),
+        answerHash: readString(raw.answerHash, 'answerHash'),
+        candidates: raw.candidates.map(readCandidate),
+        limits: readLimits(raw.limits),
+        createdAt: readTimestamp(raw.createdAt),
+      },
+      errors: [],
+    };
+  } catch (error) {
+    return { challenge: null, errors: [rowError(0, error, t)] };
+  }
+};
+
+export interface ChallengeAnswerImportReport {
+  answer: { challengeId: string; submission: ChallengeSubmission } | null;
+  errors: ImportRowError[];
+}
+
+// Answer file handed in by a student; only the chosen material is read, it is graded again on import
+export const parseChallengeAnswerJson = (text: string, t: Messages = es): ChallengeAnswerImportReport => {
+  let payload: { format?: unknown; version?: unknown; challengeId?: unknown; answer?: unknown };
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { answer: null, errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (!isJsonObject(payload)) {
+    return { answer: null, errors: [{ row: 0, message: t.import.invalidJson }] };
+  }
+  if (payload.format !== CHALLENGE_ANSWER_FORMAT) {
+    return { answer: null, errors: [{ row: 0, message: t.import.unknownFormat(String(payload.format)) }] };
+  }
+  if (typeof payload.version === 'number' && payload.version > CHALLENGE_ANSWER_FORMAT_VERSION) {
+    return { answer: null, errors: [{ row: 0, message: t.import.unsupportedVersion(payload.version, CHALLENGE_ANSWER_FORMAT_VERSION) }] };
+  }
+
+  try {
+    const raw = (payload.answer ?? {}) as Partial<Record<keyof ChallengeSubmission, unknown>>;
+    return {
+      answer: {
+        challengeId: readString(payload.challengeId, 'challengeId'),
+        submission: {
+          materialId: readString(raw.materialId, 'answer.materialId'),
+          reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
+          submittedAt: readTimestamp(raw.submittedAt),
+        },
+      },
+      errors: [],
+    };
+  } catch (error) {
+    return { answer: null, errors: [rowError(0, error, t)] };
+  }
+};
+
+// Picks the parser from the file name
+export const parseResultsFile = (filename: string, text: string, materials: Material[], t: Messages = es): ImportReport => {
+  return filename.toLowerCase().endsWith('.csv')
+    ? parseResultsCsv(text, materials, t)
+    : parseResultsJson(text, materials, t);
+};
@@ -0,0 +1,21 @@
+import { TestResult } from "../types";
+import { AnalysisError, AnalysisOutput, AnalysisProvider } from "./analysisProvider";
+
+export interface MockAnalyzer extends AnalysisProvider {
+  calls: TestResult[][]; // Results passed to each analyze call
+}
+
+// Test double: answers with a fixed output (plain text becomes Markdown) or fails with the given error
+export const createMockAnalyzer = (outcome: string | AnalysisOutput | AnalysisError | Error = '## Análisis de prueba'): MockAnalyzer => {
+  const calls: TestResult[][] = [];
+  return {
+    id: 'mock',
+    label: 'Simulado',
+    calls,
+    analyze: async results => {
+      calls.push(results);
+      if (outcome instanceof Error) throw outcome;
+      return typeof outcome === 'string' ? { report: null, markdown: outcome } : outcome;
+    },
+  };
+};
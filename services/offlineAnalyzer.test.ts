@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { buildOfflineReport, offlineAnalyzer } from './offlineAnalyzer';
+import { validateAnalysisReport } from './analysisReport';
+import { simulateTest } from '../physics/engine';
+import { createUnits, SI_UNITS } from '../physics/units';
+import { DEFAULT_CONFIG, DEFAULT_SPECIMEN, MATERIALS } from '../constants';
+import { MESSAGES } from '../i18n';
+
+const steel = MATERIALS.find(m => m.id === 'steel-1045')!;
+const castIron = MATERIALS.find(m => m.id === 'cast-iron')!;
+
+const series = [steel, castIron].flatMap((material, m) =>
+  [-60, -20, 0, 20, 60].map((temperature, i) =>
+    simulateTest({ config: { ...DEFAULT_CONFIG, temperature }, material, specimen: DEFAULT_SPECIMEN, seed: 10 * m + i, timestamp: i }).result
+  )
+);
+
+describe('offline analyzer', () => {
+  it('writes the same valid report for the same data', async () => {
+    const { report, markdown } = await offlineAnalyzer.analyze(series, SI_UNITS, MESSAGES.es);
+    expect(report).toEqual(buildOfflineReport(series));
+    expect(validateAnalysisReport(report)).toEqual(report);
+    expect(markdown).toContain('## 1. Ranking de tenacidad');
+    expect(markdown).toContain('## 3. Aplicaciones');
+  });
+
+  it('ranks the materials and discusses their fracture behaviour', () => {
+    const report = buildOfflineReport(series);
+    expect(report.ranking.map(r => r.material)).toEqual([steel.name, castIron.name]);
+    expect(report.ranking[1].comment).toContain('meseta inferior');
+    expect(report.fractureInterpretation).toContain(`${steel.name} es el más tenaz`);
+    expect(report.fractureInterpretation).toContain(`A la misma temperatura (20 °C): ${steel.name}`);
+    expect(report.applications.map(a => a.material)).toEqual([steel.name, castIron.name]);
+  });
+
+  it('quotes values in the chosen units and keeps the ranking in Joules', async () => {
+    const us = createUnits('US');
+    const { report, markdown } = await offlineAnalyzer.analyze(series, us, MESSAGES.es);
+    expect(report!.ranking.map(r => r.meanEnergy)).toEqual(buildOfflineReport(series).ranking.map(r => r.meanEnergy));
+    expect(report!.fractureInterpretation).toContain(`A la misma temperatura (68 °F): ${steel.name}`);
+    expect(report!.fractureInterpretation).toContain('ft·lbf');
+    expect(markdown).toContain('Energía media (ft·lbf)');
+  });
+
+  it('writes the report in the selected language and number format', async () => {
+    const english = await offlineAnalyzer.analyze(series, createUnits('SI', MESSAGES.en.locale), MESSAGES.en);
+    expect(english.markdown).toContain('## 1. Toughness ranking');
+    expect(english.report!.fractureInterpretation).toContain(`${steel.name} is the toughest`);
+    expect(english.report!.ranking[1].comment).toContain('lower shelf');
+
+    const portuguese = await offlineAnalyzer.analyze(series, createUnits('SI', MESSAGES.pt.locale), MESSAGES.pt);
+    expect(portuguese.report!.fractureInterpretation).toContain(`À mesma temperatura (20 °C): ${steel.name}`);
+    expect(portuguese.markdown).toMatch(new RegExp(`\\| 1 \\| ${steel.name} \\| \\d+,\\d \\|`));
+  });
+
+  it('warns about unbroken specimens and small samples', () => {
+    const unbroken = simulateTest({
+      config: { ...DEFAULT_CONFIG, mass: 5, length: 0.5, startAngle: 90, temperature: 40 },
+      material: steel,
+      specimen: DEFAULT_SPECIMEN,
+      seed: 1,
+      timestamp: 1,
+    }).result;
+    const report = buildOfflineReport([unbroken]);
+    expect(report.warnings.some(w => w.startsWith('1 probeta(s) sin romper'))).toBe(true);
+    expect(report.warnings.some(w => w.startsWith('Pocos ensayos'))).toBe(true);
+    expect(report.fractureInterpretation).toContain('Solo se ha ensayado');
+  });
+});
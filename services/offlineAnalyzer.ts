@@ -0,0 +1,186 @@
+import { TestResult } from "../types";
+import { specimenLabel } from "../physics/specimenModel";
+import { fitTransitionCurves, REFERENCE_ENERGY_27J } from "../physics/transitionFit";
+import { Quantity, SI_UNITS, Units } from "../physics/units";
+import { es, Messages } from "../i18n";
+import { mean } from "../analysis/statistics";
+import { groupResults } from "../analysis/resultGroups";
+import { checkValidity } from "../analysis/validity";
+import { AnalysisProvider, AnalysisReport, MaterialApplication } from "./analysisProvider";
+import { reportToMarkdown } from "./analysisReport";
+
+// Shear area above / below which a specimen counts as upper / lower shelf
+const UPPER_SHELF_SHEAR = 90; // %
+const LOWER_SHELF_SHEAR = 10; // %
+// Ratio of mean energies taken as a clear toughness difference
+const CLEAR_DIFFERENCE = 1.5;
+// Preferred temperature for the side-by-side comparison
+const ROOM_TEMPERATURE = 20; // °C
+
+// Results of one material and specimen geometry (energies of different sizes are not comparable)
+interface MaterialSet {
+  key: string;
+  label: string;
+  results: TestResult[]; // By temperature
+  meanEnergy: number;
+}
+
+const span = (units: Units, values: number[], digits = 1) => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return min === max ? units.number(min, digits) : `${units.number(min, digits)}–${units.number(max, digits)}`;
+};
+
+// Range of SI values in display units, with the symbol
+const range = (units: Units, quantity: Quantity, values: number[]) =>
+  `${span(units, values.map(v => units.toDisplay(quantity, v)), units.digits(quantity))} ${units.symbol(quantity)}`;
+
+const materialSets = (results: TestResult[], units: Units, t: Messages): MaterialSet[] => {
+  const groups = new Map<string, TestResult[]>();
+  results.forEach(r => {
+    const key = `${r.material.id}|${specimenLabel(r.specimen)}`;
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  const geometries = new Set(results.map(r => specimenLabel(r.specimen)));
+  return Array.from(groups.entries())
+    .map(([key, members]) => ({
+      key,
+      label: geometries.size > 1 ? `${members[0].material.name} (${specimenLabel(members[0].specimen, units, t)})` : members[0].material.name,
+      results: [...members].sort((a, b) => a.temperature - b.temperature),
+      meanEnergy: mean(members.map(r => r.absorbedEnergy)),
+    }))
+    .sort((a, b) => b.meanEnergy - a.meanEnergy);
+};
+
+// Mean energy of the set at a given temperature
+const energyAt = (set: MaterialSet, temperature: number) =>
+  mean(set.results.filter(r => r.temperature === temperature).map(r => r.absorbedEnergy));
+
+// How the toughest and weakest sets compare, overall and at a common temperature
+const comparison = (sets: MaterialSet[], units: Units, t: Messages): string[] => {
+  const { offline } = t;
+  if (sets.length === 1) return [offline.onlyOneMaterial(sets[0].label)];
+
+  const [toughest, weakest] = [sets[0], sets[sets.length - 1]];
+  const ratio = weakest.meanEnergy > 0 ? toughest.meanEnergy / weakest.meanEnergy : Infinity;
+  const sentences = [
+    ratio >= CLEAR_DIFFERENCE
+      ? offline.clearlyTougher(
+          toughest.label,
+          units.format('energy', toughest.meanEnergy),
+          Number.isFinite(ratio) ? units.number(ratio, 1) : null,
+          weakest.label,
+          units.format('energy', weakest.meanEnergy),
+        )
+      : offline.similarMeans(weakest.label, units.format('energy', weakest.meanEnergy), toughest.label, units.format('energy', toughest.meanEnergy)),
+  ];
+
+  // Means mix temperatures; the fairest comparison is at a temperature shared by most materials,
+  // as close to room temperature as possible
+  const counts = new Map<number, number>();
+  sets.forEach(s => new Set(s.results.map(r => r.temperature)).forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  const shared = Array.from(counts.entries()).filter(([, n]) => n > 1).sort((a, b) => b[1] - a[1] || Math.abs(a[0] - ROOM_TEMPERATURE) - Math.abs(b[0] - ROOM_TEMPERATURE))[0];
+  if (shared) {
+    const [temperature] = shared;
+    const ranking = sets
+      .filter(s => s.results.some(r => r.temperature === temperature))
+      .map(s => ({ label: s.label, energy: energyAt(s, temperature) }))
+      .sort((a, b) => b.energy - a.energy);
+    sentences.push(offline.sameTemperature(units.format('temperature', temperature), ranking.map(r => `${r.label} ${units.format('energy', r.energy)}`).join(' > ')));
+  } else {
+    sentences.push(offline.noCommonTemperature);
+  }
+  return sentences;
+};
+
+const behaviourComment = (set: MaterialSet, t27J: number | null, units: Units, t: Messages): string => {
+  const { offline } = t;
+  const { results } = set;
+  const temperatures = Array.from(new Set(results.map(r => r.temperature)));
+  const shear = results.map(r => r.shearPercent);
+  const types = Array.from(new Set(results.map(r => t.fracture[r.fractureType].toLowerCase())));
+  const parts = [offline.tests(results.length, range(units, 'temperature', temperatures))];
+  const expansion = range(units, 'expansion', results.map(r => r.lateralExpansion));
+
+  if (shear.every(s => s >= UPPER_SHELF_SHEAR)) {
+    parts.push(offline.upperShelf(span(units, shear, 0), expansion));
+  } else if (shear.every(s => s <= LOWER_SHELF_SHEAR)) {
+    parts.push(offline.lowerShelf(span(units, shear, 0), expansion));
+  } else {
+    const coldest = results[0];
+    const warmest = results[results.length - 1];
+    parts.push(offline.transition(
+      [units.format('temperature', coldest.temperature), units.format('temperature', warmest.temperature)],
+      [units.format('energy', energyAt(set, coldest.temperature)), units.format('energy', energyAt(set, warmest.temperature))],
+      [coldest.shearPercent, warmest.shearPercent],
+      [units.format('expansion', coldest.lateralExpansion), units.format('expansion', warmest.lateralExpansion)],
+    ));
+  }
+  parts.push(offline.fracture(types.join(' / ')));
+  if (t27J !== null) parts.push(offline.t27J(units.format('energy', REFERENCE_ENERGY_27J, 0), units.format('temperature', t27J)));
+  if (temperatures.length < 3) parts.push(offline.moreTemperatures);
+
+  return `${parts.join('; ')}.`;
+};
+
+const applications = (sets: MaterialSet[], units: Units, t: Messages): MaterialApplication[] => {
+  const toughest = sets[0];
+  const weakest = sets[sets.length - 1];
+  const list = [{
+    material: toughest.label,
+    recommendation: t.offline.toughestUse(toughest.results.every(r => r.shearPercent >= UPPER_SHELF_SHEAR)),
+  }];
+  if (weakest !== toughest) {
+    const brittle = weakest.results.filter(r => r.shearPercent <= LOWER_SHELF_SHEAR);
+    list.push({
+      material: weakest.label,
+      recommendation: brittle.length > 0
+        ? t.offline.avoidBelow(units.format('temperature', Math.max(...brittle.map(r => r.temperature))))
+        : t.offline.weakestUse,
+    });
+  }
+  return list;
+};
+
+// Data the conclusions should not rely on blindly
+const warnings = (results: TestResult[], units: Units, t: Messages): string[] => {
+  const { offline } = t;
+  const list: string[] = [];
+  const unbroken = results.filter(r => !r.didBreak).length;
+  if (unbroken > 0) list.push(offline.unbroken(unbroken));
+  const invalid = results.filter(r => checkValidity(r).some(issue => issue.severity === 'invalid')).length;
+  if (invalid > unbroken) list.push(offline.invalid(invalid));
+  groupResults(results)
+    .filter(g => g.stats.outlier?.isOutlier)
+    .forEach(g => list.push(offline.outlier(g.material.name, units.format('temperature', g.temperature), units.format('energy', g.results[g.stats.outlier!.index].absorbedEnergy))));
+  if (results.length < 3) list.push(offline.fewTests);
+  return list;
+};
+
+// Deterministic report built from the data with rules and templates, for labs without network
+export const buildOfflineReport = (results: TestResult[], units: Units = SI_UNITS, t: Messages = es): AnalysisReport => {
+  const sets = materialSets(results, units, t);
+  const fits = fitTransitionCurves(results);
+  return {
+    ranking: sets.map(s => ({
+      material: s.label,
+      meanEnergy: s.meanEnergy,
+      comment: behaviourComment(s, fits.find(f => f.key === s.key)?.t27J ?? null, units, t),
+    })),
+    fractureInterpretation: [
+      ...comparison(sets, units, t),
+      t.offline.mechanism,
+    ].join(' '),
+    applications: applications(sets, units, t),
+    warnings: warnings(results, units, t),
+  };
+};
+
+export const offlineAnalyzer: AnalysisProvider = {
+  id: 'offline',
+  label: 'Analizador sin conexión',
+  analyze: async (results, units, t) => {
+    const report = buildOfflineReport(results, units, t);
+    return { report, markdown: reportToMarkdown(report, units, t) };
+  },
+};
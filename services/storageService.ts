@@ -0,0 +1,224 @@
+import { AcceptanceSpec, AppSettings, ExerciseAttempt, LabSession, Material, TestResult } from "../types";
+import { withFractureAppearance } from "../physics/fractureAppearance";
+import { withEnergySplit, withLossCorrection } from "../physics/engine";
+import { DEFAULT_MACHINE, DEFAULT_SETTINGS, NO_MACHINE_LOSSES } from "../constants";
+
+const DB_NAME = 'charpysim-lab';
+const DB_VERSION = 4;
+const SESSIONS_STORE = 'sessions';
+const RESULTS_STORE = 'results';
+const MATERIALS_STORE = 'materials';
+const SPECS_STORE = 'specs';
+const EXERCISES_STORE = 'exercises';
+const ACTIVE_SESSION_KEY = 'charpysim.activeSession';
+const SETTINGS_KEY = 'charpysim.settings';
+
+// Results are stored with the session they belong to
+interface StoredResult extends TestResult {
+  sessionId: string;
+}
+
+interface StoredAttempt extends ExerciseAttempt {
+  sessionId: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+          const results = db.createObjectStore(RESULTS_STORE, { keyPath: ['sessionId', 'id'] });
+          results.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(MATERIALS_STORE)) {
+          db.createObjectStore(MATERIALS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SPECS_STORE)) {
+          db.createObjectStore(SPECS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(EXERCISES_STORE)) {
+          const exercises = db.createObjectStore(EXERCISES_STORE, { keyPath: ['sessionId', 'resultId'] });
+          exercises.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const touchSession = async (store: IDBObjectStore, sessionId: string) => {
+  const session = await promisify<LabSession | undefined>(store.get(sessionId));
+  if (session) store.put({ ...session, updatedAt: Date.now() });
+};
+
+export const listSessions = async (): Promise<LabSession[]> => {
+  const db = await openDb();
+  const sessions = await promisify<LabSession[]>(db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll());
+  return sessions.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createSession = async (name: string): Promise<LabSession> => {
+  const now = Date.now();
+  const session: LabSession = { id: `session-${now}-${Math.random().toString(36).slice(2, 8)}`, name, createdAt: now, updatedAt: now };
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).add(session);
+  await transactionDone(tx);
+  return session;
+};
+
+export const renameSession = async (sessionId: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const session = await promisify<LabSession | undefined>(store.get(sessionId));
+  if (session) store.put({ ...session, name, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+// Removes the session together with all of its results and exercise answers
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, RESULTS_STORE, EXERCISES_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(sessionId);
+  tx.objectStore(RESULTS_STORE).delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  tx.objectStore(EXERCISES_STORE).delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  await transactionDone(tx);
+};
+
+// Fills in what results saved by older versions did not record
+const upgradeResult = (result: TestResult): TestResult =>
+  withEnergySplit(withFractureAppearance(withLossCorrection({
+    ...result,
+    config: { ...result.config, machine: { ...DEFAULT_MACHINE, ...NO_MACHINE_LOSSES, ...result.config.machine } },
+  })));
+
+export const loadResults = async (sessionId: string): Promise<TestResult[]> => {
+  const db = await openDb();
+  const index = db.transaction(RESULTS_STORE).objectStore(RESULTS_STORE).index('sessionId');
+  const stored = await promisify<StoredResult[]>(index.getAll(sessionId));
+  return stored
+    .map(({ sessionId: _sessionId, ...result }) => upgradeResult(result))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveResults = async (sessionId: string, results: TestResult[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, RESULTS_STORE], 'readwrite');
+  const store = tx.objectStore(RESULTS_STORE);
+  results.forEach(result => store.put({ ...result, sessionId } as StoredResult));
+  await touchSession(tx.objectStore(SESSIONS_STORE), sessionId);
+  await transactionDone(tx);
+};
+
+export const clearResults = async (sessionId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, RESULTS_STORE, EXERCISES_STORE], 'readwrite');
+  tx.objectStore(RESULTS_STORE).delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  tx.objectStore(EXERCISES_STORE).delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  await touchSession(tx.objectStore(SESSIONS_STORE), sessionId);
+  await transactionDone(tx);
+};
+
+// --- Exercise answers ---
+
+export const loadExerciseAttempts = async (sessionId: string): Promise<ExerciseAttempt[]> => {
+  const db = await openDb();
+  const index = db.transaction(EXERCISES_STORE).objectStore(EXERCISES_STORE).index('sessionId');
+  const stored = await promisify<StoredAttempt[]>(index.getAll(sessionId));
+  return stored
+    .map(({ sessionId: _sessionId, ...attempt }) => attempt)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveExerciseAttempt = async (sessionId: string, attempt: ExerciseAttempt): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EXERCISES_STORE, 'readwrite');
+  tx.objectStore(EXERCISES_STORE).put({ ...attempt, sessionId } as StoredAttempt);
+  await transactionDone(tx);
+};
+
+// --- User-defined materials ---
+
+export const listCustomMaterials = async (): Promise<Material[]> => {
+  const db = await openDb();
+  const materials = await promisify<Material[]>(db.transaction(MATERIALS_STORE).objectStore(MATERIALS_STORE).getAll());
+  return materials.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCustomMaterials = async (materials: Material[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MATERIALS_STORE, 'readwrite');
+  const store = tx.objectStore(MATERIALS_STORE);
+  materials.forEach(material => store.put(material));
+  await transactionDone(tx);
+};
+
+export const deleteCustomMaterial = async (materialId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(MATERIALS_STORE, 'readwrite');
+  tx.objectStore(MATERIALS_STORE).delete(materialId);
+  await transactionDone(tx);
+};
+
+// --- User-defined specifications ---
+
+export const listCustomSpecs = async (): Promise<AcceptanceSpec[]> => {
+  const db = await openDb();
+  const specs = await promisify<AcceptanceSpec[]>(db.transaction(SPECS_STORE).objectStore(SPECS_STORE).getAll());
+  return specs.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCustomSpec = async (spec: AcceptanceSpec): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SPECS_STORE, 'readwrite');
+  tx.objectStore(SPECS_STORE).put(spec);
+  await transactionDone(tx);
+};
+
+export const deleteCustomSpec = async (specId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SPECS_STORE, 'readwrite');
+  tx.objectStore(SPECS_STORE).delete(specId);
+  await transactionDone(tx);
+};
+
+export const getActiveSessionId = (): string | null => localStorage.getItem(ACTIVE_SESSION_KEY);
+
+export const setActiveSessionId = (sessionId: string) => localStorage.setItem(ACTIVE_SESSION_KEY, sessionId);
+
+// Stored settings over the defaults, so preferences added later get their default value
+export const getSettings = (): AppSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const setSettings = (settings: AppSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
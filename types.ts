@@ -1,34 +1,158 @@
+export type FractureType = 'Ductile' | 'Brittle' | 'Mixed';
+
+// Ductile-to-brittle transition curve (hyperbolic tangent model)
+export interface TransitionCurve {
+  upperShelf: number; // Joules, fully ductile plateau
+  lowerShelf: number; // Joules, fully brittle plateau
+  transitionTemp: number; // °C, mid-transition temperature
+  width: number; // °C, half-width of the transition region
+}
+
+export type NotchType = 'V' | 'U' | 'Keyhole';
+
+export interface SpecimenGeometry {
+  width: number; // mm, B (10 standard; 7.5 / 5 / 2.5 sub-size)
+  thickness: number; // mm, height in the striking direction (10 standard)
+  notchType: NotchType;
+  notchDepth: number; // mm
+  notchRadius: number; // mm, notch root radius
+}
+
 export interface Material {
   id: string;
   name: string;
   type: string;
-  baseToughness: number; // In Joules (approximate for standard sample)
+  transition: TransitionCurve; // Absorbed energy vs temperature (standard 10x10 V-notch sample)
   color: string;
   description: string;
-  fractureType: 'Ductile' | 'Brittle' | 'Mixed';
+  fractureType: FractureType; // Nominal behaviour at room temperature
+}
+
+// Striker edge radius: 2 mm (ISO 148-1) or 8 mm (ASTM E23)
+export type StrikerRadius = 2 | 8;
+
+// Nominal characteristics of the testing machine, used for the validity checks
+export interface MachineProfile {
+  nominalEnergy: number; // Joules, capacity class (150 / 300 / 450)
+  strikerRadius: StrikerRadius; // mm
+  frictionTorque: number; // N·m, bearing friction
+  windageCoefficient: number; // N·m·s², air drag torque per (rad/s)²
 }
 
 export interface PendulumConfig {
   mass: number; // kg
   length: number; // meters
   startAngle: number; // degrees
+  temperature: number; // °C, specimen test temperature
+  machine: MachineProfile;
 }
 
 export interface TestResult {
   id: string;
   timestamp: number;
   material: Material;
+  specimen: SpecimenGeometry;
+  config: PendulumConfig; // Machine settings used for the test
+  seed: number; // Random seed, together with the inputs it reproduces the test exactly
+  temperature: number; // °C
   initialEnergy: number; // Joules
-  absorbedEnergy: number; // Joules
+  absorbedEnergy: number; // Joules, corrected for friction and windage
+  uncorrectedEnergy: number; // Joules, dial reading PE1 - PE2
+  lossCorrection: number; // Joules, losses subtracted from the dial reading
   finalAngle: number; // degrees
   didBreak: boolean;
+  fractureType: FractureType; // From the transition model at the test temperature
+  lateralExpansion: number; // mm
+  shearPercent: number; // %, shear (ductile) fracture area
+  initiationEnergy: number; // Joules, up to maximum force (instrumented striker)
+  propagationEnergy: number; // Joules, after maximum force
+}
+
+// Impact requirement of a steel grade or purchase order, judged on full-size V-notch specimens
+export interface AcceptanceSpec {
+  id: string;
+  name: string;
+  temperature: number; // °C, test temperature the values apply to
+  minAverage: number; // Joules, minimum mean of the set
+  minIndividual: number; // Joules, no single value may fall below it
+}
+
+// Allowed range of a machine setting, in SI
+export interface SettingRange {
+  min: number;
+  max: number;
+}
+
+// Ranges the configuration panel accepts
+export interface ConfigLimits {
+  mass: SettingRange; // kg
+  length: SettingRange; // meters
+  startAngle: SettingRange; // degrees
+  temperature: SettingRange; // °C
+}
+
+// Material the student may name as the answer
+export type ChallengeCandidate = Pick<Material, 'id' | 'name'>;
+
+// Lab exam built by the instructor: the material is tested under a code name and has to be identified
+export interface Challenge {
+  id: string;
+  codeName: string; // Shown instead of the material name, e.g. "Muestra X"
+  sample: Material; // Physics of the hidden material under the code name; no id, name, type or description of the original
+  answerHash: string; // Hash of challenge id + hidden material id, see hashAnswer
+  candidates: ChallengeCandidate[]; // Names only, so the curves cannot be compared with the sample
+  limits: ConfigLimits;
+  createdAt: number;
+}
+
+export interface ChallengeSubmission {
+  materialId: string; // Candidate chosen by the student
+  reasoning: string;
+  submittedAt: number;
+}
+
+// Calculation questions asked after each test in exercise mode
+export type ExerciseQuantity = 'h0' | 'hf' | 'pe1' | 'pe2' | 'kv';
+
+// A student's answers for one test, kept with the session for the instructor
+export interface ExerciseAttempt {
+  resultId: string;
+  timestamp: number;
+  answers: Record<ExerciseQuantity, number | null>; // SI, null when left blank
+  correct: Record<ExerciseQuantity, boolean>;
+}
+
+// Named group of tests (a lab session or project), persisted in the browser
+export interface LabSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Who writes the discussion of the results: the Gemini API or the offline rule-based analyzer
+export type AnalysisProviderId = 'gemini' | 'offline';
+
+// Units shown in the interface; results are always stored in SI
+export type UnitSystem = 'SI' | 'US';
+
+export type Language = 'es' | 'en' | 'pt';
+
+// User preferences, persisted in the browser
+export interface AppSettings {
+  analysisProvider: AnalysisProviderId;
+  unitSystem: UnitSystem;
+  language: Language;
+  acceptanceSpecId: string | null; // Specification the results are judged against
+  exerciseMode: boolean; // Hide the absorbed energy until the student has worked it out
 }
 
 export enum SimulationState {
   IDLE = 'IDLE',
+  FREE_SWING = 'FREE_SWING', // Calibration run without a specimen
   SWINGING_DOWN = 'SWINGING_DOWN',
   IMPACT = 'IMPACT',
   SWINGING_UP = 'SWINGING_UP',
   OSCILLATING = 'OSCILLATING',
   FINISHED = 'FINISHED',
-}
\ No newline at end of file
+}